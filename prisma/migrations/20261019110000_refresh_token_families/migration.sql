@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "refresh_tokens" ADD COLUMN     "familyId" TEXT,
+ADD COLUMN     "revokedAt" TIMESTAMP(3);
+
+-- Existing tokens each start their own family and are stored hashed
+UPDATE "refresh_tokens"
+SET "familyId" = "id",
+    "token" = encode(sha256(convert_to("token", 'UTF8')), 'hex');
+
+ALTER TABLE "refresh_tokens" ALTER COLUMN "familyId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "refresh_tokens_familyId_idx" ON "refresh_tokens"("familyId");
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "refresh_tokens" ADD COLUMN     "ipAddress" TEXT,
+ADD COLUMN     "lastUsedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "userAgent" TEXT;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "impersonations" (
+    "id" TEXT NOT NULL,
+    "actorId" TEXT NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "userAgent" TEXT,
+    "ipAddress" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "endedAt" TIMESTAMP(3),
+
+    CONSTRAINT "impersonations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "impersonations_actorId_idx" ON "impersonations"("actorId");
+
+-- CreateIndex
+CREATE INDEX "impersonations_targetId_idx" ON "impersonations"("targetId");
+
+-- AddForeignKey
+ALTER TABLE "impersonations" ADD CONSTRAINT "impersonations_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "impersonations" ADD CONSTRAINT "impersonations_targetId_fkey" FOREIGN KEY ("targetId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "AuthEventType" AS ENUM ('LOGIN_SUCCESS', 'LOGIN_FAILURE', 'TOKEN_REFRESH', 'LOGOUT', 'PASSWORD_RESET_REQUESTED', 'PASSWORD_RESET', 'PASSWORD_CHANGED', 'TWO_FACTOR_ENABLED', 'TWO_FACTOR_DISABLED', 'TWO_FACTOR_RECOVERY_CODES_REGENERATED', 'TWO_FACTOR_RESET', 'PASSKEY_ADDED', 'PASSKEY_REMOVED');
+
+-- CreateTable
+CREATE TABLE "auth_events" (
+    "id" TEXT NOT NULL,
+    "type" "AuthEventType" NOT NULL,
+    "userId" TEXT,
+    "email" TEXT,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "auth_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "auth_events_userId_createdAt_idx" ON "auth_events"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "auth_events_userId_type_idx" ON "auth_events"("userId", "type");
+
+-- AddForeignKey
+ALTER TABLE "auth_events" ADD CONSTRAINT "auth_events_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
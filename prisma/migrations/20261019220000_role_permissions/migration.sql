@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "role_permissions" (
+    "id" TEXT NOT NULL,
+    "role" "Role" NOT NULL,
+    "permission" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "role_permissions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "role_permissions_role_permission_key" ON "role_permissions"("role", "permission");
+
+-- Default mappings: admins keep every permission, premium users may pick any model
+INSERT INTO "role_permissions" ("id", "role", "permission") VALUES
+    (gen_random_uuid()::text, 'ADMIN', 'users:read'),
+    (gen_random_uuid()::text, 'ADMIN', 'users:manage'),
+    (gen_random_uuid()::text, 'ADMIN', 'users:impersonate'),
+    (gen_random_uuid()::text, 'ADMIN', 'invitations:manage'),
+    (gen_random_uuid()::text, 'ADMIN', 'signing-keys:rotate'),
+    (gen_random_uuid()::text, 'ADMIN', 'permissions:manage'),
+    (gen_random_uuid()::text, 'ADMIN', 'files:read:any'),
+    (gen_random_uuid()::text, 'ADMIN', 'files:delete:any'),
+    (gen_random_uuid()::text, 'ADMIN', 'ai:model:*'),
+    (gen_random_uuid()::text, 'PREMIUM', 'ai:model:*');
@@ -0,0 +1,15 @@
+-- AlterEnum
+ALTER TYPE "AuthEventType" ADD VALUE 'ROLE_CHANGED';
+ALTER TYPE "AuthEventType" ADD VALUE 'ACCOUNT_DEACTIVATED';
+ALTER TYPE "AuthEventType" ADD VALUE 'ACCOUNT_ACTIVATED';
+ALTER TYPE "AuthEventType" ADD VALUE 'EMAIL_VERIFIED_BY_ADMIN';
+ALTER TYPE "AuthEventType" ADD VALUE 'USAGE_RESET';
+ALTER TYPE "AuthEventType" ADD VALUE 'ACCOUNT_DELETED';
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "deactivatedAt" TIMESTAMP(3),
+ADD COLUMN "deactivationReason" TEXT;
+
+-- Hard deletes get their own permission
+INSERT INTO "role_permissions" ("id", "role", "permission") VALUES
+    (gen_random_uuid()::text, 'ADMIN', 'users:delete');
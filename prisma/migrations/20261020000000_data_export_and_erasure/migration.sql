@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "AuthEventType" ADD VALUE 'DATA_EXPORT_REQUESTED';
+ALTER TYPE "AuthEventType" ADD VALUE 'ACCOUNT_ERASURE_SCHEDULED';
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "erasureScheduledAt" TIMESTAMP(3);
@@ -0,0 +1,29 @@
+-- AlterEnum
+ALTER TYPE "AuthEventType" ADD VALUE 'ACCOUNT_SUSPENDED';
+ALTER TYPE "AuthEventType" ADD VALUE 'ACCOUNT_REINSTATED';
+
+-- CreateTable
+CREATE TABLE "suspensions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "endsAt" TIMESTAMP(3),
+    "imposedById" TEXT,
+    "liftedAt" TIMESTAMP(3),
+    "liftedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "suspensions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "suspensions_userId_idx" ON "suspensions"("userId");
+
+-- AddForeignKey
+ALTER TABLE "suspensions" ADD CONSTRAINT "suspensions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "suspensions" ADD CONSTRAINT "suspensions_imposedById_fkey" FOREIGN KEY ("imposedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "suspensions" ADD CONSTRAINT "suspensions_liftedById_fkey" FOREIGN KEY ("liftedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
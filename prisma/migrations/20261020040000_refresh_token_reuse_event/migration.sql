@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "AuthEventType" ADD VALUE 'REFRESH_TOKEN_REUSE';
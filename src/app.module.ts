@@ -9,9 +9,11 @@ import appConfig from './config/app.config';
 import databaseConfig from './config/database.config';
 import redisConfig from './config/redis.config';
 import jwtConfig from './config/jwt.config';
+import authConfig from './config/auth.config';
 import aiConfig from './config/ai.config';
 import emailConfig from './config/email.config';
 import storageConfig from './config/storage.config';
+import usersConfig from './config/users.config';
 import sentryConfig from './config/sentry.config';
 
 // Database
@@ -20,6 +22,8 @@ import { DatabaseModule } from './database/database.module';
 // Modules
 import { AuthModule } from './modules/auth/auth.module';
 import { UsersModule } from './modules/users/users.module';
+import { OrganizationsModule } from './modules/organizations/organizations.module';
+import { PermissionsModule } from './modules/permissions/permissions.module';
 import { HealthModule } from './modules/health/health.module';
 import { EmailModule } from './modules/email/email.module';
 import { StorageModule } from './modules/storage/storage.module';
@@ -28,6 +32,11 @@ import { AiModule } from './modules/ai/ai.module';
 // Guards, Interceptors, Filters
 import { JwtAuthGuard } from './common/guards/jwt-auth.guard';
 import { RolesGuard } from './common/guards/roles.guard';
+import { PermissionsGuard } from './common/guards/permissions.guard';
+import { EmailVerifiedGuard } from './common/guards/email-verified.guard';
+import { ImpersonationGuard } from './common/guards/impersonation.guard';
+import { OrganizationGuard } from './common/guards/organization.guard';
+import { ScopesGuard } from './common/guards/scopes.guard';
 import { LoggingInterceptor } from './common/interceptors/logging.interceptor';
 import { TimeoutInterceptor } from './common/interceptors/timeout.interceptor';
 import { AllExceptionsFilter } from './common/filters/all-exceptions.filter';
@@ -43,9 +52,11 @@ import { LoggerMiddleware } from './common/middleware/logger.middleware';
         databaseConfig,
         redisConfig,
         jwtConfig,
+        authConfig,
         aiConfig,
         emailConfig,
         storageConfig,
+        usersConfig,
         sentryConfig,
       ],
     }),
@@ -75,6 +86,8 @@ import { LoggerMiddleware } from './common/middleware/logger.middleware';
     // Feature Modules
     AuthModule,
     UsersModule,
+    OrganizationsModule,
+    PermissionsModule,
     HealthModule,
     EmailModule,
     StorageModule,
@@ -90,6 +103,26 @@ import { LoggerMiddleware } from './common/middleware/logger.middleware';
       provide: APP_GUARD,
       useClass: RolesGuard,
     },
+    {
+      provide: APP_GUARD,
+      useClass: PermissionsGuard,
+    },
+    {
+      provide: APP_GUARD,
+      useClass: ScopesGuard,
+    },
+    {
+      provide: APP_GUARD,
+      useClass: EmailVerifiedGuard,
+    },
+    {
+      provide: APP_GUARD,
+      useClass: ImpersonationGuard,
+    },
+    {
+      provide: APP_GUARD,
+      useClass: OrganizationGuard,
+    },
     {
       provide: APP_GUARD,
       useClass: ThrottlerGuard,
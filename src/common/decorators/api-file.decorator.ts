@@ -1,10 +1,18 @@
 import { applyDecorators, UseInterceptors } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { ApiBody, ApiConsumes } from '@nestjs/swagger';
+import { LimitedFileInterceptor } from '../interceptors/limited-file.interceptor';
 
-export function ApiFile(fieldName: string = 'file') {
+/**
+ * Single file upload; maxFileSizeKey names the config value limiting its size
+ */
+export function ApiFile(fieldName: string = 'file', maxFileSizeKey?: string) {
   return applyDecorators(
-    UseInterceptors(FileInterceptor(fieldName)),
+    UseInterceptors(
+      maxFileSizeKey
+        ? LimitedFileInterceptor(fieldName, maxFileSizeKey)
+        : FileInterceptor(fieldName),
+    ),
     ApiConsumes('multipart/form-data'),
     ApiBody({
       schema: {
@@ -0,0 +1,19 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+
+// Device details recorded alongside sessions and security events
+export interface ClientInfo {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export const ClientInfo = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): ClientInfo => {
+    const request = ctx.switchToHttp().getRequest<Request>();
+
+    return {
+      ipAddress: request.ip,
+      userAgent: request.get('user-agent'),
+    };
+  },
+);
@@ -1,5 +1,11 @@
 import { createParamDecorator, ExecutionContext } from '@nestjs/common';
-import { Role } from '@prisma/client';
+import { OrganizationRole, Role } from '@prisma/client';
+
+// Organization selected for the session, with the user's role in it
+export interface ActiveOrganization {
+  id: string;
+  role: OrganizationRole;
+}
 
 // Define the user payload structure from JWT
 export interface UserPayload {
@@ -9,6 +15,20 @@ export interface UserPayload {
   lastName?: string | null;
   role: Role;
   isActive: boolean;
+  emailVerified: boolean;
+  sessionId?: string;
+  // Set when the session acts in an organization the user belongs to
+  organization?: ActiveOrganization;
+  // Set when the request is authenticated with an API key
+  apiKey?: {
+    id: string;
+    scopes: string[];
+  };
+  // Set when an admin is impersonating this user: the real caller
+  actor?: {
+    id: string;
+    email: string;
+  };
 }
 
 // Extend Express Request to include user
@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+import { OrganizationRole } from '@prisma/client';
+
+// Membership of the organization in the :organizationId route parameter, or
+// of the active organization, with one of the roles when any are given
+export const ORGANIZATION_ROLES_KEY = 'organizationRoles';
+export const RequireOrganization = (...roles: OrganizationRole[]) =>
+  SetMetadata(ORGANIZATION_ROLES_KEY, roles);
@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+import { ApiKeyScope } from '../../utils/constants';
+
+export const SCOPES_KEY = 'scopes';
+export const RequireScopes = (...scopes: ApiKeyScope[]) =>
+  SetMetadata(SCOPES_KEY, scopes);
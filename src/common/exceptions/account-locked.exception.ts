@@ -0,0 +1,14 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export class AccountLockedException extends HttpException {
+  constructor(lockedUntil: Date) {
+    super(
+      {
+        statusCode: HttpStatus.LOCKED,
+        code: 'ACCOUNT_LOCKED',
+        message: `Account is temporarily locked due to too many failed login attempts. Try again after ${lockedUntil.toISOString()}`,
+      },
+      HttpStatus.LOCKED,
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export class AccountSuspendedException extends HttpException {
+  constructor(suspendedUntil: Date | null) {
+    super(
+      {
+        statusCode: HttpStatus.FORBIDDEN,
+        code: 'ACCOUNT_SUSPENDED',
+        message: suspendedUntil
+          ? `Account is suspended until ${suspendedUntil.toISOString()}`
+          : 'Account is suspended until further notice',
+        suspendedUntil: suspendedUntil?.toISOString() ?? null,
+      },
+      HttpStatus.FORBIDDEN,
+    );
+  }
+}
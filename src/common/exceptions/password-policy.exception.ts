@@ -0,0 +1,20 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export interface PasswordPolicyViolation {
+  rule: string;
+  message: string;
+}
+
+export class PasswordPolicyException extends HttpException {
+  constructor(violations: PasswordPolicyViolation[]) {
+    super(
+      {
+        statusCode: HttpStatus.BAD_REQUEST,
+        code: 'PASSWORD_POLICY_VIOLATION',
+        message: violations.map((violation) => violation.message).join('. '),
+        details: violations,
+      },
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+}
@@ -0,0 +1,14 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export class TooManyLoginAttemptsException extends HttpException {
+  constructor(retryAfterSeconds: number) {
+    super(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        code: 'TOO_MANY_LOGIN_ATTEMPTS',
+        message: `Too many failed login attempts from this address. Try again in ${retryAfterSeconds} seconds`,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
@@ -27,12 +27,27 @@ export class AllExceptionsFilter implements ExceptionFilter {
         ? exception.message
         : 'Internal server error';
 
+    // Fields set by custom exceptions besides the standard ones, e.g. a
+    // machine-readable code, every violated password rule or the end of a
+    // suspension
+    const exceptionResponse =
+      exception instanceof HttpException ? exception.getResponse() : undefined;
+    const {
+      statusCode: _statusCode,
+      message: _message,
+      error: _error,
+      ...extra
+    } = typeof exceptionResponse === 'object' && exceptionResponse !== null
+      ? (exceptionResponse as Record<string, unknown>)
+      : {};
+
     const errorResponse = {
       statusCode: status,
       timestamp: new Date().toISOString(),
       path: request.url,
       method: request.method,
       message,
+      ...extra,
     };
 
     this.logger.error(
@@ -0,0 +1,46 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { REQUIRE_VERIFIED_EMAIL_KEY } from '../decorators/email-verified.decorator';
+
+interface AuthenticatedRequest {
+  user?: {
+    id: string;
+    emailVerified: boolean;
+  };
+}
+
+@Injectable()
+export class EmailVerifiedGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const requireVerified = this.reflector.getAllAndOverride<boolean>(
+      REQUIRE_VERIFIED_EMAIL_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!requireVerified) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const user = request.user;
+
+    if (!user) {
+      return false;
+    }
+
+    if (!user.emailVerified) {
+      throw new ForbiddenException(
+        'Please verify your email address to use this feature',
+      );
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,44 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { DISALLOW_IMPERSONATION_KEY } from '../decorators/disallow-impersonation.decorator';
+
+interface AuthenticatedRequest {
+  user?: {
+    id: string;
+    actor?: { id: string };
+  };
+}
+
+/**
+ * Blocks sensitive actions for admins acting as another user
+ */
+@Injectable()
+export class ImpersonationGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const disallowed = this.reflector.getAllAndOverride<boolean>(
+      DISALLOW_IMPERSONATION_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!disallowed) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+
+    if (request.user?.actor) {
+      throw new ForbiddenException(
+        'This action is not allowed while impersonating a user',
+      );
+    }
+
+    return true;
+  }
+}
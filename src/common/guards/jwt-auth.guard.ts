@@ -8,8 +8,11 @@ import { AuthGuard } from '@nestjs/passport';
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
 import { UserPayload } from '../decorators/current-user.decorator';
 
+/**
+ * Authenticates requests with a bearer JWT, falling back to an X-API-Key header
+ */
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') {
+export class JwtAuthGuard extends AuthGuard(['jwt', 'api-key']) {
   constructor(private reflector: Reflector) {
     super();
   }
@@ -0,0 +1,74 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { OrganizationRole } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { ORGANIZATION_ROLES_KEY } from '../decorators/require-organization.decorator';
+
+interface AuthenticatedRequest {
+  params: { organizationId?: string };
+  user?: {
+    id: string;
+    organization?: { id: string; role: OrganizationRole };
+  };
+}
+
+/**
+ * Enforces organization membership and roles on endpoints marked with
+ * `@RequireOrganization()`
+ */
+@Injectable()
+export class OrganizationGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private prisma: PrismaService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const requiredRoles = this.reflector.getAllAndOverride<OrganizationRole[]>(
+      ORGANIZATION_ROLES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!requiredRoles) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const user = request.user;
+
+    if (!user) {
+      return false;
+    }
+
+    const organizationId =
+      request.params.organizationId ?? user.organization?.id;
+
+    if (!organizationId) {
+      throw new ForbiddenException(
+        'No active organization, switch to an organization first',
+      );
+    }
+
+    const membership = await this.prisma.membership.findUnique({
+      where: { organizationId_userId: { organizationId, userId: user.id } },
+      select: { role: true },
+    });
+
+    if (!membership) {
+      throw new ForbiddenException('You are not a member of this organization');
+    }
+
+    if (requiredRoles.length > 0 && !requiredRoles.includes(membership.role)) {
+      throw new ForbiddenException(
+        `Requires organization role: ${requiredRoles.join(' or ')}`,
+      );
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,62 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Role } from '@prisma/client';
+import { PERMISSIONS_KEY } from '../decorators/permissions.decorator';
+import { Permission } from '../../utils/constants';
+import { PermissionsService } from '../../modules/permissions/permissions.service';
+
+interface AuthenticatedRequest {
+  user?: {
+    id: string;
+    role: Role;
+  };
+}
+
+/**
+ * Requires every permission listed with `@RequirePermissions()`, resolved
+ * from the user's role
+ */
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private permissionsService: PermissionsService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const requiredPermissions = this.reflector.getAllAndOverride<Permission[]>(
+      PERMISSIONS_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!requiredPermissions) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const user = request.user;
+
+    if (!user) {
+      return false;
+    }
+
+    const missingPermissions =
+      await this.permissionsService.getMissingPermissions(
+        user.role,
+        requiredPermissions,
+      );
+
+    if (missingPermissions.length > 0) {
+      throw new ForbiddenException(
+        `Missing required permissions: ${missingPermissions.join(', ')}`,
+      );
+    }
+
+    return true;
+  }
+}
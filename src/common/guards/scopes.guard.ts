@@ -0,0 +1,58 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { SCOPES_KEY } from '../decorators/scopes.decorator';
+import { ApiKeyScope } from '../../utils/constants';
+
+interface AuthenticatedRequest {
+  user?: {
+    id: string;
+    apiKey?: {
+      id: string;
+      scopes: string[];
+    };
+  };
+}
+
+/**
+ * Restricts API key requests to endpoints that declare the scopes they need.
+ * Requests authenticated with a JWT are not affected.
+ */
+@Injectable()
+export class ScopesGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const apiKey = request.user?.apiKey;
+
+    if (!apiKey) {
+      return true;
+    }
+
+    const requiredScopes = this.reflector.getAllAndOverride<ApiKeyScope[]>(
+      SCOPES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!requiredScopes) {
+      throw new ForbiddenException('API keys cannot access this endpoint');
+    }
+
+    const missingScopes = requiredScopes.filter(
+      (scope) => !apiKey.scopes.includes(scope),
+    );
+
+    if (missingScopes.length > 0) {
+      throw new ForbiddenException(
+        `API key is missing required scopes: ${missingScopes.join(', ')}`,
+      );
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,54 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  mixin,
+  NestInterceptor,
+  PayloadTooLargeException,
+  Type,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Observable } from 'rxjs';
+import { formatBytes } from '../../utils/helpers';
+
+/**
+ * FileInterceptor whose size limit is read from config, so multer stops
+ * reading the upload once it is too large instead of buffering all of it
+ */
+export function LimitedFileInterceptor(
+  fieldName: string,
+  maxFileSizeKey: string,
+): Type<NestInterceptor> {
+  @Injectable()
+  class MixinInterceptor implements NestInterceptor {
+    private readonly maxFileSize: number;
+    private readonly interceptor: NestInterceptor;
+
+    constructor(configService: ConfigService) {
+      this.maxFileSize = configService.getOrThrow<number>(maxFileSizeKey);
+      const Interceptor = FileInterceptor(fieldName, {
+        limits: { fileSize: this.maxFileSize },
+      });
+      this.interceptor = new Interceptor();
+    }
+
+    async intercept(
+      context: ExecutionContext,
+      next: CallHandler,
+    ): Promise<Observable<any>> {
+      try {
+        return await this.interceptor.intercept(context, next);
+      } catch (error) {
+        if (error instanceof PayloadTooLargeException) {
+          throw new PayloadTooLargeException(
+            `The file can be at most ${formatBytes(this.maxFileSize)}`,
+          );
+        }
+        throw error;
+      }
+    }
+  }
+
+  return mixin(MixinInterceptor);
+}
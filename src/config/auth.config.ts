@@ -0,0 +1,99 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('auth', () => ({
+  twoFactor: {
+    issuer: process.env.TWO_FACTOR_ISSUER || 'Backend API',
+    challengeTtl: parseInt(process.env.TWO_FACTOR_CHALLENGE_TTL || '300', 10),
+    recoveryCodeCount: parseInt(
+      process.env.TWO_FACTOR_RECOVERY_CODES || '10',
+      10,
+    ),
+  },
+  registration: {
+    // open | invite-only | domain
+    mode: process.env.REGISTRATION_MODE || 'open',
+    allowedDomains: (process.env.REGISTRATION_ALLOWED_DOMAINS || '')
+      .split(',')
+      .map((domain) => domain.trim().toLowerCase())
+      .filter(Boolean),
+    invitationTtl: parseInt(process.env.INVITATION_TTL || '604800', 10),
+  },
+  passwordPolicy: {
+    minLength: parseInt(process.env.PASSWORD_MIN_LENGTH || '8', 10),
+    maxLength: parseInt(process.env.PASSWORD_MAX_LENGTH || '128', 10),
+    requireUppercase: process.env.PASSWORD_REQUIRE_UPPERCASE !== 'false',
+    requireLowercase: process.env.PASSWORD_REQUIRE_LOWERCASE !== 'false',
+    requireDigit: process.env.PASSWORD_REQUIRE_DIGIT === 'true',
+    requireSymbol: process.env.PASSWORD_REQUIRE_SYMBOL === 'true',
+    // Out of uppercase, lowercase, digit and symbol
+    minCharacterClasses: parseInt(
+      process.env.PASSWORD_MIN_CHARACTER_CLASSES || '3',
+      10,
+    ),
+    disallowPersonalInfo:
+      process.env.PASSWORD_DISALLOW_PERSONAL_INFO !== 'false',
+    historySize: parseInt(process.env.PASSWORD_HISTORY_SIZE || '5', 10),
+    // Directory of breached password range files (<PREFIX>.txt with
+    // SUFFIX:COUNT lines), as written by the Pwned Passwords downloader
+    breachedRangesDir: process.env.PASSWORD_BREACHED_RANGES_DIR,
+  },
+  passwordHashing: {
+    // argon2id | bcrypt - hashes from the other algorithm are upgraded on login
+    algorithm: process.env.PASSWORD_HASH_ALGORITHM || 'argon2id',
+    bcryptCost: parseInt(process.env.PASSWORD_BCRYPT_COST || '12', 10),
+    argon2: {
+      memoryCost: parseInt(process.env.ARGON2_MEMORY_COST || '19456', 10),
+      timeCost: parseInt(process.env.ARGON2_TIME_COST || '2', 10),
+      parallelism: parseInt(process.env.ARGON2_PARALLELISM || '1', 10),
+    },
+  },
+  permissions: {
+    // Seconds a role's resolved permissions stay cached in Redis
+    cacheTtl: parseInt(process.env.PERMISSIONS_CACHE_TTL || '300', 10),
+  },
+  lockout: {
+    maxAttempts: parseInt(process.env.LOGIN_MAX_ATTEMPTS || '5', 10),
+    ipMaxAttempts: parseInt(process.env.LOGIN_IP_MAX_ATTEMPTS || '20', 10),
+    // Failures from any IP address that lock the account everywhere
+    accountMaxAttempts: parseInt(
+      process.env.LOGIN_ACCOUNT_MAX_ATTEMPTS || '50',
+      10,
+    ),
+    window: parseInt(process.env.LOGIN_ATTEMPT_WINDOW || '900', 10),
+    duration: parseInt(process.env.LOGIN_LOCKOUT_DURATION || '900', 10),
+  },
+  webauthn: {
+    rpName: process.env.WEBAUTHN_RP_NAME || 'Backend API',
+    rpId: process.env.WEBAUTHN_RP_ID || 'localhost',
+    // Comma-separated list of origins allowed to run ceremonies
+    origins: (
+      process.env.WEBAUTHN_ORIGINS ||
+      process.env.FRONTEND_URL ||
+      'http://localhost:5173'
+    ).split(','),
+    challengeTtl: parseInt(process.env.WEBAUTHN_CHALLENGE_TTL || '300', 10),
+  },
+  magicLink: {
+    ttl: parseInt(process.env.MAGIC_LINK_TTL || '900', 10),
+  },
+  impersonation: {
+    ttl: parseInt(process.env.IMPERSONATION_TTL || '900', 10),
+  },
+  oauth: {
+    callbackUrl:
+      process.env.OAUTH_CALLBACK_URL ||
+      'http://localhost:3000/api/v1/auth/oauth',
+    stateTtl: parseInt(process.env.OAUTH_STATE_TTL || '600', 10),
+    google: {
+      clientId: process.env.GOOGLE_CLIENT_ID,
+      clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+      issuer: process.env.GOOGLE_OIDC_ISSUER || 'https://accounts.google.com',
+    },
+    github: {
+      clientId: process.env.GITHUB_CLIENT_ID,
+      clientSecret: process.env.GITHUB_CLIENT_SECRET,
+      baseUrl: process.env.GITHUB_BASE_URL || 'https://github.com',
+      apiUrl: process.env.GITHUB_API_URL || 'https://api.github.com',
+    },
+  },
+}));
@@ -7,4 +7,13 @@ export default registerAs('jwt', () => ({
     process.env.JWT_REFRESH_SECRET ||
     'your-refresh-secret-change-in-production',
   refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
+  // Access token signing: HS256 (shared secret), RS256 or ES256
+  algorithm: process.env.JWT_ALGORITHM || 'HS256',
+  // Encrypts stored private keys; required for RS256/ES256
+  keyPassphrase: process.env.JWT_KEY_PASSPHRASE,
+  keyRotationDays: parseInt(process.env.JWT_KEY_ROTATION_DAYS || '30', 10),
+  keyRetentionDays: parseInt(process.env.JWT_KEY_RETENTION_DAYS || '7', 10),
+  // After switching to RS256/ES256, keep accepting HS256 tokens until this
+  // ISO date (unset: never)
+  hs256AcceptedUntil: process.env.JWT_HS256_ACCEPTED_UNTIL,
 }));
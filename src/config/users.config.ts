@@ -0,0 +1,44 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('users', () => ({
+  dataExport: {
+    // Public download endpoint linked from the export email
+    downloadUrl:
+      process.env.DATA_EXPORT_DOWNLOAD_URL ||
+      'http://localhost:3000/api/v1/users/exports',
+    // Seconds an archive can be downloaded before it is deleted
+    ttl: parseInt(process.env.DATA_EXPORT_TTL || '172800', 10),
+  },
+  erasure: {
+    // Seconds between deleting an account and erasing its data
+    gracePeriod: parseInt(
+      process.env.ACCOUNT_ERASURE_GRACE_PERIOD || '2592000',
+      10,
+    ),
+  },
+  preferences: {
+    // Defaults for settings a user hasn't changed; AI defaults come from
+    // the ai config
+    locale: process.env.DEFAULT_LOCALE || 'en-US',
+    timezone: process.env.DEFAULT_TIMEZONE || 'UTC',
+    notifications: {
+      newSignIn: process.env.DEFAULT_NOTIFY_NEW_SIGN_IN !== 'false',
+      productUpdates: process.env.DEFAULT_NOTIFY_PRODUCT_UPDATES === 'true',
+    },
+  },
+  import: {
+    // Largest CSV accepted by POST /users/import
+    maxRows: parseInt(process.env.USER_IMPORT_MAX_ROWS || '1000', 10),
+    maxFileSize: parseInt(
+      process.env.USER_IMPORT_MAX_FILE_SIZE || '1048576',
+      10,
+    ),
+  },
+  avatar: {
+    // Square sizes in pixels; avatarUrl points to the largest
+    sizes: (process.env.AVATAR_SIZES || '512,128')
+      .split(',')
+      .map((size) => parseInt(size, 10)),
+    maxFileSize: parseInt(process.env.AVATAR_MAX_FILE_SIZE || '5242880', 10),
+  },
+}));
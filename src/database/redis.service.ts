@@ -2,6 +2,16 @@ import { Injectable, OnModuleDestroy, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import Redis from 'ioredis';
 
+// INCR and set the expiry of a new counter in one step, so a crash between
+// the two can't leave a counter that never expires
+const INCR_WITH_EXPIRY_SCRIPT = `
+local value = redis.call('INCR', KEYS[1])
+if value == 1 then
+  redis.call('EXPIRE', KEYS[1], ARGV[1])
+end
+return value
+`;
+
 @Injectable()
 export class RedisService implements OnModuleDestroy {
   private readonly logger = new Logger(RedisService.name);
@@ -43,10 +53,27 @@ export class RedisService implements OnModuleDestroy {
     return this.client.set(key, value);
   }
 
+  async setIfAbsent(key: string, value: string, ttl: number): Promise<boolean> {
+    return (await this.client.set(key, value, 'EX', ttl, 'NX')) === 'OK';
+  }
+
   async del(key: string): Promise<number> {
     return this.client.del(key);
   }
 
+  async incr(key: string, ttl?: number): Promise<number> {
+    if (!ttl) {
+      return this.client.incr(key);
+    }
+
+    return (await this.client.eval(
+      INCR_WITH_EXPIRY_SCRIPT,
+      1,
+      key,
+      ttl,
+    )) as number;
+  }
+
   async exists(key: string): Promise<number> {
     return this.client.exists(key);
   }
@@ -55,6 +82,30 @@ export class RedisService implements OnModuleDestroy {
     return this.client.keys(pattern);
   }
 
+  /**
+   * Keys matching the pattern, found with SCAN so Redis isn't blocked
+   * the way KEYS blocks it
+   */
+  async scan(pattern: string): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor = '0';
+
+    do {
+      const [next, batch] = await this.client.scan(
+        cursor,
+        'MATCH',
+        pattern,
+        'COUNT',
+        100,
+      );
+      keys.push(...batch);
+      cursor = next;
+    } while (cursor !== '0');
+
+    // SCAN may return a key more than once
+    return [...new Set(keys)];
+  }
+
   async ttl(key: string): Promise<number> {
     return this.client.ttl(key);
   }
@@ -37,6 +37,7 @@ async function bootstrap() {
       'Content-Type',
       'Accept',
       'Authorization',
+      'X-API-Key',
       'Access-Control-Allow-Headers',
       'Access-Control-Request-Method',
       'Access-Control-Request-Headers',
@@ -59,7 +60,7 @@ async function bootstrap() {
 
   // Global prefix
   const apiPrefix = configService.get<string>('app.apiPrefix') ?? '/api/v1';
-  app.setGlobalPrefix(apiPrefix);
+  app.setGlobalPrefix(apiPrefix, { exclude: ['.well-known/jwks.json'] });
 
   // Swagger documentation
   const config = new DocumentBuilder()
@@ -77,6 +78,15 @@ async function bootstrap() {
       },
       'JWT-auth',
     )
+    .addApiKey(
+      {
+        type: 'apiKey',
+        name: 'X-API-Key',
+        description: 'Enter API key',
+        in: 'header',
+      },
+      'api-key',
+    )
     .addTag('Authentication', 'User authentication endpoints')
     .addTag('Users', 'User management endpoints')
     .addTag('AI', 'AI chat, embeddings, and conversations')
@@ -8,18 +8,28 @@ import {
   Query,
   HttpCode,
   HttpStatus,
+  ForbiddenException,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
+  ApiSecurity,
   ApiQuery,
 } from '@nestjs/swagger';
 import { Throttle } from '@nestjs/throttler';
-import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import {
+  CurrentUser,
+  UserPayload,
+} from '../../common/decorators/current-user.decorator';
+import { RequireVerifiedEmail } from '../../common/decorators/email-verified.decorator';
+import { RequireScopes } from '../../common/decorators/scopes.decorator';
 import { OpenAIService } from './services/openai.service';
 import { ConversationService } from './services/conversation.service';
+import { PermissionsService } from '../permissions/permissions.service';
+import { PreferencesService } from '../preferences/preferences.service';
 import {
   ChatRequestDto,
   ChatResponseDto,
@@ -36,13 +46,19 @@ import { MessageRole } from '@prisma/client';
 @ApiTags('AI')
 @Controller('ai')
 @ApiBearerAuth()
+@ApiSecurity('api-key')
 export class AiController {
   constructor(
     private openaiService: OpenAIService,
     private conversationService: ConversationService,
+    private permissionsService: PermissionsService,
+    private preferencesService: PreferencesService,
+    private configService: ConfigService,
   ) {}
 
   @Post('chat')
+  @RequireVerifiedEmail()
+  @RequireScopes('ai:chat')
   @Throttle({ default: { limit: 20, ttl: 60000 } })
   @ApiOperation({ summary: 'Send chat message (non-streaming)' })
   @ApiResponse({
@@ -51,16 +67,37 @@ export class AiController {
     type: ChatResponseDto,
   })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Email address not verified, or model not allowed',
+  })
   @ApiResponse({ status: 429, description: 'Too many requests' })
   async chat(
-    @CurrentUser('id') userId: string,
+    @CurrentUser() user: UserPayload,
     @Body() chatRequest: ChatRequestDto,
   ): Promise<ChatResponseDto> {
-    // Get or create conversation
+    const userId = user.id;
+
+    // Fall back to the user's preferred model and temperature
+    const { ai } = await this.preferencesService.getPreferences(userId);
+    const model = chatRequest.model ?? ai.model;
+    const temperature = chatRequest.temperature ?? ai.temperature;
+
+    // Picking a model other than the default needs ai:model:<model>
+    if (!(await this.permissionsService.canUseModel(user.role, model))) {
+      throw new ForbiddenException(
+        `You are not allowed to use the ${model} model`,
+      );
+    }
+
+    // Get or create conversation in the active organization
     let conversationId = chatRequest.conversationId;
     if (!conversationId) {
-      const conversation =
-        await this.conversationService.createConversation(userId);
+      const conversation = await this.conversationService.createConversation(
+        userId,
+        undefined,
+        user.organization,
+      );
       conversationId = conversation.id;
     }
 
@@ -69,6 +106,7 @@ export class AiController {
       conversationId,
       userId,
       10,
+      user.organization,
     );
 
     // Add user message
@@ -86,9 +124,9 @@ export class AiController {
 
     // Generate AI response
     const response = await this.openaiService.generateCompletion(history, {
-      model: chatRequest.model,
+      model,
       maxTokens: chatRequest.maxTokens,
-      temperature: chatRequest.temperature,
+      temperature,
     });
 
     // Save AI response
@@ -116,6 +154,7 @@ export class AiController {
   }
 
   @Post('embeddings')
+  @RequireScopes('ai:embeddings')
   @Throttle({ default: { limit: 20, ttl: 60000 } })
   @ApiOperation({ summary: 'Generate embeddings for text' })
   @ApiResponse({
@@ -147,18 +186,20 @@ export class AiController {
     type: ConversationResponseDto,
   })
   async createConversation(
-    @CurrentUser('id') userId: string,
+    @CurrentUser() user: UserPayload,
     @Body() dto: CreateConversationDto,
   ) {
     const conversation = await this.conversationService.createConversation(
-      userId,
+      user.id,
       dto.title,
+      user.organization,
     );
 
     return {
       id: conversation.id,
       title: conversation.title,
       userId: conversation.userId,
+      organizationId: conversation.organizationId,
       messageCount: 0,
       createdAt: conversation.createdAt,
       updatedAt: conversation.updatedAt,
@@ -166,7 +207,9 @@ export class AiController {
   }
 
   @Get('conversations')
-  @ApiOperation({ summary: 'List user conversations' })
+  @ApiOperation({
+    summary: 'List conversations of the active organization, or your own',
+  })
   @ApiQuery({ name: 'page', required: false, type: Number })
   @ApiQuery({ name: 'limit', required: false, type: Number })
   @ApiResponse({
@@ -174,11 +217,16 @@ export class AiController {
     description: 'Conversations retrieved',
   })
   async listConversations(
-    @CurrentUser('id') userId: string,
+    @CurrentUser() user: UserPayload,
     @Query('page') page: number = 1,
     @Query('limit') limit: number = 20,
   ) {
-    return this.conversationService.listConversations(userId, page, limit);
+    return this.conversationService.listConversations(
+      user.id,
+      page,
+      limit,
+      user.organization,
+    );
   }
 
   @Get('conversations/:id')
@@ -189,22 +237,34 @@ export class AiController {
   })
   @ApiResponse({ status: 404, description: 'Conversation not found' })
   async getConversation(
-    @CurrentUser('id') userId: string,
+    @CurrentUser() user: UserPayload,
     @Param('id') conversationId: string,
   ) {
-    return this.conversationService.getConversation(conversationId, userId);
+    return this.conversationService.getConversation(
+      conversationId,
+      user.id,
+      user.organization,
+    );
   }
 
   @Delete('conversations/:id')
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Delete conversation' })
   @ApiResponse({ status: 204, description: 'Conversation deleted' })
+  @ApiResponse({
+    status: 403,
+    description: 'Shared conversation of another member',
+  })
   @ApiResponse({ status: 404, description: 'Conversation not found' })
   async deleteConversation(
-    @CurrentUser('id') userId: string,
+    @CurrentUser() user: UserPayload,
     @Param('id') conversationId: string,
   ): Promise<void> {
-    await this.conversationService.deleteConversation(conversationId, userId);
+    await this.conversationService.deleteConversation(
+      conversationId,
+      user.id,
+      user.organization,
+    );
   }
 
   @Get('usage')
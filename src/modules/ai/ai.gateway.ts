@@ -8,12 +8,22 @@ import {
   OnGatewayDisconnect,
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
-import { Logger } from '@nestjs/common';
+import {
+  ForbiddenException,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { OpenAIService } from './services/openai.service';
 import { ConversationService } from './services/conversation.service';
+import { PreferencesService } from '../preferences/preferences.service';
+import { PermissionsService } from '../permissions/permissions.service';
+import { SigningKeyService } from '../auth/services/signing-key.service';
+import { JwtStrategy } from '../auth/strategies/jwt.strategy';
+import { JwtPayload } from '../auth/types/jwt-payload.type';
+import { UserPayload } from '../../common/decorators/current-user.decorator';
 import { MessageRole } from '@prisma/client';
 
-// Simple WebSocket guard (you might want to implement JWT validation)
+// Clients pass their access token in the handshake: io(url, { auth: { token } })
 @WebSocketGateway({
   cors: {
     origin: process.env.CORS_ORIGIN || 'http://localhost:5173',
@@ -30,10 +40,20 @@ export class AiGateway implements OnGatewayConnection, OnGatewayDisconnect {
   constructor(
     private openaiService: OpenAIService,
     private conversationService: ConversationService,
+    private preferencesService: PreferencesService,
+    private permissionsService: PermissionsService,
+    private signingKeyService: SigningKeyService,
+    private jwtStrategy: JwtStrategy,
   ) {}
 
-  handleConnection(client: Socket) {
-    this.logger.log(`Client connected: ${client.id}`);
+  async handleConnection(client: Socket) {
+    try {
+      await this.authenticate(client);
+      this.logger.log(`Client connected: ${client.id}`);
+    } catch {
+      client.emit('chat:error', { message: 'Unauthorized' });
+      client.disconnect(true);
+    }
   }
 
   handleDisconnect(client: Socket) {
@@ -44,7 +64,6 @@ export class AiGateway implements OnGatewayConnection, OnGatewayDisconnect {
   async handleChatStream(
     @MessageBody()
     data: {
-      userId: string;
       message: string;
       conversationId?: string;
       model?: string;
@@ -54,13 +73,30 @@ export class AiGateway implements OnGatewayConnection, OnGatewayDisconnect {
     @ConnectedSocket() client: Socket,
   ) {
     try {
-      this.logger.debug(`Starting chat stream for user ${data.userId}`);
+      // Checked again per chat so revoked or expired tokens stop working
+      const user = await this.authenticate(client);
+      this.logger.debug(`Starting chat stream for user ${user.id}`);
+
+      // Fall back to the user's preferred model and temperature
+      const { ai } = await this.preferencesService.getPreferences(user.id);
+      const requestedModel = data.model ?? ai.model;
+
+      // Same model permissions as POST /ai/chat
+      if (
+        !(await this.permissionsService.canUseModel(user.role, requestedModel))
+      ) {
+        throw new ForbiddenException(
+          `You are not allowed to use the ${requestedModel} model`,
+        );
+      }
 
       // Get or create conversation
       let conversationId = data.conversationId;
       if (!conversationId) {
         const conversation = await this.conversationService.createConversation(
-          data.userId,
+          user.id,
+          undefined,
+          user.organization,
         );
         conversationId = conversation.id;
 
@@ -71,8 +107,9 @@ export class AiGateway implements OnGatewayConnection, OnGatewayDisconnect {
       // Get conversation history
       const history = await this.conversationService.getConversationHistory(
         conversationId,
-        data.userId,
+        user.id,
         10,
+        user.organization,
       );
 
       // Add user message
@@ -100,9 +137,9 @@ export class AiGateway implements OnGatewayConnection, OnGatewayDisconnect {
       let tokenCount = 0;
 
       const stream = this.openaiService.generateStreamingCompletion(history, {
-        model: data.model,
+        model: requestedModel,
         maxTokens: data.maxTokens,
-        temperature: data.temperature,
+        temperature: data.temperature ?? ai.temperature,
       });
 
       for await (const chunk of stream) {
@@ -129,23 +166,20 @@ export class AiGateway implements OnGatewayConnection, OnGatewayDisconnect {
             MessageRole.ASSISTANT,
             fullResponse,
             {
-              model: model || data.model || 'gpt-4',
+              model: model || requestedModel,
               tokens: tokenCount,
             },
           );
 
           // Update user token usage
-          await this.conversationService.updateTokenUsage(
-            data.userId,
-            tokenCount,
-          );
+          await this.conversationService.updateTokenUsage(user.id, tokenCount);
 
           // Send completion
           client.emit('chat:end', {
             messageId: aiMessage.id,
             conversationId,
             totalTokens: tokenCount,
-            model: model || data.model,
+            model: model || requestedModel,
             finishReason: chunk.finishReason,
           });
         }
@@ -164,6 +198,27 @@ export class AiGateway implements OnGatewayConnection, OnGatewayDisconnect {
     }
   }
 
+  /**
+   * The user behind the handshake's access token, with the same checks as
+   * HTTP requests (revocation, inactive and suspended accounts)
+   */
+  private async authenticate(client: Socket): Promise<UserPayload> {
+    const auth = client.handshake.auth as { token?: unknown };
+
+    if (typeof auth.token !== 'string') {
+      throw new UnauthorizedException('Access token required');
+    }
+
+    let payload: JwtPayload;
+    try {
+      payload = await this.signingKeyService.verifyAccessToken(auth.token);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired access token');
+    }
+
+    return this.jwtStrategy.validate(payload);
+  }
+
   @SubscribeMessage('chat:stop')
   handleStopChat(@ConnectedSocket() client: Socket) {
     this.logger.debug(`Chat stopped for client ${client.id}`);
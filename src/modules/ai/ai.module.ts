@@ -5,12 +5,18 @@ import { AiGateway } from './ai.gateway';
 import { OpenAIService } from './services/openai.service';
 import { ConversationService } from './services/conversation.service';
 import { AiTaskProcessor } from './processors/ai-task.processor';
+import { PermissionsModule } from '../permissions/permissions.module';
+import { PreferencesModule } from '../preferences/preferences.module';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
   imports: [
     BullModule.registerQueue({
       name: 'ai-tasks',
     }),
+    PermissionsModule,
+    PreferencesModule,
+    AuthModule,
   ],
   controllers: [AiController],
   providers: [AiGateway, OpenAIService, ConversationService, AiTaskProcessor],
@@ -18,7 +18,11 @@ export class ChatRequestDto {
   @IsString()
   conversationId?: string;
 
-  @ApiProperty({ required: false, example: 'gpt-4', default: 'gpt-4' })
+  @ApiProperty({
+    required: false,
+    example: 'gpt-4',
+    description: "Defaults to the user's preferred model",
+  })
   @IsOptional()
   @IsString()
   model?: string;
@@ -30,7 +34,11 @@ export class ChatRequestDto {
   @Max(8000)
   maxTokens?: number;
 
-  @ApiProperty({ required: false, example: 0.7, default: 0.7 })
+  @ApiProperty({
+    required: false,
+    example: 0.7,
+    description: "Defaults to the user's preferred temperature",
+  })
   @IsOptional()
   @IsNumber()
   @Min(0)
@@ -18,6 +18,13 @@ export class ConversationResponseDto {
   @ApiProperty()
   userId: string;
 
+  @ApiProperty({
+    required: false,
+    nullable: true,
+    description: 'Organization the conversation is shared with',
+  })
+  organizationId?: string | null;
+
   @ApiProperty()
   messageCount: number;
 
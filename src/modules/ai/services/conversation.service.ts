@@ -1,6 +1,11 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+} from '@nestjs/common';
 import { PrismaService } from '../../../database/prisma.service';
-import { MessageRole } from '@prisma/client';
+import { MessageRole, OrganizationRole, Prisma } from '@prisma/client';
+import { ActiveOrganization } from '../../../common/decorators/current-user.decorator';
 
 @Injectable()
 export class ConversationService {
@@ -9,10 +14,15 @@ export class ConversationService {
   /**
    * Create a new conversation
    */
-  async createConversation(userId: string, title?: string) {
+  async createConversation(
+    userId: string,
+    title?: string,
+    organization?: ActiveOrganization,
+  ) {
     return this.prisma.conversation.create({
       data: {
         userId,
+        organizationId: organization?.id,
         title: title || 'New Conversation',
       },
     });
@@ -21,11 +31,15 @@ export class ConversationService {
   /**
    * Get conversation by ID
    */
-  async getConversation(conversationId: string, userId: string) {
+  async getConversation(
+    conversationId: string,
+    userId: string,
+    organization?: ActiveOrganization,
+  ) {
     const conversation = await this.prisma.conversation.findFirst({
       where: {
         id: conversationId,
-        userId,
+        ...this.scope(userId, organization),
       },
       include: {
         messages: {
@@ -48,12 +62,14 @@ export class ConversationService {
     userId: string,
     page: number = 1,
     limit: number = 20,
+    organization?: ActiveOrganization,
   ) {
     const skip = (page - 1) * limit;
+    const where = this.scope(userId, organization);
 
     const [conversations, total] = await Promise.all([
       this.prisma.conversation.findMany({
-        where: { userId },
+        where,
         skip,
         take: limit,
         orderBy: { updatedAt: 'desc' },
@@ -63,7 +79,7 @@ export class ConversationService {
           },
         },
       }),
-      this.prisma.conversation.count({ where: { userId } }),
+      this.prisma.conversation.count({ where }),
     ]);
 
     return {
@@ -71,6 +87,7 @@ export class ConversationService {
         id: conv.id,
         title: conv.title,
         userId: conv.userId,
+        organizationId: conv.organizationId,
         messageCount: conv._count.messages,
         createdAt: conv.createdAt,
         updatedAt: conv.updatedAt,
@@ -87,11 +104,15 @@ export class ConversationService {
   /**
    * Delete conversation
    */
-  async deleteConversation(conversationId: string, userId: string) {
+  async deleteConversation(
+    conversationId: string,
+    userId: string,
+    organization?: ActiveOrganization,
+  ) {
     const conversation = await this.prisma.conversation.findFirst({
       where: {
         id: conversationId,
-        userId,
+        ...this.scope(userId, organization),
       },
     });
 
@@ -99,6 +120,16 @@ export class ConversationService {
       throw new NotFoundException('Conversation not found');
     }
 
+    // Shared conversations can be deleted by their creator or org admins
+    if (
+      conversation.userId !== userId &&
+      organization?.role === OrganizationRole.MEMBER
+    ) {
+      throw new ForbiddenException(
+        'Only the creator or an organization admin can delete this conversation',
+      );
+    }
+
     await this.prisma.conversation.delete({
       where: { id: conversationId },
     });
@@ -127,12 +158,16 @@ export class ConversationService {
   /**
    * Get conversation messages
    */
-  async getMessages(conversationId: string, userId: string) {
-    // Verify user owns the conversation
+  async getMessages(
+    conversationId: string,
+    userId: string,
+    organization?: ActiveOrganization,
+  ) {
+    // Verify user can access the conversation
     const conversation = await this.prisma.conversation.findFirst({
       where: {
         id: conversationId,
-        userId,
+        ...this.scope(userId, organization),
       },
     });
 
@@ -153,8 +188,13 @@ export class ConversationService {
     conversationId: string,
     userId: string,
     limit: number = 10,
+    organization?: ActiveOrganization,
   ) {
-    const messages = await this.getMessages(conversationId, userId);
+    const messages = await this.getMessages(
+      conversationId,
+      userId,
+      organization,
+    );
 
     // Return last N messages in OpenAI format
     return messages.slice(-limit).map((msg) => ({
@@ -203,4 +243,17 @@ export class ConversationService {
       lastUsed: user?.updatedAt || new Date(),
     };
   }
+
+  /**
+   * Conversations visible in the active organization, or the user's
+   * personal ones when no organization is active
+   */
+  private scope(
+    userId: string,
+    organization?: ActiveOrganization,
+  ): Prisma.ConversationWhereInput {
+    return organization
+      ? { organizationId: organization.id }
+      : { userId, organizationId: null };
+  }
 }
@@ -0,0 +1,97 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { ApiKeysService } from './services/api-keys.service';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { UpdateApiKeyDto } from './dto/update-api-key.dto';
+import {
+  ApiKeyResponseDto,
+  CreatedApiKeyResponseDto,
+} from './dto/api-key-response.dto';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { DisallowImpersonation } from '../../common/decorators/disallow-impersonation.decorator';
+
+@ApiTags('Authentication')
+@Controller('auth/api-keys')
+@ApiBearerAuth()
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @Post()
+  @DisallowImpersonation()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Create API key' })
+  @ApiResponse({
+    status: 201,
+    description: 'API key created - the key is shown only once',
+    type: CreatedApiKeyResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Not allowed while impersonating' })
+  async createApiKey(
+    @CurrentUser('id') userId: string,
+    @Body() createApiKeyDto: CreateApiKeyDto,
+  ): Promise<CreatedApiKeyResponseDto> {
+    return this.apiKeysService.createApiKey(userId, createApiKeyDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List API keys' })
+  @ApiResponse({
+    status: 200,
+    description: 'API keys retrieved',
+    type: [ApiKeyResponseDto],
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async listApiKeys(
+    @CurrentUser('id') userId: string,
+  ): Promise<ApiKeyResponseDto[]> {
+    return this.apiKeysService.listApiKeys(userId);
+  }
+
+  @Patch(':id')
+  @DisallowImpersonation()
+  @ApiOperation({ summary: 'Update API key name or scopes' })
+  @ApiResponse({
+    status: 200,
+    description: 'API key updated',
+    type: ApiKeyResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Not allowed while impersonating' })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  async updateApiKey(
+    @CurrentUser('id') userId: string,
+    @Param('id') apiKeyId: string,
+    @Body() updateApiKeyDto: UpdateApiKeyDto,
+  ): Promise<ApiKeyResponseDto> {
+    return this.apiKeysService.updateApiKey(userId, apiKeyId, updateApiKeyDto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revoke API key' })
+  @ApiResponse({ status: 204, description: 'API key revoked' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  async revokeApiKey(
+    @CurrentUser('id') userId: string,
+    @Param('id') apiKeyId: string,
+  ): Promise<void> {
+    return this.apiKeysService.revokeApiKey(userId, apiKeyId);
+  }
+}
@@ -1,10 +1,16 @@
 import {
   Controller,
+  Get,
   Post,
+  Delete,
   Body,
+  Param,
+  Headers,
+  Query,
   HttpCode,
   HttpStatus,
   UseGuards,
+  BadRequestException,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -18,15 +24,56 @@ import { LoginDto } from './dto/login.dto';
 import { RefreshTokenDto } from './dto/refresh-token.dto';
 import { ForgotPasswordDto } from './dto/forgot-password.dto';
 import { ResetPasswordDto } from './dto/reset-password.dto';
-import { AuthResponseDto } from './dto/auth-response.dto';
+import { ChangePasswordDto } from './dto/change-password.dto';
+import { ChangeEmailDto } from './dto/change-email.dto';
+import { ConfirmEmailChangeDto } from './dto/confirm-email-change.dto';
+import { PasswordPolicyResponseDto } from './dto/password-policy-response.dto';
+import { PasswordPolicyService } from './services/password-policy.service';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import { ResendVerificationDto } from './dto/resend-verification.dto';
+import { UnlockAccountDto } from './dto/unlock-account.dto';
+import { RequestMagicLinkDto } from './dto/request-magic-link.dto';
+import { VerifyMagicLinkDto } from './dto/verify-magic-link.dto';
+import { LoginTwoFactorDto } from './dto/login-two-factor.dto';
+import { TwoFactorCodeDto } from './dto/two-factor-code.dto';
+import {
+  TwoFactorChallengeResponseDto,
+  TwoFactorEnrollmentResponseDto,
+  RecoveryCodesResponseDto,
+} from './dto/two-factor-response.dto';
+import { SessionResponseDto } from './dto/session-response.dto';
+import { ListAuthEventsDto } from './dto/list-auth-events.dto';
+import { AuthEventListResponseDto } from './dto/auth-event-response.dto';
+import { TwoFactorService } from './services/two-factor.service';
+import { SessionsService } from './services/sessions.service';
+import { AuthEventsService } from './services/auth-events.service';
+import { SigningKeyService } from './services/signing-key.service';
+import {
+  AuthResponseDto,
+  EmailVerificationRequiredResponseDto,
+} from './dto/auth-response.dto';
 import { Public } from '../../common/decorators/public.decorator';
-import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import {
+  CurrentUser,
+  UserPayload,
+} from '../../common/decorators/current-user.decorator';
+import { ClientInfo } from '../../common/decorators/client-info.decorator';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
 import { AuthGuard } from '@nestjs/passport';
+import { Throttle } from '@nestjs/throttler';
+import { DisallowImpersonation } from '../../common/decorators/disallow-impersonation.decorator';
 
 @ApiTags('Authentication')
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly sessionsService: SessionsService,
+    private readonly signingKeyService: SigningKeyService,
+    private readonly passwordPolicyService: PasswordPolicyService,
+    private readonly authEventsService: AuthEventsService,
+  ) {}
 
   @Public()
   @Post('register')
@@ -34,12 +81,16 @@ export class AuthController {
   @ApiOperation({ summary: 'Register a new user' })
   @ApiResponse({
     status: 201,
-    description: 'User registered successfully',
+    description:
+      'User registered successfully, or asked to verify the email address first in domain mode',
     type: AuthResponseDto,
   })
   @ApiResponse({ status: 409, description: 'Email already exists' })
-  async register(@Body() registerDto: RegisterDto): Promise<AuthResponseDto> {
-    return this.authService.register(registerDto);
+  async register(
+    @Body() registerDto: RegisterDto,
+    @ClientInfo() clientInfo: ClientInfo,
+  ): Promise<AuthResponseDto | EmailVerificationRequiredResponseDto> {
+    return this.authService.register(registerDto, clientInfo);
   }
 
   @Public()
@@ -48,12 +99,50 @@ export class AuthController {
   @ApiOperation({ summary: 'Login user' })
   @ApiResponse({
     status: 200,
-    description: 'Login successful',
+    description:
+      'Login successful, or a two-factor challenge if 2FA is enabled',
     type: AuthResponseDto,
   })
   @ApiResponse({ status: 401, description: 'Invalid credentials' })
-  async login(@Body() loginDto: LoginDto): Promise<AuthResponseDto> {
-    return this.authService.login(loginDto);
+  @ApiResponse({
+    status: 423,
+    description:
+      'Account locked after too many failed attempts (ACCOUNT_LOCKED)',
+  })
+  @ApiResponse({
+    status: 429,
+    description:
+      'Too many failed attempts from this IP (TOO_MANY_LOGIN_ATTEMPTS)',
+  })
+  async login(
+    @Body() loginDto: LoginDto,
+    @ClientInfo() clientInfo: ClientInfo,
+  ): Promise<AuthResponseDto | TwoFactorChallengeResponseDto> {
+    return this.authService.login(loginDto, clientInfo);
+  }
+
+  @Public()
+  @Post('login/2fa')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Complete login with a two-factor code' })
+  @ApiResponse({
+    status: 200,
+    description: 'Login successful',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid code or expired challenge token',
+  })
+  async loginTwoFactor(
+    @Body() loginTwoFactorDto: LoginTwoFactorDto,
+    @ClientInfo() clientInfo: ClientInfo,
+  ): Promise<AuthResponseDto> {
+    return this.authService.loginWithTwoFactor(
+      loginTwoFactorDto.challengeToken,
+      loginTwoFactorDto.code,
+      clientInfo,
+    );
   }
 
   @Public()
@@ -70,8 +159,13 @@ export class AuthController {
   async refresh(
     @Body() refreshTokenDto: RefreshTokenDto,
     @CurrentUser() user: { id: string; refreshToken: string },
+    @ClientInfo() clientInfo: ClientInfo,
   ): Promise<AuthResponseDto> {
-    return this.authService.refreshTokens(user.id, user.refreshToken);
+    return this.authService.refreshTokens(
+      user.id,
+      user.refreshToken,
+      clientInfo,
+    );
   }
 
   @Public()
@@ -82,11 +176,37 @@ export class AuthController {
   @ApiResponse({ status: 401, description: 'Invalid refresh token' })
   async logout(
     @Body() refreshTokenDto: RefreshTokenDto,
+    @ClientInfo() clientInfo: ClientInfo,
+    @Headers('authorization') authorization?: string,
   ): Promise<{ message: string }> {
-    await this.authService.logout(refreshTokenDto.refreshToken);
+    const accessToken = authorization?.startsWith('Bearer ')
+      ? authorization.slice(7)
+      : undefined;
+
+    await this.authService.logout(
+      refreshTokenDto.refreshToken,
+      accessToken,
+      clientInfo,
+    );
     return { message: 'Logout successful' };
   }
 
+  @Post('logout-all')
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Logout from all devices' })
+  @ApiResponse({
+    status: 200,
+    description: 'All sessions and access tokens revoked',
+  })
+  async logoutAll(
+    @CurrentUser('id') userId: string,
+    @ClientInfo() clientInfo: ClientInfo,
+  ): Promise<{ message: string }> {
+    await this.authService.logoutAll(userId, clientInfo);
+    return { message: 'Logged out from all devices' };
+  }
+
   @Public()
   @Post('forgot-password')
   @HttpCode(HttpStatus.OK)
@@ -94,8 +214,9 @@ export class AuthController {
   @ApiResponse({ status: 200, description: 'Reset email sent if user exists' })
   async forgotPassword(
     @Body() forgotPasswordDto: ForgotPasswordDto,
+    @ClientInfo() clientInfo: ClientInfo,
   ): Promise<{ message: string }> {
-    return this.authService.forgotPassword(forgotPasswordDto.email);
+    return this.authService.forgotPassword(forgotPasswordDto.email, clientInfo);
   }
 
   @Public()
@@ -106,10 +227,327 @@ export class AuthController {
   @ApiResponse({ status: 400, description: 'Invalid or expired token' })
   async resetPassword(
     @Body() resetPasswordDto: ResetPasswordDto,
+    @ClientInfo() clientInfo: ClientInfo,
   ): Promise<{ message: string }> {
     return this.authService.resetPassword(
       resetPasswordDto.token,
       resetPasswordDto.password,
+      clientInfo,
+    );
+  }
+
+  @Public()
+  @Get('password-policy')
+  @ApiOperation({ summary: 'Get the password rules' })
+  @ApiResponse({
+    status: 200,
+    description: 'Active password policy',
+    type: PasswordPolicyResponseDto,
+  })
+  getPasswordPolicy(): PasswordPolicyResponseDto {
+    return this.passwordPolicyService.getPolicy();
+  }
+
+  @Post('change-password')
+  @DisallowImpersonation()
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Change password' })
+  @ApiResponse({
+    status: 200,
+    description: 'Password changed, other sessions signed out',
+  })
+  @ApiResponse({ status: 400, description: 'Current password is incorrect' })
+  @ApiResponse({ status: 403, description: 'Not allowed while impersonating' })
+  async changePassword(
+    @CurrentUser() user: UserPayload,
+    @Body() changePasswordDto: ChangePasswordDto,
+    @ClientInfo() clientInfo: ClientInfo,
+  ): Promise<{ message: string }> {
+    return this.authService.changePassword(
+      user.id,
+      changePasswordDto.currentPassword,
+      changePasswordDto.newPassword,
+      user.sessionId,
+      clientInfo,
+    );
+  }
+
+  @Post('change-email')
+  @DisallowImpersonation()
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiOperation({ summary: 'Request an email address change' })
+  @ApiResponse({
+    status: 200,
+    description: 'Confirmation link sent to the new address',
+  })
+  @ApiResponse({ status: 400, description: 'Current password is incorrect' })
+  @ApiResponse({ status: 403, description: 'Not allowed while impersonating' })
+  @ApiResponse({ status: 409, description: 'Email already in use' })
+  async changeEmail(
+    @CurrentUser() user: UserPayload,
+    @Body() changeEmailDto: ChangeEmailDto,
+  ): Promise<{ message: string }> {
+    return this.authService.changeEmail(
+      user.id,
+      changeEmailDto.newEmail,
+      changeEmailDto.currentPassword,
+      user.sessionId,
+    );
+  }
+
+  @Public()
+  @Post('change-email/confirm')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Confirm an email address change with token' })
+  @ApiResponse({
+    status: 200,
+    description: 'Email address changed, other sessions signed out',
+  })
+  @ApiResponse({ status: 400, description: 'Invalid or expired token' })
+  @ApiResponse({ status: 409, description: 'Email already in use' })
+  async confirmEmailChange(
+    @Body() confirmEmailChangeDto: ConfirmEmailChangeDto,
+  ): Promise<{ message: string }> {
+    return this.authService.confirmEmailChange(confirmEmailChangeDto.token);
+  }
+
+  @Public()
+  @Post('magic-link')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiOperation({ summary: 'Request a passwordless sign-in link' })
+  @ApiResponse({
+    status: 200,
+    description: 'Sign-in link sent if user exists',
+  })
+  async requestMagicLink(
+    @Body() requestMagicLinkDto: RequestMagicLinkDto,
+  ): Promise<{ message: string }> {
+    return this.authService.requestMagicLink(requestMagicLinkDto.email);
+  }
+
+  @Public()
+  @Post('magic-link/verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Sign in with a magic link token' })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Login successful, or a two-factor challenge if 2FA is enabled',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Invalid or expired link' })
+  async verifyMagicLink(
+    @Body() verifyMagicLinkDto: VerifyMagicLinkDto,
+    @ClientInfo() clientInfo: ClientInfo,
+  ): Promise<AuthResponseDto | TwoFactorChallengeResponseDto> {
+    return this.authService.verifyMagicLink(
+      verifyMagicLinkDto.token,
+      clientInfo,
     );
   }
+
+  @Public()
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Verify email address with token' })
+  @ApiResponse({ status: 200, description: 'Email verified successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid or expired token' })
+  async verifyEmail(
+    @Body() verifyEmailDto: VerifyEmailDto,
+  ): Promise<{ message: string }> {
+    return this.authService.verifyEmail(verifyEmailDto.token);
+  }
+
+  @Public()
+  @Post('resend-verification')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Resend email verification link' })
+  @ApiResponse({
+    status: 200,
+    description: 'Verification email sent if user exists and is unverified',
+  })
+  async resendVerification(
+    @Body() resendVerificationDto: ResendVerificationDto,
+  ): Promise<{ message: string }> {
+    return this.authService.resendVerification(resendVerificationDto.email);
+  }
+
+  @Public()
+  @Post('unlock-account')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Unlock account with token from lockout email' })
+  @ApiResponse({ status: 200, description: 'Account unlocked' })
+  @ApiResponse({ status: 400, description: 'Invalid or expired token' })
+  async unlockAccount(
+    @Body() unlockAccountDto: UnlockAccountDto,
+  ): Promise<{ message: string }> {
+    return this.authService.unlockAccount(unlockAccountDto.token);
+  }
+
+  @Post('2fa/enroll')
+  @DisallowImpersonation()
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Start two-factor enrollment' })
+  @ApiResponse({
+    status: 200,
+    description: 'TOTP secret and QR code generated',
+    type: TwoFactorEnrollmentResponseDto,
+  })
+  @ApiResponse({ status: 400, description: '2FA is already enabled' })
+  async enrollTwoFactor(
+    @CurrentUser('id') userId: string,
+  ): Promise<TwoFactorEnrollmentResponseDto> {
+    return this.twoFactorService.generateEnrollment(userId);
+  }
+
+  @Post('2fa/confirm')
+  @DisallowImpersonation()
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Confirm two-factor enrollment' })
+  @ApiResponse({
+    status: 200,
+    description: '2FA enabled, recovery codes returned',
+    type: RecoveryCodesResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid code' })
+  async confirmTwoFactor(
+    @CurrentUser('id') userId: string,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+    @ClientInfo() clientInfo: ClientInfo,
+  ): Promise<RecoveryCodesResponseDto> {
+    return this.twoFactorService.confirmEnrollment(
+      userId,
+      twoFactorCodeDto.code,
+      clientInfo,
+    );
+  }
+
+  @Post('2fa/disable')
+  @DisallowImpersonation()
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Disable two-factor authentication' })
+  @ApiResponse({ status: 200, description: '2FA disabled' })
+  @ApiResponse({ status: 400, description: 'Invalid code' })
+  async disableTwoFactor(
+    @CurrentUser('id') userId: string,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+    @ClientInfo() clientInfo: ClientInfo,
+  ): Promise<{ message: string }> {
+    await this.twoFactorService.disable(
+      userId,
+      twoFactorCodeDto.code,
+      clientInfo,
+    );
+    return { message: 'Two-factor authentication disabled' };
+  }
+
+  @Post('2fa/recovery-codes')
+  @DisallowImpersonation()
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Regenerate two-factor recovery codes' })
+  @ApiResponse({
+    status: 200,
+    description: 'New recovery codes generated',
+    type: RecoveryCodesResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid code' })
+  async regenerateRecoveryCodes(
+    @CurrentUser('id') userId: string,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+    @ClientInfo() clientInfo: ClientInfo,
+  ): Promise<RecoveryCodesResponseDto> {
+    return this.twoFactorService.regenerateRecoveryCodes(
+      userId,
+      twoFactorCodeDto.code,
+      clientInfo,
+    );
+  }
+
+  @Get('sessions')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List active sessions' })
+  @ApiResponse({
+    status: 200,
+    description: 'Active sessions retrieved',
+    type: [SessionResponseDto],
+  })
+  async listSessions(
+    @CurrentUser() user: UserPayload,
+  ): Promise<SessionResponseDto[]> {
+    return this.sessionsService.listSessions(user.id, user.sessionId);
+  }
+
+  @Delete('sessions/:id')
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Sign out a session' })
+  @ApiResponse({ status: 204, description: 'Session revoked' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async revokeSession(
+    @CurrentUser('id') userId: string,
+    @Param('id') sessionId: string,
+  ): Promise<void> {
+    return this.sessionsService.revokeSession(userId, sessionId);
+  }
+
+  @Post('sessions/revoke-others')
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Sign out all other sessions' })
+  @ApiResponse({ status: 200, description: 'Other sessions revoked' })
+  async revokeOtherSessions(
+    @CurrentUser() user: UserPayload,
+  ): Promise<{ revoked: number }> {
+    if (!user.sessionId) {
+      throw new BadRequestException(
+        'Current session unknown, please log in again',
+      );
+    }
+
+    return this.sessionsService.revokeOtherSessions(user.id, user.sessionId);
+  }
+
+  @Get('events')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List my authentication events' })
+  @ApiResponse({
+    status: 200,
+    description: 'Authentication events retrieved, newest first',
+    type: AuthEventListResponseDto,
+  })
+  async listEvents(
+    @CurrentUser('id') userId: string,
+    @Query() listAuthEventsDto: ListAuthEventsDto,
+  ): Promise<AuthEventListResponseDto> {
+    return this.authEventsService.listEvents(
+      userId,
+      listAuthEventsDto.page,
+      listAuthEventsDto.limit,
+      listAuthEventsDto.type,
+    );
+  }
+
+  @Post('signing-keys/rotate')
+  @RequirePermissions('signing-keys:rotate')
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Rotate the access token signing key (Admin)' })
+  @ApiResponse({ status: 200, description: 'New signing key created' })
+  @ApiResponse({
+    status: 400,
+    description: 'Signing uses a shared secret (HS256)',
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin only' })
+  @ApiResponse({ status: 409, description: 'A rotation is already running' })
+  async rotateSigningKey(): Promise<{ kid: string }> {
+    return this.signingKeyService.rotateKeys();
+  }
 }
@@ -2,15 +2,45 @@ import { Module } from '@nestjs/common';
 import { JwtModule, JwtModuleOptions } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { ConfigModule, ConfigService } from '@nestjs/config';
+import { BullModule } from '@nestjs/bull';
 import { AuthController } from './auth.controller';
+import { ApiKeysController } from './api-keys.controller';
+import { OAuthController } from './oauth.controller';
+import { JwksController } from './jwks.controller';
+import { WebAuthnController } from './webauthn.controller';
+import { InvitationsController } from './invitations.controller';
 import { AuthService } from './auth.service';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { JwtRefreshStrategy } from './strategies/jwt-refresh.strategy';
 import { LocalStrategy } from './strategies/local.strategy';
+import { ApiKeyStrategy } from './strategies/api-key.strategy';
+import { TwoFactorService } from './services/two-factor.service';
+import { SessionsService } from './services/sessions.service';
+import { TokenRevocationService } from './services/token-revocation.service';
+import { LoginAttemptService } from './services/login-attempt.service';
+import { ApiKeysService } from './services/api-keys.service';
+import { OAuthService } from './services/oauth.service';
+import { SigningKeyService } from './services/signing-key.service';
+import { WebAuthnService } from './services/webauthn.service';
+import { ImpersonationService } from './services/impersonation.service';
+import { PasswordPolicyService } from './services/password-policy.service';
+import { PasswordHasherService } from './services/password-hasher.service';
+import { InvitationsService } from './services/invitations.service';
+import { AuthEventsService } from './services/auth-events.service';
+import { SuspensionService } from './services/suspension.service';
+import { EmailModule } from '../email/email.module';
+import { PermissionsModule } from '../permissions/permissions.module';
+import { PreferencesModule } from '../preferences/preferences.module';
 
 @Module({
   imports: [
     PassportModule,
+    EmailModule,
+    PermissionsModule,
+    PreferencesModule,
+    BullModule.registerQueue({
+      name: 'user-data',
+    }),
     JwtModule.registerAsync({
       imports: [ConfigModule],
       useFactory: (configService: ConfigService): JwtModuleOptions =>
@@ -23,8 +53,46 @@ import { LocalStrategy } from './strategies/local.strategy';
       inject: [ConfigService],
     }),
   ],
-  controllers: [AuthController],
-  providers: [AuthService, JwtStrategy, JwtRefreshStrategy, LocalStrategy],
-  exports: [AuthService],
+  controllers: [
+    AuthController,
+    ApiKeysController,
+    OAuthController,
+    JwksController,
+    WebAuthnController,
+    InvitationsController,
+  ],
+  providers: [
+    AuthService,
+    TwoFactorService,
+    SessionsService,
+    TokenRevocationService,
+    LoginAttemptService,
+    ApiKeysService,
+    OAuthService,
+    SigningKeyService,
+    WebAuthnService,
+    ImpersonationService,
+    PasswordPolicyService,
+    PasswordHasherService,
+    InvitationsService,
+    AuthEventsService,
+    SuspensionService,
+    JwtStrategy,
+    JwtRefreshStrategy,
+    LocalStrategy,
+    ApiKeyStrategy,
+  ],
+  exports: [
+    AuthService,
+    SessionsService,
+    TokenRevocationService,
+    LoginAttemptService,
+    ImpersonationService,
+    AuthEventsService,
+    PasswordHasherService,
+    SuspensionService,
+    SigningKeyService,
+    JwtStrategy,
+  ],
 })
 export class AuthModule {}
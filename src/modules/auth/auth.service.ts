@@ -3,17 +3,44 @@ import {
   UnauthorizedException,
   ConflictException,
   BadRequestException,
+  ForbiddenException,
+  HttpException,
   Logger,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
 import { PrismaService } from '../../database/prisma.service';
 import { RedisService } from '../../database/redis.service';
-import * as bcrypt from 'bcrypt';
+import { EmailService } from '../email/email.service';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
-import { AuthResponseDto } from './dto/auth-response.dto';
-import { generateToken } from '../../utils/helpers';
+import {
+  AuthResponseDto,
+  EmailVerificationRequiredResponseDto,
+} from './dto/auth-response.dto';
+import {
+  TwoFactorChallengeResponseDto,
+  SecondFactorMethod,
+} from './dto/two-factor-response.dto';
+import { TwoFactorService } from './services/two-factor.service';
+import { TokenRevocationService } from './services/token-revocation.service';
+import { LoginAttemptService } from './services/login-attempt.service';
+import { OAuthService } from './services/oauth.service';
+import { SigningKeyService } from './services/signing-key.service';
+import { WebAuthnService } from './services/webauthn.service';
+import { SessionsService } from './services/sessions.service';
+import { PasswordPolicyService } from './services/password-policy.service';
+import { PasswordHasherService } from './services/password-hasher.service';
+import { InvitationsService } from './services/invitations.service';
+import { AuthEventsService } from './services/auth-events.service';
+import { SuspensionService } from './services/suspension.service';
+import { AccountLockedException } from '../../common/exceptions/account-locked.exception';
+import { AccountSuspendedException } from '../../common/exceptions/account-suspended.exception';
+import { ClientInfo } from '../../common/decorators/client-info.decorator';
+import { AuthEventType, Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import type { AuthenticationResponseJSON } from '@simplewebauthn/server';
+import { generateToken, hashToken } from '../../utils/helpers';
 
 @Injectable()
 export class AuthService {
@@ -24,13 +51,30 @@ export class AuthService {
     private jwtService: JwtService,
     private configService: ConfigService,
     private redisService: RedisService,
+    private emailService: EmailService,
+    private twoFactorService: TwoFactorService,
+    private tokenRevocationService: TokenRevocationService,
+    private loginAttemptService: LoginAttemptService,
+    private oauthService: OAuthService,
+    private signingKeyService: SigningKeyService,
+    private webAuthnService: WebAuthnService,
+    private sessionsService: SessionsService,
+    private passwordPolicyService: PasswordPolicyService,
+    private invitationsService: InvitationsService,
+    private authEventsService: AuthEventsService,
+    private passwordHasherService: PasswordHasherService,
+    private suspensionService: SuspensionService,
   ) {}
 
   /**
    * Register a new user
    */
-  async register(registerDto: RegisterDto): Promise<AuthResponseDto> {
-    const { email, password, firstName, lastName } = registerDto;
+  async register(
+    registerDto: RegisterDto,
+    clientInfo?: ClientInfo,
+  ): Promise<AuthResponseDto | EmailVerificationRequiredResponseDto> {
+    const { email, password, firstName, lastName, invitationToken } =
+      registerDto;
 
     // Check if user already exists
     const existingUser = await this.prisma.user.findUnique({
@@ -41,31 +85,82 @@ export class AuthService {
       throw new ConflictException('User with this email already exists');
     }
 
+    await this.passwordPolicyService.assertValid(password, {
+      email,
+      firstName,
+      lastName,
+    });
+
+    const invitation = await this.invitationsService.admitRegistration(email, {
+      token: invitationToken,
+    });
+
     // Hash password
-    const hashedPassword = await bcrypt.hash(password, 10);
+    const hashedPassword = await this.passwordHasherService.hash(password);
 
-    // Create user
-    const user = await this.prisma.user.create({
-      data: {
-        email,
-        password: hashedPassword,
-        firstName,
-        lastName,
-      },
-      select: {
-        id: true,
-        email: true,
-        firstName: true,
-        lastName: true,
-        role: true,
-      },
+    // Create user, using up the invitation only if that succeeds
+    const user = await this.prisma.$transaction(async (tx) => {
+      if (invitation) {
+        await this.invitationsService.claimInvitation(invitation.id, tx);
+      }
+
+      return tx.user.create({
+        data: {
+          email,
+          password: hashedPassword,
+          firstName,
+          lastName,
+          // The invitation link was delivered to this address
+          ...(invitation && {
+            role: invitation.role,
+            emailVerified: true,
+            invitation: { connect: { id: invitation.id } },
+          }),
+        },
+        select: {
+          id: true,
+          email: true,
+          firstName: true,
+          lastName: true,
+          role: true,
+        },
+      });
     });
 
+    // Only the verification link admits domain sign-ups
+    if (!invitation && this.invitationsService.requiresVerifiedEmail()) {
+      await this.sendVerificationEmail(user.id, user.email);
+
+      return {
+        requiresEmailVerification: true,
+        message: 'Verify your email address with the link we sent, then log in',
+      };
+    }
+
     // Generate tokens
-    const tokens = await this.generateTokens(user.id, user.email);
+    const sessionId = randomUUID();
+    const tokens = await this.generateTokens(user.id, user.email, sessionId);
 
     // Save refresh token
-    await this.saveRefreshToken(user.id, tokens.refreshToken);
+    await this.saveRefreshToken(
+      user.id,
+      tokens.refreshToken,
+      sessionId,
+      clientInfo,
+    );
+
+    // The signup device counts as known for new sign-in alerts
+    await this.authEventsService.record(
+      AuthEventType.LOGIN_SUCCESS,
+      { userId: user.id },
+      clientInfo,
+      { method: 'registration' },
+    );
+
+    // Send email verification link
+    if (!invitation) {
+      await this.sendVerificationEmail(user.id, user.email);
+    }
 
     return {
       ...tokens,
@@ -82,73 +177,172 @@ export class AuthService {
   /**
    * Login user
    */
-  async login(loginDto: LoginDto): Promise<AuthResponseDto> {
+  async login(
+    loginDto: LoginDto,
+    clientInfo?: ClientInfo,
+  ): Promise<AuthResponseDto | TwoFactorChallengeResponseDto> {
     const { email, password } = loginDto;
 
     try {
       this.logger.log(`Login attempt for email: ${email}`);
 
+      await this.loginAttemptService.assertNotLocked(
+        email,
+        clientInfo?.ipAddress,
+      );
+
       const user = await this.validateUser(email, password);
 
       if (!user) {
-        this.logger.warn(`Login failed for email: ${email} - Invalid credentials`);
+        this.logger.warn(
+          `Login failed for email: ${email} - Invalid credentials`,
+        );
+
+        await this.handleLoginFailure(email, 'invalid_credentials', clientInfo);
+
         throw new UnauthorizedException('Invalid credentials');
       }
 
-      this.logger.log(`Login successful for user: ${user.id}`);
-
-      // Update last login
-      await this.prisma.user.update({
-        where: { id: user.id },
-        data: { lastLoginAt: new Date() },
-      });
+      // Tokens are only issued after the second factor is verified, and
+      // failures are only cleared then so codes can't be guessed by
+      // starting new challenges
+      const challenge = await this.createSecondFactorChallenge(user);
+      if (challenge) {
+        return challenge;
+      }
 
-      // Generate tokens
-      const tokens = await this.generateTokens(user.id, user.email);
+      await this.loginAttemptService.clearFailures(
+        email,
+        clientInfo?.ipAddress,
+      );
 
-      // Save refresh token
-      await this.saveRefreshToken(user.id, tokens.refreshToken);
+      this.logger.log(`Login successful for user: ${user.id}`);
 
-      return {
-        ...tokens,
-        user: {
-          id: user.id,
-          email: user.email,
-          firstName: user.firstName ?? undefined,
-          lastName: user.lastName ?? undefined,
-          role: user.role as string,
-        },
-      };
+      return await this.completeLogin(user, 'password', clientInfo);
     } catch (error) {
-      if (error instanceof UnauthorizedException) {
+      if (error instanceof HttpException) {
         throw error;
       }
-      
-      this.logger.error(`Login error for email: ${email}`, error.stack);
+
+      this.logger.error(
+        `Login error for email: ${email}`,
+        error instanceof Error ? error.stack : undefined,
+      );
       throw new UnauthorizedException('Authentication failed');
     }
   }
 
+  /**
+   * Complete login with the second factor
+   */
+  async loginWithTwoFactor(
+    challengeToken: string,
+    code: string,
+    clientInfo?: ClientInfo,
+  ): Promise<AuthResponseDto> {
+    const user = await this.completeSecondFactor(
+      challengeToken,
+      (userId) => this.twoFactorService.verifyCode(userId, code),
+      clientInfo,
+    );
+
+    this.logger.log(`Two-factor login successful for user: ${user.id}`);
+
+    return this.completeLogin(user, 'totp', clientInfo);
+  }
+
+  /**
+   * Login (or sign up) with an OAuth2/OIDC provider callback
+   */
+  async loginWithOAuth(
+    provider: string,
+    code: string,
+    state: string,
+    clientInfo?: ClientInfo,
+  ): Promise<AuthResponseDto | TwoFactorChallengeResponseDto> {
+    const user = await this.oauthService.resolveUser(provider, code, state);
+
+    if (!user.isActive) {
+      throw new UnauthorizedException('User account is inactive');
+    }
+
+    // The second factor still applies to social login
+    const challenge = await this.createSecondFactorChallenge(user);
+    if (challenge) {
+      return challenge;
+    }
+
+    this.logger.log(`${provider} login successful for user: ${user.id}`);
+
+    return this.completeLogin(user, `oauth:${provider}`, clientInfo);
+  }
+
+  /**
+   * Complete login with a passkey as the second factor
+   */
+  async loginWithWebAuthnSecondFactor(
+    challengeToken: string,
+    response: AuthenticationResponseJSON,
+    clientInfo?: ClientInfo,
+  ): Promise<AuthResponseDto> {
+    const user = await this.completeSecondFactor(
+      challengeToken,
+      (userId) =>
+        this.webAuthnService
+          .verifyAuthentication(response, 'second-factor', userId)
+          .then(() => true)
+          .catch(() => false),
+      clientInfo,
+    );
+
+    this.logger.log(`Passkey second factor accepted for user: ${user.id}`);
+
+    return this.completeLogin(user, 'passkey', clientInfo);
+  }
+
+  /**
+   * Passwordless login with a passkey
+   */
+  async loginWithWebAuthn(
+    response: AuthenticationResponseJSON,
+    clientInfo?: ClientInfo,
+  ): Promise<AuthResponseDto> {
+    // A user-verified passkey covers both factors
+    const userId = await this.webAuthnService.verifyAuthentication(
+      response,
+      'passwordless',
+    );
+
+    return this.loginWithPasskey(userId, clientInfo);
+  }
+
   /**
    * Refresh access token
    */
   async refreshTokens(
     userId: string,
     refreshToken: string,
+    clientInfo?: ClientInfo,
   ): Promise<AuthResponseDto> {
     // Verify refresh token exists and is valid
     const tokenRecord = await this.prisma.refreshToken.findUnique({
-      where: { token: refreshToken },
+      where: { token: hashToken(refreshToken) },
     });
 
     if (!tokenRecord || tokenRecord.userId !== userId) {
       throw new UnauthorizedException('Invalid refresh token');
     }
 
+    // A token that was already rotated is being replayed - assume it leaked
+    if (tokenRecord.revokedAt) {
+      await this.revokeTokenFamily(tokenRecord.familyId, userId, clientInfo);
+      throw new UnauthorizedException('Refresh token has been revoked');
+    }
+
     if (tokenRecord.expiresAt < new Date()) {
       // Delete expired token
       await this.prisma.refreshToken.delete({
-        where: { token: refreshToken },
+        where: { id: tokenRecord.id },
       });
       throw new UnauthorizedException('Refresh token expired');
     }
@@ -169,16 +363,48 @@ export class AuthService {
       throw new UnauthorizedException('User not found');
     }
 
+    // Mark old refresh token as rotated. Losing this race means a concurrent
+    // request already rotated it, which is treated as reuse.
+    const { count } = await this.prisma.refreshToken.updateMany({
+      where: { id: tokenRecord.id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (count === 0) {
+      await this.revokeTokenFamily(tokenRecord.familyId, userId, clientInfo);
+      throw new UnauthorizedException('Refresh token has been revoked');
+    }
+
+    // Keep the session's organization while the user is still a member
+    const organizationId =
+      tokenRecord.organizationId &&
+      (await this.isMember(tokenRecord.organizationId, user.id))
+        ? tokenRecord.organizationId
+        : undefined;
+
     // Generate new tokens
-    const tokens = await this.generateTokens(user.id, user.email);
+    const tokens = await this.generateTokens(
+      user.id,
+      user.email,
+      tokenRecord.familyId,
+      organizationId,
+    );
 
-    // Delete old refresh token
-    await this.prisma.refreshToken.delete({
-      where: { token: refreshToken },
-    });
+    // Save new refresh token in the same family
+    await this.saveRefreshToken(
+      user.id,
+      tokens.refreshToken,
+      tokenRecord.familyId,
+      clientInfo,
+      organizationId,
+    );
 
-    // Save new refresh token
-    await this.saveRefreshToken(user.id, tokens.refreshToken);
+    await this.authEventsService.record(
+      AuthEventType.TOKEN_REFRESH,
+      { userId: user.id },
+      clientInfo,
+      { sessionId: tokenRecord.familyId },
+    );
 
     return {
       ...tokens,
@@ -193,36 +419,94 @@ export class AuthService {
   }
 
   /**
-   * Logout user - validates refresh token and removes it from database
+   * Logout user - validates refresh token and removes its token family.
+   * The access token, when provided, is denylisted as well.
    */
-  async logout(refreshToken: string): Promise<void> {
+  async logout(
+    refreshToken: string,
+    accessToken?: string,
+    clientInfo?: ClientInfo,
+  ): Promise<void> {
     // Verify refresh token exists and get user ID
     const tokenRecord = await this.prisma.refreshToken.findUnique({
-      where: { token: refreshToken },
+      where: { token: hashToken(refreshToken) },
     });
 
     if (!tokenRecord) {
       throw new UnauthorizedException('Invalid refresh token');
     }
 
+    if (tokenRecord.revokedAt) {
+      await this.revokeTokenFamily(
+        tokenRecord.familyId,
+        tokenRecord.userId,
+        clientInfo,
+      );
+      throw new UnauthorizedException('Refresh token has been revoked');
+    }
+
     if (tokenRecord.expiresAt < new Date()) {
       // Delete expired token and throw error
       await this.prisma.refreshToken.delete({
-        where: { token: refreshToken },
+        where: { id: tokenRecord.id },
       });
       throw new UnauthorizedException('Refresh token expired');
     }
 
-    // Delete the refresh token
-    await this.prisma.refreshToken.delete({
-      where: { token: refreshToken },
+    // Delete every token issued for this login
+    await this.prisma.refreshToken.deleteMany({
+      where: { familyId: tokenRecord.familyId },
+    });
+
+    // Cut off access tokens issued for this session
+    await this.tokenRevocationService.revokeSession(tokenRecord.familyId);
+
+    if (accessToken) {
+      const payload = await this.signingKeyService
+        .verifyAccessToken(accessToken)
+        .catch(() => null);
+
+      if (payload?.jti && payload.exp && payload.sub === tokenRecord.userId) {
+        await this.tokenRevocationService.revokeAccessToken(
+          payload.jti,
+          payload.exp,
+        );
+      }
+    }
+
+    await this.authEventsService.record(
+      AuthEventType.LOGOUT,
+      { userId: tokenRecord.userId },
+      clientInfo,
+      { sessionId: tokenRecord.familyId },
+    );
+  }
+
+  /**
+   * Logout user from every device
+   */
+  async logoutAll(userId: string, clientInfo?: ClientInfo): Promise<void> {
+    await this.prisma.refreshToken.deleteMany({
+      where: { userId },
     });
+
+    await this.tokenRevocationService.revokeAllUserTokens(userId);
+
+    await this.authEventsService.record(
+      AuthEventType.LOGOUT,
+      { userId },
+      clientInfo,
+      { allSessions: true },
+    );
   }
 
   /**
    * Forgot password - generate reset token
    */
-  async forgotPassword(email: string): Promise<{ message: string }> {
+  async forgotPassword(
+    email: string,
+    clientInfo?: ClientInfo,
+  ): Promise<{ message: string }> {
     const user = await this.prisma.user.findUnique({
       where: { email },
     });
@@ -242,18 +526,51 @@ export class AuthService {
       3600, // 1 hour TTL
     );
 
+    await this.authEventsService.record(
+      AuthEventType.PASSWORD_RESET_REQUESTED,
+      { userId: user.id },
+      clientInfo,
+    );
+
     // TODO: Send email with reset token
     // await this.emailService.sendPasswordReset(user.email, resetToken);
 
     return { message: 'If the email exists, a reset link has been sent' };
   }
 
+  /**
+   * Email a user created by an admin a link to choose their password.
+   * The link goes through the password reset flow but lasts as long as an
+   * invitation.
+   */
+  async sendAccountSetupEmail(
+    userId: string,
+    email: string,
+    invitedBy: string,
+  ): Promise<void> {
+    const setupToken = generateToken(32);
+    const ttl = this.configService.get<number>(
+      'auth.registration.invitationTtl',
+      604800,
+    );
+
+    await this.redisService.set(`password-reset:${setupToken}`, userId, ttl);
+
+    await this.emailService.sendAccountSetupEmail(
+      email,
+      setupToken,
+      invitedBy,
+      new Date(Date.now() + ttl * 1000),
+    );
+  }
+
   /**
    * Reset password
    */
   async resetPassword(
     token: string,
     newPassword: string,
+    clientInfo?: ClientInfo,
   ): Promise<{ message: string }> {
     // Get user ID from Redis
     const userId = await this.redisService.get(`password-reset:${token}`);
@@ -262,101 +579,944 @@ export class AuthService {
       throw new BadRequestException('Invalid or expired reset token');
     }
 
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        email: true,
+        firstName: true,
+        lastName: true,
+        password: true,
+        passwordHistory: true,
+      },
+    });
+
+    if (!user) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+
+    // The token stays valid so the user can retry with another password
+    await this.passwordPolicyService.assertValid(newPassword, user);
+
     // Hash new password
-    const hashedPassword = await bcrypt.hash(newPassword, 10);
+    const hashedPassword = await this.passwordHasherService.hash(newPassword);
 
     // Update user password
     await this.prisma.user.update({
       where: { id: userId },
-      data: { password: hashedPassword },
+      data: {
+        password: hashedPassword,
+        passwordHistory: this.passwordPolicyService.nextHistory(user),
+      },
     });
 
     // Delete reset token from Redis
     await this.redisService.del(`password-reset:${token}`);
 
-    // Invalidate all refresh tokens for this user
+    // Invalidate all refresh and access tokens for this user
     await this.prisma.refreshToken.deleteMany({
       where: { userId },
     });
+    await this.tokenRevocationService.revokeAllUserTokens(userId);
+
+    await this.authEventsService.record(
+      AuthEventType.PASSWORD_RESET,
+      { userId },
+      clientInfo,
+    );
 
     return { message: 'Password has been reset successfully' };
   }
 
   /**
-   * Validate user credentials
+   * Change password for a signed-in user and sign out their other sessions
    */
-  async validateUser(email: string, password: string) {
-    try {
-      const user = await this.prisma.user.findUnique({
-        where: { email },
-      });
+  async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+    sessionId?: string,
+    clientInfo?: ClientInfo,
+  ): Promise<{ message: string }> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        email: true,
+        firstName: true,
+        lastName: true,
+        password: true,
+        passwordHistory: true,
+      },
+    });
 
-      if (!user) {
-        this.logger.debug(`User not found with email: ${email}`);
-        return null;
-      }
+    if (!user) {
+      throw new UnauthorizedException('User not found');
+    }
 
-      const isPasswordValid = await bcrypt.compare(password, user.password);
+    if (!user.password) {
+      throw new BadRequestException(
+        'Account has no password, use forgot-password to set one',
+      );
+    }
 
-      if (!isPasswordValid) {
-        this.logger.debug(`Invalid password for email: ${email}`);
-        return null;
-      }
+    if (
+      !(await this.passwordHasherService.verify(currentPassword, user.password))
+    ) {
+      throw new BadRequestException('Current password is incorrect');
+    }
 
-      if (!user.isActive) {
-        this.logger.warn(`Inactive user attempted login: ${email}`);
-        throw new UnauthorizedException('User account is inactive');
-      }
+    await this.passwordPolicyService.assertValid(newPassword, user);
 
-      this.logger.debug(`User validation successful for: ${email}`);
-      const { password: _, ...result } = user;
-      return result;
-    } catch (error) {
-      if (error instanceof UnauthorizedException) {
-        throw error;
-      }
-      
-      this.logger.error(`Error validating user ${email}:`, error.stack);
-      return null;
-    }
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        password: await this.passwordHasherService.hash(newPassword),
+        passwordHistory: this.passwordPolicyService.nextHistory(user),
+      },
+    });
+
+    await this.signOutOtherSessions(userId, sessionId);
+
+    await this.authEventsService.record(
+      AuthEventType.PASSWORD_CHANGED,
+      { userId },
+      clientInfo,
+    );
+
+    return { message: 'Password has been changed successfully' };
   }
 
   /**
-   * Generate JWT tokens
+   * Verify email address with token
    */
-  private async generateTokens(userId: string, email: string) {
-    const payload = { sub: userId, email };
+  async verifyEmail(token: string): Promise<{ message: string }> {
+    // Get user ID from Redis
+    const userId = await this.redisService.get(`email-verification:${token}`);
 
-    const [accessToken, refreshToken] = await Promise.all([
-      this.jwtService.signAsync(payload, {
-        secret: this.configService.getOrThrow<string>('jwt.secret'),
-        expiresIn: this.configService.getOrThrow('jwt.expiresIn'),
-      }),
-      this.jwtService.signAsync(payload, {
-        secret: this.configService.getOrThrow<string>('jwt.refreshSecret'),
-        expiresIn: this.configService.getOrThrow('jwt.refreshExpiresIn'),
-      }),
+    if (!userId) {
+      throw new BadRequestException('Invalid or expired verification token');
+    }
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { emailVerified: true },
+    });
+
+    // Delete verification token from Redis
+    await Promise.all([
+      this.redisService.del(`email-verification:${token}`),
+      this.redisService.del(`email-verification-user:${userId}`),
     ]);
 
+    return { message: 'Email has been verified successfully' };
+  }
+
+  /**
+   * Resend email verification link
+   */
+  async resendVerification(email: string): Promise<{ message: string }> {
+    const user = await this.prisma.user.findUnique({
+      where: { email },
+    });
+
+    // Don't reveal if user exists or is already verified
+    if (user && user.isActive && !user.emailVerified) {
+      await this.sendVerificationEmail(user.id, user.email);
+    }
+
     return {
-      accessToken,
-      refreshToken,
+      message:
+        'If the email exists and is not yet verified, a verification link has been sent',
     };
   }
 
   /**
-   * Save refresh token to database
+   * Start an email change: confirm link to the new address, notice to the old
    */
-  private async saveRefreshToken(userId: string, token: string) {
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7); // 7 days
+  async changeEmail(
+    userId: string,
+    newEmail: string,
+    currentPassword?: string,
+    sessionId?: string,
+  ): Promise<{ message: string }> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, password: true },
+    });
 
-    await this.prisma.refreshToken.create({
-      data: {
-        token,
-        userId,
-        expiresAt,
-      },
+    if (!user) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    if (
+      user.password &&
+      !(
+        currentPassword &&
+        (await this.passwordHasherService.verify(
+          currentPassword,
+          user.password,
+        ))
+      )
+    ) {
+      throw new BadRequestException('Current password is incorrect');
+    }
+
+    if (newEmail === user.email) {
+      throw new BadRequestException(
+        'New email must differ from the current one',
+      );
+    }
+
+    const existingUser = await this.prisma.user.findUnique({
+      where: { email: newEmail },
+      select: { id: true },
     });
+
+    if (existingUser) {
+      throw new ConflictException('User with this email already exists');
+    }
+
+    // The new address must be one the registration mode would admit
+    await this.invitationsService.admitRegistration(newEmail);
+
+    // Invalidate any previously requested change for this user
+    const previousToken = await this.redisService.get(
+      `email-change-user:${userId}`,
+    );
+    if (previousToken) {
+      await this.redisService.del(`email-change:${previousToken}`);
+    }
+
+    const changeToken = generateToken(32);
+
+    await Promise.all([
+      this.redisService.set(
+        `email-change:${changeToken}`,
+        JSON.stringify({ userId, newEmail, sessionId }),
+        86400, // 24 hours TTL
+      ),
+      this.redisService.set(`email-change-user:${userId}`, changeToken, 86400),
+    ]);
+
+    try {
+      await this.emailService.sendEmailChangeConfirmation(
+        newEmail,
+        changeToken,
+      );
+    } catch {
+      // The user can request the change again
+      this.logger.warn(
+        `Could not send email change confirmation to ${newEmail}`,
+      );
+    }
+
+    try {
+      await this.emailService.sendEmailChangeNotice(user.email, newEmail);
+    } catch {
+      this.logger.warn(`Could not send email change notice to ${user.email}`);
+    }
+
+    return {
+      message: 'A confirmation link has been sent to the new email address',
+    };
+  }
+
+  /**
+   * Apply an email change with the token sent to the new address
+   */
+  async confirmEmailChange(token: string): Promise<{ message: string }> {
+    const pendingChange = await this.redisService.get(`email-change:${token}`);
+
+    if (!pendingChange) {
+      throw new BadRequestException('Invalid or expired confirmation token');
+    }
+
+    const { userId, newEmail, sessionId } = JSON.parse(pendingChange) as {
+      userId: string;
+      newEmail: string;
+      sessionId?: string;
+    };
+
+    await Promise.all([
+      this.redisService.del(`email-change:${token}`),
+      this.redisService.del(`email-change-user:${userId}`),
+    ]);
+
+    // The address may have been registered since the change was requested
+    const existingUser = await this.prisma.user.findUnique({
+      where: { email: newEmail },
+      select: { id: true },
+    });
+
+    if (existingUser) {
+      throw new ConflictException('User with this email already exists');
+    }
+
+    // The registration mode may have changed since the request
+    await this.invitationsService.admitRegistration(newEmail);
+
+    // Following the link proves ownership of the new address
+    try {
+      await this.prisma.user.update({
+        where: { id: userId },
+        data: { email: newEmail, emailVerified: true },
+      });
+    } catch (error) {
+      // Taken between the check and the update
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException('User with this email already exists');
+      }
+      throw error;
+    }
+
+    // Like a password change, only the requesting session stays signed in
+    await this.signOutOtherSessions(userId, sessionId);
+
+    return { message: 'Email address has been changed successfully' };
+  }
+
+  /**
+   * Email a single-use sign-in link
+   */
+  async requestMagicLink(email: string): Promise<{ message: string }> {
+    const user = await this.prisma.user.findUnique({
+      where: { email },
+    });
+
+    // Don't reveal if user exists
+    if (user && user.isActive) {
+      const magicLinkToken = generateToken(32);
+      const ttl = this.configService.get<number>('auth.magicLink.ttl', 900);
+
+      // Store magic link token in Redis
+      await this.redisService.set(`magic-link:${magicLinkToken}`, user.id, ttl);
+
+      try {
+        await this.emailService.sendMagicLinkEmail(
+          user.email,
+          magicLinkToken,
+          Math.round(ttl / 60),
+        );
+      } catch {
+        this.logger.warn(`Could not send magic link email to ${email}`);
+      }
+    }
+
+    return { message: 'If the email exists, a sign-in link has been sent' };
+  }
+
+  /**
+   * Exchange a magic link token for a login
+   */
+  async verifyMagicLink(
+    token: string,
+    clientInfo?: ClientInfo,
+  ): Promise<AuthResponseDto | TwoFactorChallengeResponseDto> {
+    const tokenKey = `magic-link:${token}`;
+    const userId = await this.redisService.get(tokenKey);
+
+    // Only the request that deletes the token may use it
+    if (!userId || (await this.redisService.del(tokenKey)) === 0) {
+      throw new UnauthorizedException('Invalid or expired sign-in link');
+    }
+
+    // Receiving the link proves ownership of the address
+    const user = await this.prisma.user.update({
+      where: { id: userId },
+      data: { emailVerified: true },
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        role: true,
+        isActive: true,
+        twoFactorEnabled: true,
+      },
+    });
+
+    if (!user.isActive) {
+      throw new UnauthorizedException('User account is inactive');
+    }
+
+    // The link replaces the password, not the second factor
+    const challenge = await this.createSecondFactorChallenge(user);
+    if (challenge) {
+      return challenge;
+    }
+
+    this.logger.log(`Magic link login successful for user: ${user.id}`);
+
+    return this.completeLogin(user, 'magic_link', clientInfo);
+  }
+
+  /**
+   * Act in an organization (or, with null, in the user's own space) for the
+   * rest of the session. The caller checks membership; refreshed tokens keep
+   * the organization.
+   */
+  async switchOrganization(
+    userId: string,
+    sessionId: string,
+    organizationId: string | null,
+  ): Promise<{ accessToken: string; organizationId: string | null }> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true },
+    });
+
+    if (!user) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    const { count } = await this.prisma.refreshToken.updateMany({
+      where: { userId, familyId: sessionId, revokedAt: null },
+      data: { organizationId },
+    });
+
+    if (count === 0) {
+      throw new UnauthorizedException('Session not found, please log in again');
+    }
+
+    const accessToken = await this.signingKeyService.signAccessToken(
+      {
+        sub: userId,
+        email: user.email,
+        sid: sessionId,
+        org: organizationId ?? undefined,
+      },
+      randomUUID(),
+    );
+
+    return { accessToken, organizationId };
+  }
+
+  /**
+   * Unlock account with token from lockout email
+   */
+  async unlockAccount(token: string): Promise<{ message: string }> {
+    const email = await this.redisService.get(`account-unlock:${token}`);
+
+    if (!email) {
+      throw new BadRequestException('Invalid or expired unlock token');
+    }
+
+    await this.loginAttemptService.unlock(email);
+    await this.redisService.del(`account-unlock:${token}`);
+
+    return { message: 'Account has been unlocked' };
+  }
+
+  /**
+   * Validate user credentials
+   */
+  async validateUser(email: string, password: string) {
+    try {
+      const user = await this.prisma.user.findUnique({
+        where: { email },
+      });
+
+      if (!user) {
+        this.logger.debug(`User not found with email: ${email}`);
+        return null;
+      }
+
+      // Accounts created through social login have no password
+      if (!user.password) {
+        this.logger.debug(`No password set for email: ${email}`);
+        return null;
+      }
+
+      const isPasswordValid = await this.passwordHasherService.verify(
+        password,
+        user.password,
+      );
+
+      if (!isPasswordValid) {
+        this.logger.debug(`Invalid password for email: ${email}`);
+        return null;
+      }
+
+      if (!user.isActive) {
+        this.logger.warn(`Inactive user attempted login: ${email}`);
+        throw new UnauthorizedException('User account is inactive');
+      }
+
+      await this.suspensionService.assertNotSuspended(user.id);
+
+      // Upgrade hashes from an older algorithm or cost while the plain
+      // password is at hand
+      if (this.passwordHasherService.needsRehash(user.password)) {
+        await this.rehashPassword(user.id, password);
+      }
+
+      this.logger.debug(`User validation successful for: ${email}`);
+      const {
+        password: _password,
+        twoFactorSecret: _twoFactorSecret,
+        twoFactorRecoveryCodes: _twoFactorRecoveryCodes,
+        ...result
+      } = user;
+      return result;
+    } catch (error) {
+      if (
+        error instanceof UnauthorizedException ||
+        error instanceof AccountSuspendedException
+      ) {
+        throw error;
+      }
+
+      this.logger.error(
+        `Error validating user ${email}:`,
+        error instanceof Error ? error.stack : undefined,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Replace a stored hash with one using the current hashing settings.
+   * Failure only postpones the upgrade to the next login.
+   */
+  private async rehashPassword(userId: string, password: string) {
+    try {
+      await this.prisma.user.update({
+        where: { id: userId },
+        data: { password: await this.passwordHasherService.hash(password) },
+      });
+
+      this.logger.log(`Password hash upgraded for user: ${userId}`);
+    } catch (error) {
+      this.logger.warn(
+        `Could not upgrade password hash for user ${userId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  private async isMember(
+    organizationId: string,
+    userId: string,
+  ): Promise<boolean> {
+    const membership = await this.prisma.membership.findUnique({
+      where: { organizationId_userId: { organizationId, userId } },
+      select: { id: true },
+    });
+
+    return !!membership;
+  }
+
+  /**
+   * Record a failed password login. Failures for unknown addresses are kept
+   * under the attempted email only.
+   */
+  private async recordLoginFailure(
+    email: string,
+    reason: string,
+    clientInfo?: ClientInfo,
+  ): Promise<void> {
+    const user = await this.prisma.user.findUnique({
+      where: { email },
+      select: { id: true },
+    });
+
+    await this.authEventsService.record(
+      AuthEventType.LOGIN_FAILURE,
+      { userId: user?.id, email },
+      clientInfo,
+      { reason },
+    );
+  }
+
+  /**
+   * Count a failed password or second-factor attempt, locking the account
+   * and emailing an unlock link once the limit is reached
+   */
+  private async handleLoginFailure(
+    email: string,
+    reason: string,
+    clientInfo?: ClientInfo,
+  ): Promise<void> {
+    const locked = await this.loginAttemptService.recordFailure(
+      email,
+      clientInfo?.ipAddress,
+    );
+
+    await this.recordLoginFailure(
+      email,
+      locked ? 'account_locked' : reason,
+      clientInfo,
+    );
+
+    if (locked) {
+      const lockedUntil =
+        (await this.loginAttemptService.getLockedUntil(
+          email,
+          clientInfo?.ipAddress,
+        )) ?? new Date();
+
+      if (await this.loginAttemptService.claimUnlockEmail(email)) {
+        await this.sendUnlockEmail(email, lockedUntil);
+      }
+      throw new AccountLockedException(lockedUntil);
+    }
+  }
+
+  /**
+   * Consume a second-factor challenge once `verify` accepts it. Failures
+   * count towards the same per-account lockout as wrong passwords.
+   */
+  private async completeSecondFactor(
+    challengeToken: string,
+    verify: (userId: string) => Promise<boolean>,
+    clientInfo?: ClientInfo,
+  ) {
+    const userId =
+      await this.twoFactorService.getLoginChallengeUser(challengeToken);
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        role: true,
+        isActive: true,
+      },
+    });
+
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException('User not found or inactive');
+    }
+
+    await this.loginAttemptService.assertNotLocked(
+      user.email,
+      clientInfo?.ipAddress,
+    );
+
+    await this.twoFactorService.completeLoginChallenge(
+      challengeToken,
+      verify,
+      () =>
+        this.handleLoginFailure(
+          user.email,
+          'invalid_second_factor',
+          clientInfo,
+        ),
+    );
+
+    await this.loginAttemptService.clearFailures(
+      user.email,
+      clientInfo?.ipAddress,
+    );
+
+    return user;
+  }
+
+  /**
+   * Issue a second-factor challenge if the user has TOTP or opted in to
+   * passkeys as a second factor
+   */
+  private async createSecondFactorChallenge(user: {
+    id: string;
+  }): Promise<TwoFactorChallengeResponseDto | null> {
+    const factors = await this.prisma.user.findUnique({
+      where: { id: user.id },
+      select: {
+        twoFactorEnabled: true,
+        passkeyTwoFactorEnabled: true,
+        twoFactorRecoveryCodes: true,
+        _count: { select: { credentials: true } },
+      },
+    });
+
+    if (!factors) {
+      return null;
+    }
+
+    const methods: SecondFactorMethod[] = [];
+
+    if (factors.twoFactorEnabled) {
+      methods.push('totp');
+    }
+    if (
+      factors._count.credentials > 0 &&
+      (factors.twoFactorEnabled || factors.passkeyTwoFactorEnabled)
+    ) {
+      methods.push('webauthn');
+    }
+
+    if (methods.length === 0) {
+      return null;
+    }
+
+    if (factors.twoFactorRecoveryCodes.length > 0) {
+      methods.push('recovery_code');
+    }
+
+    this.logger.log(`Two-factor challenge issued for user: ${user.id}`);
+
+    return {
+      requiresTwoFactor: true,
+      challengeToken: await this.twoFactorService.createLoginChallenge(user.id),
+      methods,
+    };
+  }
+
+  /**
+   * Finish a passkey login for the credential's owner
+   */
+  private async loginWithPasskey(userId: string, clientInfo?: ClientInfo) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        role: true,
+        isActive: true,
+      },
+    });
+
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException('User not found or inactive');
+    }
+
+    this.logger.log(`Passkey login successful for user: ${user.id}`);
+
+    return this.completeLogin(user, 'passkey', clientInfo);
+  }
+
+  /**
+   * End every session except the given one, with their access tokens.
+   * Without a session (e.g. API keys) every session is ended.
+   */
+  private async signOutOtherSessions(
+    userId: string,
+    sessionId?: string,
+  ): Promise<void> {
+    if (sessionId) {
+      await this.sessionsService.revokeOtherSessions(userId, sessionId);
+      return;
+    }
+
+    await this.prisma.refreshToken.deleteMany({
+      where: { userId },
+    });
+    await this.tokenRevocationService.revokeAllUserTokens(userId);
+  }
+
+  /**
+   * Issue tokens for an authenticated user and record the login
+   */
+  private async completeLogin(
+    user: {
+      id: string;
+      email: string;
+      firstName: string | null;
+      lastName: string | null;
+      role: string;
+    },
+    method: string,
+    clientInfo?: ClientInfo,
+  ): Promise<AuthResponseDto> {
+    // Covers every login method, not only passwords
+    await this.suspensionService.assertNotSuspended(user.id);
+
+    if (this.invitationsService.requiresVerifiedEmail()) {
+      const { emailVerified } = await this.prisma.user.findUniqueOrThrow({
+        where: { id: user.id },
+        select: { emailVerified: true },
+      });
+
+      if (!emailVerified) {
+        throw new ForbiddenException(
+          'Verify your email address before logging in',
+        );
+      }
+    }
+
+    // Update last login
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { lastLoginAt: new Date() },
+    });
+
+    // Generate tokens
+    const sessionId = randomUUID();
+    const tokens = await this.generateTokens(user.id, user.email, sessionId);
+
+    // Save refresh token
+    await this.saveRefreshToken(
+      user.id,
+      tokens.refreshToken,
+      sessionId,
+      clientInfo,
+    );
+
+    await this.authEventsService.recordLogin(user, clientInfo, method);
+
+    return {
+      ...tokens,
+      user: {
+        id: user.id,
+        email: user.email,
+        firstName: user.firstName ?? undefined,
+        lastName: user.lastName ?? undefined,
+        role: user.role,
+      },
+    };
+  }
+
+  /**
+   * Generate JWT tokens - sid identifies the session (refresh token family)
+   */
+  private async generateTokens(
+    userId: string,
+    email: string,
+    sessionId: string,
+    organizationId?: string,
+  ) {
+    const payload = { sub: userId, email, sid: sessionId, org: organizationId };
+
+    const [accessToken, refreshToken] = await Promise.all([
+      // jti lets an individual access token be denylisted
+      this.signingKeyService.signAccessToken(payload, randomUUID()),
+      // jti keeps refresh tokens unique even when issued in the same second
+      this.jwtService.signAsync(payload, {
+        jwtid: randomUUID(),
+        secret: this.configService.getOrThrow<string>('jwt.refreshSecret'),
+        expiresIn: this.configService.getOrThrow('jwt.refreshExpiresIn'),
+      }),
+    ]);
+
+    return {
+      accessToken,
+      refreshToken,
+    };
+  }
+
+  /**
+   * Issue a verification token and email it to the user
+   */
+  private async sendVerificationEmail(userId: string, email: string) {
+    // Invalidate any previously issued token for this user
+    const previousToken = await this.redisService.get(
+      `email-verification-user:${userId}`,
+    );
+    if (previousToken) {
+      await this.redisService.del(`email-verification:${previousToken}`);
+    }
+
+    const verificationToken = generateToken(32);
+
+    // Store verification token in Redis
+    await Promise.all([
+      this.redisService.set(
+        `email-verification:${verificationToken}`,
+        userId,
+        86400, // 24 hours TTL
+      ),
+      this.redisService.set(
+        `email-verification-user:${userId}`,
+        verificationToken,
+        86400,
+      ),
+    ]);
+
+    try {
+      await this.emailService.sendEmailVerification(email, verificationToken);
+    } catch {
+      // Registration should not fail because the mail server is unavailable;
+      // the user can request a new link via /auth/resend-verification
+      this.logger.warn(`Could not send verification email to ${email}`);
+    }
+  }
+
+  /**
+   * Email an unlock link to the owner of a locked account
+   */
+  private async sendUnlockEmail(email: string, lockedUntil: Date) {
+    const user = await this.prisma.user.findUnique({
+      where: { email },
+    });
+
+    if (!user) {
+      return;
+    }
+
+    const unlockToken = generateToken(32);
+
+    // Store unlock token in Redis
+    await this.redisService.set(
+      `account-unlock:${unlockToken}`,
+      user.email,
+      3600, // 1 hour TTL
+    );
+
+    try {
+      await this.emailService.sendAccountUnlockEmail(
+        user.email,
+        unlockToken,
+        lockedUntil,
+      );
+    } catch {
+      this.logger.warn(`Could not send account unlock email to ${email}`);
+    }
+  }
+
+  /**
+   * Save refresh token hash to database
+   */
+  private async saveRefreshToken(
+    userId: string,
+    token: string,
+    familyId: string,
+    clientInfo?: ClientInfo,
+    organizationId?: string,
+  ) {
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + 7); // 7 days
+
+    await this.prisma.refreshToken.create({
+      data: {
+        token: hashToken(token),
+        familyId,
+        userId,
+        expiresAt,
+        userAgent: clientInfo?.userAgent?.slice(0, 512),
+        ipAddress: clientInfo?.ipAddress,
+        lastUsedAt: new Date(),
+        organizationId,
+      },
+    });
+  }
+
+  /**
+   * Revoke every refresh token descended from the same login
+   */
+  private async revokeTokenFamily(
+    familyId: string,
+    userId: string,
+    clientInfo?: ClientInfo,
+  ) {
+    const { count } = await this.prisma.refreshToken.deleteMany({
+      where: { familyId },
+    });
+    await this.tokenRevocationService.revokeSession(familyId);
+
+    this.logger.warn(
+      `[SECURITY] Refresh token reuse detected for user ${userId} - revoked ${count} token(s) in family ${familyId}`,
+    );
+
+    await this.authEventsService.record(
+      AuthEventType.REFRESH_TOKEN_REUSE,
+      { userId },
+      clientInfo,
+      { sessionId: familyId, revokedTokens: count },
+    );
   }
 }
@@ -0,0 +1,31 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ApiKeyResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty({
+    description: 'Public part of the key, shown as sk_<prefix>_...',
+  })
+  prefix: string;
+
+  @ApiProperty({ type: [String] })
+  scopes: string[];
+
+  @ApiProperty({ required: false, nullable: true })
+  expiresAt: Date | null;
+
+  @ApiProperty({ required: false, nullable: true })
+  lastUsedAt: Date | null;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class CreatedApiKeyResponseDto extends ApiKeyResponseDto {
+  @ApiProperty({ description: 'Full API key, shown only once' })
+  key: string;
+}
@@ -0,0 +1,40 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { AuthEventType } from '@prisma/client';
+
+export class AuthEventResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ enum: AuthEventType })
+  type: AuthEventType;
+
+  @ApiProperty({ required: false, nullable: true })
+  ipAddress: string | null;
+
+  @ApiProperty({ required: false, nullable: true })
+  userAgent: string | null;
+
+  @ApiProperty({
+    required: false,
+    nullable: true,
+    example: { method: 'password' },
+    description: 'Event details, e.g. the login method or failure reason',
+  })
+  metadata: unknown;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class AuthEventListResponseDto {
+  @ApiProperty({ type: [AuthEventResponseDto] })
+  data: AuthEventResponseDto[];
+
+  @ApiProperty({ example: { total: 42, page: 1, limit: 20, totalPages: 3 } })
+  meta: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  };
+}
@@ -22,3 +22,13 @@ export class AuthResponseDto {
     role: string;
   };
 }
+
+export class EmailVerificationRequiredResponseDto {
+  @ApiProperty({ example: true })
+  requiresEmailVerification: true;
+
+  @ApiProperty({
+    example: 'Verify your email address with the link we sent, then log in',
+  })
+  message: string;
+}
@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsOptional, IsString } from 'class-validator';
+
+export class ChangeEmailDto {
+  @ApiProperty({ example: 'new.address@example.com' })
+  @IsEmail({}, { message: 'Invalid email address' })
+  newEmail: string;
+
+  @ApiProperty({
+    example: 'Password123!',
+    required: false,
+    description: 'Required unless the account has no password (social login)',
+  })
+  @IsOptional()
+  @IsString()
+  currentPassword?: string;
+}
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsNotEmpty } from 'class-validator';
+
+export class ChangePasswordDto {
+  @ApiProperty({ example: 'Password123!' })
+  @IsString()
+  currentPassword: string;
+
+  @ApiProperty({
+    example: 'NewPassword123!',
+    description: 'Must satisfy the password policy (GET /auth/password-policy)',
+  })
+  @IsString()
+  @IsNotEmpty()
+  newPassword: string;
+}
@@ -0,0 +1,8 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString } from 'class-validator';
+
+export class ConfirmEmailChangeDto {
+  @ApiProperty({ description: 'Token from the link sent to the new address' })
+  @IsString()
+  token: string;
+}
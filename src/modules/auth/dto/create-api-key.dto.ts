@@ -0,0 +1,38 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsString,
+  IsArray,
+  IsIn,
+  IsOptional,
+  IsDate,
+  ArrayNotEmpty,
+  MaxLength,
+  MinDate,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { API_KEY_SCOPES } from '../../../utils/constants';
+import type { ApiKeyScope } from '../../../utils/constants';
+
+export class CreateApiKeyDto {
+  @ApiProperty({ example: 'CI pipeline' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    enum: API_KEY_SCOPES,
+    isArray: true,
+    example: ['ai:chat', 'storage:write'],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(API_KEY_SCOPES, { each: true })
+  scopes: ApiKeyScope[];
+
+  @ApiProperty({ required: false, example: '2027-01-01T00:00:00.000Z' })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  @MinDate(() => new Date(), { message: 'expiresAt must be in the future' })
+  expiresAt?: Date;
+}
@@ -0,0 +1,19 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsEnum, IsOptional } from 'class-validator';
+import { Role } from '@prisma/client';
+
+export class CreateInvitationDto {
+  @ApiProperty({ example: 'new.colleague@example.com' })
+  @IsEmail({}, { message: 'Invalid email address' })
+  email: string;
+
+  @ApiProperty({
+    enum: Role,
+    required: false,
+    default: Role.USER,
+    description: 'Role assigned when the invitation is accepted',
+  })
+  @IsOptional()
+  @IsEnum(Role)
+  role?: Role;
+}
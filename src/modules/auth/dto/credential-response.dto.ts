@@ -0,0 +1,34 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CredentialResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ required: false, nullable: true })
+  name: string | null;
+
+  @ApiProperty({ example: 'multiDevice' })
+  deviceType: string;
+
+  @ApiProperty({ description: 'Whether the passkey is synced/backed up' })
+  backedUp: boolean;
+
+  @ApiProperty({ type: [String], example: ['internal', 'hybrid'] })
+  transports: string[];
+
+  @ApiProperty({ required: false, nullable: true })
+  lastUsedAt: Date | null;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class CredentialRegistrationResponseDto extends CredentialResponseDto {
+  @ApiProperty({
+    required: false,
+    type: [String],
+    description:
+      'Issued when passkeys become a second factor and the user had none; shown only once',
+  })
+  recoveryCodes?: string[];
+}
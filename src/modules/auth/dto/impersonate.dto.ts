@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class ImpersonateDto {
+  @ApiProperty({
+    example: 'Reproducing support ticket #4821',
+    description: 'Why the user is being impersonated, kept in the audit log',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
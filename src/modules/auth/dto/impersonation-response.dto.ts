@@ -0,0 +1,60 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ImpersonationResponseDto {
+  @ApiProperty({ description: 'Short-lived access token acting as the user' })
+  accessToken: string;
+
+  @ApiProperty({ description: 'Token lifetime in seconds', example: 900 })
+  expiresIn: number;
+
+  @ApiProperty({ description: 'Audit record ID' })
+  impersonationId: string;
+
+  @ApiProperty({
+    example: {
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      email: 'user@example.com',
+      role: 'USER',
+    },
+  })
+  user: {
+    id: string;
+    email: string;
+    firstName?: string;
+    lastName?: string;
+    role: string;
+  };
+}
+
+export class ImpersonationLogResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ description: 'Admin who impersonated' })
+  actorId: string;
+
+  @ApiProperty({ description: 'Impersonated user' })
+  targetId: string;
+
+  @ApiProperty()
+  reason: string;
+
+  @ApiProperty({ required: false, nullable: true })
+  userAgent: string | null;
+
+  @ApiProperty({ required: false, nullable: true })
+  ipAddress: string | null;
+
+  @ApiProperty()
+  startedAt: Date;
+
+  @ApiProperty()
+  expiresAt: Date;
+
+  @ApiProperty({
+    required: false,
+    nullable: true,
+    description: 'Set when the admin stopped impersonating',
+  })
+  endedAt: Date | null;
+}
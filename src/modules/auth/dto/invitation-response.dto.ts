@@ -0,0 +1,40 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { INVITATION_STATUSES } from '../types/invitation.type';
+import type { InvitationStatus } from '../types/invitation.type';
+
+export class InvitationResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  email: string;
+
+  @ApiProperty({ enum: Role })
+  role: Role;
+
+  @ApiProperty({ enum: INVITATION_STATUSES })
+  status: InvitationStatus;
+
+  @ApiProperty({ description: 'Admin who sent the invitation' })
+  invitedById: string;
+
+  @ApiProperty({
+    required: false,
+    nullable: true,
+    description: 'User created from this invitation',
+  })
+  acceptedById: string | null;
+
+  @ApiProperty()
+  expiresAt: Date;
+
+  @ApiProperty({ required: false, nullable: true })
+  acceptedAt: Date | null;
+
+  @ApiProperty({ required: false, nullable: true })
+  revokedAt: Date | null;
+
+  @ApiProperty()
+  createdAt: Date;
+}
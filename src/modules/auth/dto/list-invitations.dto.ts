@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsOptional } from 'class-validator';
+import { INVITATION_STATUSES } from '../types/invitation.type';
+import type { InvitationStatus } from '../types/invitation.type';
+
+export class ListInvitationsDto {
+  @ApiProperty({ enum: INVITATION_STATUSES, required: false })
+  @IsOptional()
+  @IsIn(INVITATION_STATUSES)
+  status?: InvitationStatus;
+}
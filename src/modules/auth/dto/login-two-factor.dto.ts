@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, Length } from 'class-validator';
+
+export class LoginTwoFactorDto {
+  @ApiProperty({ description: 'Challenge token returned by /auth/login' })
+  @IsString()
+  challengeToken: string;
+
+  @ApiProperty({
+    description: '6-digit authenticator code or a recovery code',
+    example: '123456',
+  })
+  @IsString()
+  @Length(6, 20)
+  code: string;
+}
@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString } from 'class-validator';
+
+export class OAuthLinkCallbackDto {
+  @ApiProperty({ description: 'Authorization code from the provider' })
+  @IsString()
+  code: string;
+
+  @ApiProperty({ description: 'State returned by the provider' })
+  @IsString()
+  state: string;
+}
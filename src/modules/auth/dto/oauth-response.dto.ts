@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class OAuthProvidersResponseDto {
+  @ApiProperty({ example: ['google', 'github'] })
+  providers: string[];
+}
+
+export class OAuthUrlResponseDto {
+  @ApiProperty({ description: 'Provider authorization URL to redirect to' })
+  url: string;
+}
+
+export class LinkedAccountResponseDto {
+  @ApiProperty({ example: 'google' })
+  provider: string;
+
+  @ApiProperty({ required: false, nullable: true })
+  email: string | null;
+
+  @ApiProperty()
+  createdAt: Date;
+}
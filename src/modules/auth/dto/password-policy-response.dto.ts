@@ -0,0 +1,40 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class PasswordPolicyResponseDto {
+  @ApiProperty({ example: 8 })
+  minLength: number;
+
+  @ApiProperty({ example: 128 })
+  maxLength: number;
+
+  @ApiProperty()
+  requireUppercase: boolean;
+
+  @ApiProperty()
+  requireLowercase: boolean;
+
+  @ApiProperty()
+  requireDigit: boolean;
+
+  @ApiProperty()
+  requireSymbol: boolean;
+
+  @ApiProperty({
+    example: 3,
+    description:
+      'How many of uppercase, lowercase, digit and symbol must be present',
+  })
+  minCharacterClasses: number;
+
+  @ApiProperty({ description: 'Name and email fragments are rejected' })
+  disallowPersonalInfo: boolean;
+
+  @ApiProperty({
+    example: 5,
+    description: 'Number of recent passwords that cannot be reused',
+  })
+  historySize: number;
+
+  @ApiProperty({ description: 'Passwords from known breaches are rejected' })
+  breachCheck: boolean;
+}
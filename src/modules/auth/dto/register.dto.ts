@@ -2,9 +2,8 @@ import { ApiProperty } from '@nestjs/swagger';
 import {
   IsEmail,
   IsString,
-  MinLength,
+  IsNotEmpty,
   MaxLength,
-  Matches,
   IsOptional,
 } from 'class-validator';
 
@@ -13,13 +12,12 @@ export class RegisterDto {
   @IsEmail({}, { message: 'Invalid email address' })
   email: string;
 
-  @ApiProperty({ example: 'Password123!', minLength: 8 })
-  @IsString()
-  @MinLength(8, { message: 'Password must be at least 8 characters long' })
-  @Matches(/((?=.*\d)|(?=.*\W+))(?![.\n])(?=.*[A-Z])(?=.*[a-z]).*$/, {
-    message:
-      'Password must contain uppercase, lowercase, and number/special character',
+  @ApiProperty({
+    example: 'Password123!',
+    description: 'Must satisfy the password policy (GET /auth/password-policy)',
   })
+  @IsString()
+  @IsNotEmpty()
   password: string;
 
   @ApiProperty({ example: 'John', required: false })
@@ -33,4 +31,13 @@ export class RegisterDto {
   @IsString()
   @MaxLength(50)
   lastName?: string;
+
+  @ApiProperty({
+    required: false,
+    description:
+      'Token from an invitation email (required in invite-only mode)',
+  })
+  @IsOptional()
+  @IsString()
+  invitationToken?: string;
 }
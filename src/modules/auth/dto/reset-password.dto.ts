@@ -1,17 +1,16 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, MinLength, Matches } from 'class-validator';
+import { IsString, IsNotEmpty } from 'class-validator';
 
 export class ResetPasswordDto {
   @ApiProperty()
   @IsString()
   token: string;
 
-  @ApiProperty({ example: 'NewPassword123!', minLength: 8 })
-  @IsString()
-  @MinLength(8, { message: 'Password must be at least 8 characters long' })
-  @Matches(/((?=.*\d)|(?=.*\W+))(?![.\n])(?=.*[A-Z])(?=.*[a-z]).*$/, {
-    message:
-      'Password must contain uppercase, lowercase, and number/special character',
+  @ApiProperty({
+    example: 'NewPassword123!',
+    description: 'Must satisfy the password policy (GET /auth/password-policy)',
   })
+  @IsString()
+  @IsNotEmpty()
   password: string;
 }
@@ -0,0 +1,23 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SessionResponseDto {
+  @ApiProperty({ description: 'Session ID (refresh token family)' })
+  id: string;
+
+  @ApiProperty({ required: false, nullable: true })
+  userAgent: string | null;
+
+  @ApiProperty({ required: false, nullable: true })
+  ipAddress: string | null;
+
+  @ApiProperty()
+  lastUsedAt: Date;
+
+  @ApiProperty()
+  expiresAt: Date;
+
+  @ApiProperty({
+    description: 'Whether this is the session making the request',
+  })
+  current: boolean;
+}
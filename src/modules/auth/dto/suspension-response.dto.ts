@@ -0,0 +1,34 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SuspensionResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  userId: string;
+
+  @ApiProperty()
+  reason: string;
+
+  @ApiProperty({
+    nullable: true,
+    description: 'When the suspension lifts itself, null until reinstated',
+  })
+  endsAt: Date | null;
+
+  @ApiProperty({ nullable: true, description: 'Admin who suspended the user' })
+  imposedById: string | null;
+
+  @ApiProperty({ nullable: true })
+  liftedAt: Date | null;
+
+  @ApiProperty({
+    nullable: true,
+    description:
+      'Admin who reinstated the user, null when lifted automatically',
+  })
+  liftedById: string | null;
+
+  @ApiProperty()
+  createdAt: Date;
+}
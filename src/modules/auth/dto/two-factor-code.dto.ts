@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, Length } from 'class-validator';
+
+export class TwoFactorCodeDto {
+  @ApiProperty({
+    description: '6-digit authenticator code or a recovery code',
+    example: '123456',
+  })
+  @IsString()
+  @Length(6, 20)
+  code: string;
+}
@@ -0,0 +1,40 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export type SecondFactorMethod = 'totp' | 'webauthn' | 'recovery_code';
+
+export class TwoFactorChallengeResponseDto {
+  @ApiProperty({ example: true })
+  requiresTwoFactor: true;
+
+  @ApiProperty({
+    description:
+      'Exchange at /auth/login/2fa (totp, recovery_code) or /auth/webauthn/login/2fa (webauthn)',
+  })
+  challengeToken: string;
+
+  @ApiProperty({
+    enum: ['totp', 'webauthn', 'recovery_code'],
+    isArray: true,
+    description: 'Second factors the user can complete the login with',
+  })
+  methods: SecondFactorMethod[];
+}
+
+export class TwoFactorEnrollmentResponseDto {
+  @ApiProperty({ description: 'Base32 secret for manual entry' })
+  secret: string;
+
+  @ApiProperty({ example: 'otpauth://totp/Backend%20API:user%40example.com' })
+  otpauthUrl: string;
+
+  @ApiProperty({ description: 'QR code as a PNG data URL' })
+  qrCodeDataUrl: string;
+}
+
+export class RecoveryCodesResponseDto {
+  @ApiProperty({
+    type: [String],
+    description: 'Single-use recovery codes, shown only once',
+  })
+  recoveryCodes: string[];
+}
@@ -0,0 +1,8 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString } from 'class-validator';
+
+export class UnlockAccountDto {
+  @ApiProperty({ description: 'Unlock token received by email' })
+  @IsString()
+  token: string;
+}
@@ -0,0 +1,31 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsString,
+  IsArray,
+  IsIn,
+  IsOptional,
+  ArrayNotEmpty,
+  MaxLength,
+} from 'class-validator';
+import { API_KEY_SCOPES } from '../../../utils/constants';
+import type { ApiKeyScope } from '../../../utils/constants';
+
+export class UpdateApiKeyDto {
+  @ApiProperty({ example: 'CI pipeline', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiProperty({
+    enum: API_KEY_SCOPES,
+    isArray: true,
+    required: false,
+    example: ['ai:chat'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(API_KEY_SCOPES, { each: true })
+  scopes?: ApiKeyScope[];
+}
@@ -0,0 +1,8 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString } from 'class-validator';
+
+export class VerifyEmailDto {
+  @ApiProperty({ description: 'Verification token received by email' })
+  @IsString()
+  token: string;
+}
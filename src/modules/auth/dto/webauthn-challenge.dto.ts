@@ -0,0 +1,8 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString } from 'class-validator';
+
+export class WebAuthnChallengeDto {
+  @ApiProperty({ description: 'Challenge token returned by /auth/login' })
+  @IsString()
+  challengeToken: string;
+}
@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsOptional } from 'class-validator';
+
+export class WebAuthnLoginOptionsDto {
+  @ApiProperty({
+    required: false,
+    example: 'user@example.com',
+    description: 'Omit to let the browser offer any passkey for this site',
+  })
+  @IsOptional()
+  @IsEmail({}, { message: 'Invalid email address' })
+  email?: string;
+}
@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsObject } from 'class-validator';
+import type { AuthenticationResponseJSON } from '@simplewebauthn/server';
+
+export class WebAuthnLoginDto {
+  @ApiProperty({
+    description: 'Result of navigator.credentials.get(), JSON-encoded',
+  })
+  @IsObject()
+  response: AuthenticationResponseJSON;
+}
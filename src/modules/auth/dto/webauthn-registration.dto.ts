@@ -0,0 +1,33 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import type { RegistrationResponseJSON } from '@simplewebauthn/server';
+
+export class WebAuthnRegistrationDto {
+  @ApiProperty({
+    description: 'Result of navigator.credentials.create(), JSON-encoded',
+  })
+  @IsObject()
+  response: RegistrationResponseJSON;
+
+  @ApiProperty({ required: false, example: 'MacBook Touch ID' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiProperty({
+    required: false,
+    default: false,
+    description:
+      'Also ask for a passkey after password, magic link and social login',
+  })
+  @IsOptional()
+  @IsBoolean()
+  useAsSecondFactor?: boolean;
+}
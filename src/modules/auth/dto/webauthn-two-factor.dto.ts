@@ -0,0 +1,9 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString } from 'class-validator';
+import { WebAuthnLoginDto } from './webauthn-login.dto';
+
+export class WebAuthnTwoFactorDto extends WebAuthnLoginDto {
+  @ApiProperty({ description: 'Challenge token returned by /auth/login' })
+  @IsString()
+  challengeToken: string;
+}
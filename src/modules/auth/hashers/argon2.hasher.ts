@@ -0,0 +1,40 @@
+import * as argon2 from 'argon2';
+import { PasswordHasher } from '../types/password-hasher.type';
+
+export interface Argon2HasherOptions {
+  // KiB
+  memoryCost: number;
+  timeCost: number;
+  parallelism: number;
+}
+
+/**
+ * Argon2id, the variant recommended for password storage by RFC 9106
+ */
+export class Argon2Hasher implements PasswordHasher {
+  readonly algorithm = 'argon2id';
+
+  constructor(private readonly options: Argon2HasherOptions) {}
+
+  identifies(hash: string): boolean {
+    return hash.startsWith('$argon2');
+  }
+
+  hash(password: string): Promise<string> {
+    return argon2.hash(password, {
+      type: argon2.argon2id,
+      ...this.options,
+    });
+  }
+
+  verify(password: string, hash: string): Promise<boolean> {
+    return argon2.verify(hash, password);
+  }
+
+  needsRehash(hash: string): boolean {
+    // argon2d/argon2i hashes still verify but are moved to argon2id
+    return (
+      !hash.startsWith('$argon2id$') || argon2.needsRehash(hash, this.options)
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import * as bcrypt from 'bcrypt';
+import { PasswordHasher } from '../types/password-hasher.type';
+
+export interface BcryptHasherOptions {
+  cost: number;
+}
+
+export class BcryptHasher implements PasswordHasher {
+  readonly algorithm = 'bcrypt';
+
+  constructor(private readonly options: BcryptHasherOptions) {}
+
+  identifies(hash: string): boolean {
+    return /^\$2[aby]\$/.test(hash);
+  }
+
+  hash(password: string): Promise<string> {
+    return bcrypt.hash(password, this.options.cost);
+  }
+
+  verify(password: string, hash: string): Promise<boolean> {
+    return bcrypt.compare(password, hash);
+  }
+
+  needsRehash(hash: string): boolean {
+    return bcrypt.getRounds(hash) !== this.options.cost;
+  }
+}
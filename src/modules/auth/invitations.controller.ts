@@ -0,0 +1,85 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { InvitationsService } from './services/invitations.service';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+import { ListInvitationsDto } from './dto/list-invitations.dto';
+import { InvitationResponseDto } from './dto/invitation-response.dto';
+import {
+  CurrentUser,
+  UserPayload,
+} from '../../common/decorators/current-user.decorator';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+
+@ApiTags('Authentication')
+@Controller('auth/invitations')
+@RequirePermissions('invitations:manage')
+@ApiBearerAuth()
+export class InvitationsController {
+  constructor(private readonly invitationsService: InvitationsService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Invite someone to register (Admin only)' })
+  @ApiResponse({
+    status: 201,
+    description: 'Invitation created and emailed',
+    type: InvitationResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin only, or the role cannot be granted',
+  })
+  @ApiResponse({ status: 409, description: 'User already exists' })
+  async createInvitation(
+    @CurrentUser() user: UserPayload,
+    @Body() createInvitationDto: CreateInvitationDto,
+  ): Promise<InvitationResponseDto> {
+    return this.invitationsService.createInvitation(
+      user.id,
+      user.role,
+      createInvitationDto,
+    );
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List invitations (Admin only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Invitations retrieved',
+    type: [InvitationResponseDto],
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin only' })
+  async listInvitations(
+    @Query() listInvitationsDto: ListInvitationsDto,
+  ): Promise<InvitationResponseDto[]> {
+    return this.invitationsService.listInvitations(listInvitationsDto.status);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revoke a pending invitation (Admin only)' })
+  @ApiResponse({ status: 204, description: 'Invitation revoked' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin only' })
+  @ApiResponse({ status: 404, description: 'Invitation not found' })
+  async revokeInvitation(@Param('id') id: string): Promise<void> {
+    return this.invitationsService.revokeInvitation(id);
+  }
+}
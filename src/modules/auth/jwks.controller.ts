@@ -0,0 +1,22 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { SigningKeyService } from './services/signing-key.service';
+import { Public } from '../../common/decorators/public.decorator';
+
+/**
+ * Served outside the API prefix at /.well-known/jwks.json
+ */
+@ApiTags('Authentication')
+@Controller('.well-known')
+export class JwksController {
+  constructor(private readonly signingKeyService: SigningKeyService) {}
+
+  @Public()
+  @Get('jwks.json')
+  @Header('Cache-Control', 'public, max-age=300')
+  @ApiOperation({ summary: 'Public keys for verifying access tokens' })
+  @ApiResponse({ status: 200, description: 'JSON Web Key Set' })
+  async getJwks() {
+    return this.signingKeyService.getJwks();
+  }
+}
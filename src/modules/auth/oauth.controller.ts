@@ -0,0 +1,189 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Query,
+  Body,
+  Redirect,
+  HttpCode,
+  HttpStatus,
+  UnauthorizedException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { AuthService } from './auth.service';
+import { OAuthService } from './services/oauth.service';
+import { AuthResponseDto } from './dto/auth-response.dto';
+import { TwoFactorChallengeResponseDto } from './dto/two-factor-response.dto';
+import { OAuthLinkCallbackDto } from './dto/oauth-link-callback.dto';
+import {
+  LinkedAccountResponseDto,
+  OAuthProvidersResponseDto,
+  OAuthUrlResponseDto,
+} from './dto/oauth-response.dto';
+import { Public } from '../../common/decorators/public.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { ClientInfo } from '../../common/decorators/client-info.decorator';
+import { DisallowImpersonation } from '../../common/decorators/disallow-impersonation.decorator';
+
+@ApiTags('Authentication')
+@Controller('auth/oauth')
+export class OAuthController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly oauthService: OAuthService,
+  ) {}
+
+  @Public()
+  @Get('providers')
+  @ApiOperation({ summary: 'List enabled social login providers' })
+  @ApiResponse({
+    status: 200,
+    description: 'Enabled providers',
+    type: OAuthProvidersResponseDto,
+  })
+  getProviders(): OAuthProvidersResponseDto {
+    return { providers: this.oauthService.getEnabledProviders() };
+  }
+
+  @Get('accounts')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List linked social accounts' })
+  @ApiResponse({
+    status: 200,
+    description: 'Linked accounts retrieved',
+    type: [LinkedAccountResponseDto],
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async listAccounts(
+    @CurrentUser('id') userId: string,
+  ): Promise<LinkedAccountResponseDto[]> {
+    return this.oauthService.listAccounts(userId);
+  }
+
+  @Delete('accounts/:provider')
+  @DisallowImpersonation()
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Unlink a social account' })
+  @ApiResponse({ status: 204, description: 'Account unlinked' })
+  @ApiResponse({
+    status: 400,
+    description: 'Cannot remove the only sign-in method',
+  })
+  @ApiResponse({ status: 403, description: 'Not allowed while impersonating' })
+  @ApiResponse({ status: 404, description: 'Linked account not found' })
+  async unlinkAccount(
+    @CurrentUser('id') userId: string,
+    @Param('provider') provider: string,
+  ): Promise<void> {
+    return this.oauthService.unlinkAccount(userId, provider);
+  }
+
+  @Post(':provider/link')
+  @DisallowImpersonation()
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Start linking a social account to the current user',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Authorization URL to redirect the user to',
+    type: OAuthUrlResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Provider not enabled' })
+  async link(
+    @Param('provider') provider: string,
+    @CurrentUser('id') userId: string,
+  ): Promise<OAuthUrlResponseDto> {
+    return {
+      url: await this.oauthService.getAuthorizationUrl(provider, userId),
+    };
+  }
+
+  @Post(':provider/link/callback')
+  @DisallowImpersonation()
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary:
+      'Finish linking with the code and state the provider redirected back with',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Linked accounts of the current user',
+    type: [LinkedAccountResponseDto],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid state, or the link was started by another user',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'The provider account is linked to another user',
+  })
+  async completeLink(
+    @Param('provider') provider: string,
+    @CurrentUser('id') userId: string,
+    @Body() oauthLinkCallbackDto: OAuthLinkCallbackDto,
+  ): Promise<LinkedAccountResponseDto[]> {
+    return this.oauthService.completeLink(
+      provider,
+      oauthLinkCallbackDto.code,
+      oauthLinkCallbackDto.state,
+      userId,
+    );
+  }
+
+  @Public()
+  @Get(':provider')
+  @Redirect()
+  @ApiOperation({ summary: 'Start social login (redirects to the provider)' })
+  @ApiResponse({ status: 302, description: 'Redirect to provider' })
+  @ApiResponse({ status: 404, description: 'Provider not enabled' })
+  async authorize(
+    @Param('provider') provider: string,
+  ): Promise<OAuthUrlResponseDto> {
+    return { url: await this.oauthService.getAuthorizationUrl(provider) };
+  }
+
+  @Public()
+  @Get(':provider/callback')
+  @ApiOperation({ summary: 'Complete social login' })
+  @ApiQuery({ name: 'code', required: true })
+  @ApiQuery({ name: 'state', required: true })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Login successful, or a two-factor challenge if 2FA is enabled',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Sign-in failed' })
+  @ApiResponse({
+    status: 409,
+    description: 'Email belongs to an account that cannot be linked',
+  })
+  async callback(
+    @Param('provider') provider: string,
+    @Query('code') code: string | undefined,
+    @Query('state') state: string | undefined,
+    @Query('error') error: string | undefined,
+    @ClientInfo() clientInfo: ClientInfo,
+  ): Promise<AuthResponseDto | TwoFactorChallengeResponseDto> {
+    if (error || !code || !state) {
+      throw new UnauthorizedException(
+        `Sign-in with ${provider} was not completed${error ? `: ${error}` : ''}`,
+      );
+    }
+
+    return this.authService.loginWithOAuth(provider, code, state, clientInfo);
+  }
+}
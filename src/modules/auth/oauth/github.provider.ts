@@ -0,0 +1,106 @@
+import axios from 'axios';
+import {
+  OAuthAuthorizationParams,
+  OAuthCodeExchangeParams,
+  OAuthProfile,
+  OAuthProvider,
+} from '../types/oauth.type';
+
+export interface GithubProviderOptions {
+  clientId: string;
+  clientSecret: string;
+  baseUrl: string;
+  apiUrl: string;
+}
+
+interface GithubUser {
+  id: number;
+  login: string;
+  name: string | null;
+  avatar_url: string;
+}
+
+interface GithubEmail {
+  email: string;
+  primary: boolean;
+  verified: boolean;
+}
+
+/**
+ * GitHub OAuth2 apps do not implement OpenID Connect, so the profile and
+ * verified primary email are read from the REST API
+ */
+export class GithubProvider implements OAuthProvider {
+  readonly name = 'github';
+
+  constructor(private readonly options: GithubProviderOptions) {}
+
+  getAuthorizationUrl({
+    state,
+    codeChallenge,
+    redirectUri,
+  }: OAuthAuthorizationParams): Promise<string> {
+    const params = new URLSearchParams({
+      client_id: this.options.clientId,
+      redirect_uri: redirectUri,
+      scope: 'read:user user:email',
+      state,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+    });
+
+    return Promise.resolve(
+      `${this.options.baseUrl}/login/oauth/authorize?${params.toString()}`,
+    );
+  }
+
+  async getProfile({
+    code,
+    codeVerifier,
+    redirectUri,
+  }: OAuthCodeExchangeParams): Promise<OAuthProfile> {
+    const { data: tokens } = await axios.post<{
+      access_token?: string;
+      error?: string;
+    }>(
+      `${this.options.baseUrl}/login/oauth/access_token`,
+      new URLSearchParams({
+        code,
+        redirect_uri: redirectUri,
+        client_id: this.options.clientId,
+        client_secret: this.options.clientSecret,
+        code_verifier: codeVerifier,
+      }),
+      { headers: { Accept: 'application/json' } },
+    );
+
+    // GitHub reports token errors with a 200 response
+    if (!tokens.access_token) {
+      throw new Error(`GitHub token exchange failed: ${tokens.error}`);
+    }
+
+    const headers = {
+      Accept: 'application/vnd.github+json',
+      Authorization: `Bearer ${tokens.access_token}`,
+    };
+
+    const [{ data: user }, { data: emails }] = await Promise.all([
+      axios.get<GithubUser>(`${this.options.apiUrl}/user`, { headers }),
+      axios.get<GithubEmail[]>(`${this.options.apiUrl}/user/emails`, {
+        headers,
+      }),
+    ]);
+
+    const primaryEmail = emails.find((email) => email.primary);
+    const [firstName, ...lastName] = (user.name ?? '').split(' ');
+
+    return {
+      providerAccountId: String(user.id),
+      email: primaryEmail?.email ?? null,
+      emailVerified: primaryEmail?.verified ?? false,
+      firstName: firstName || undefined,
+      lastName: lastName.join(' ') || undefined,
+      avatarUrl: user.avatar_url,
+    };
+  }
+}
@@ -0,0 +1,131 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../../../database/prisma.service';
+import { generateToken, hashToken } from '../../../utils/helpers';
+import { CreateApiKeyDto } from '../dto/create-api-key.dto';
+import { UpdateApiKeyDto } from '../dto/update-api-key.dto';
+import {
+  ApiKeyResponseDto,
+  CreatedApiKeyResponseDto,
+} from '../dto/api-key-response.dto';
+
+const API_KEY_SELECT = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  createdAt: true,
+};
+
+@Injectable()
+export class ApiKeysService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Create API key - the full key is only returned here
+   */
+  async createApiKey(
+    userId: string,
+    createApiKeyDto: CreateApiKeyDto,
+  ): Promise<CreatedApiKeyResponseDto> {
+    // Format: sk_<prefix>_<secret>
+    const prefix = generateToken(4);
+    const key = `sk_${prefix}_${generateToken(32)}`;
+
+    const apiKey = await this.prisma.apiKey.create({
+      data: {
+        name: createApiKeyDto.name,
+        prefix,
+        hashedKey: hashToken(key),
+        scopes: createApiKeyDto.scopes,
+        expiresAt: createApiKeyDto.expiresAt,
+        userId,
+      },
+      select: API_KEY_SELECT,
+    });
+
+    return { ...apiKey, key };
+  }
+
+  /**
+   * List user API keys
+   */
+  async listApiKeys(userId: string): Promise<ApiKeyResponseDto[]> {
+    return this.prisma.apiKey.findMany({
+      where: { userId },
+      select: API_KEY_SELECT,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Rename API key or change its scopes
+   */
+  async updateApiKey(
+    userId: string,
+    apiKeyId: string,
+    updateApiKeyDto: UpdateApiKeyDto,
+  ): Promise<ApiKeyResponseDto> {
+    const apiKey = await this.prisma.apiKey.findFirst({
+      where: { id: apiKeyId, userId },
+      select: { id: true },
+    });
+
+    if (!apiKey) {
+      throw new NotFoundException('API key not found');
+    }
+
+    return this.prisma.apiKey.update({
+      where: { id: apiKeyId },
+      data: updateApiKeyDto,
+      select: API_KEY_SELECT,
+    });
+  }
+
+  /**
+   * Revoke (delete) API key
+   */
+  async revokeApiKey(userId: string, apiKeyId: string): Promise<void> {
+    const { count } = await this.prisma.apiKey.deleteMany({
+      where: { id: apiKeyId, userId },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('API key not found');
+    }
+  }
+
+  /**
+   * Resolve a raw API key to its record, or null if unknown or expired
+   */
+  async validateApiKey(key: string) {
+    const apiKey = await this.prisma.apiKey.findUnique({
+      where: { hashedKey: hashToken(key) },
+      include: {
+        user: {
+          select: {
+            id: true,
+            email: true,
+            firstName: true,
+            lastName: true,
+            role: true,
+            isActive: true,
+            emailVerified: true,
+          },
+        },
+      },
+    });
+
+    if (!apiKey || (apiKey.expiresAt && apiKey.expiresAt < new Date())) {
+      return null;
+    }
+
+    await this.prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date() },
+    });
+
+    return apiKey;
+  }
+}
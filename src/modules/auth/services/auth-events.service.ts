@@ -0,0 +1,180 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { AuthEventType, Prisma } from '@prisma/client';
+import { PrismaService } from '../../../database/prisma.service';
+import { EmailService } from '../../email/email.service';
+import { PreferencesService } from '../../preferences/preferences.service';
+import { ClientInfo } from '../../../common/decorators/client-info.decorator';
+import { AuthEventListResponseDto } from '../dto/auth-event-response.dto';
+
+interface AuthEventSubject {
+  userId?: string;
+  // Attempted address, for failures that match no user
+  email?: string;
+}
+
+const AUTH_EVENT_SELECT = {
+  id: true,
+  type: true,
+  ipAddress: true,
+  userAgent: true,
+  metadata: true,
+  createdAt: true,
+};
+
+/**
+ * Persistent log of authentication events, shown to users and admins.
+ * Recording never fails the request that triggered it.
+ */
+@Injectable()
+export class AuthEventsService {
+  private readonly logger = new Logger(AuthEventsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private emailService: EmailService,
+    private preferencesService: PreferencesService,
+  ) {}
+
+  /**
+   * Record an event
+   */
+  async record(
+    type: AuthEventType,
+    subject: AuthEventSubject,
+    clientInfo?: ClientInfo,
+    metadata?: Prisma.InputJsonObject,
+  ): Promise<void> {
+    try {
+      await this.prisma.authEvent.create({
+        data: {
+          type,
+          userId: subject.userId,
+          email: subject.email,
+          ipAddress: clientInfo?.ipAddress,
+          userAgent: clientInfo?.userAgent,
+          metadata,
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Could not record ${type} event`,
+        error instanceof Error ? error.stack : undefined,
+      );
+    }
+  }
+
+  /**
+   * Record a successful login and alert the user when it comes from a
+   * device or IP address that none of their earlier logins used
+   */
+  async recordLogin(
+    user: { id: string; email: string },
+    clientInfo: ClientInfo | undefined,
+    method: string,
+  ): Promise<void> {
+    const isNewDevice = await this.isNewDevice(user.id, clientInfo).catch(
+      () => false,
+    );
+
+    await this.record(
+      AuthEventType.LOGIN_SUCCESS,
+      { userId: user.id },
+      clientInfo,
+      { method },
+    );
+
+    if (!isNewDevice) {
+      return;
+    }
+
+    try {
+      const { notifications } = await this.preferencesService.getPreferences(
+        user.id,
+      );
+
+      if (!notifications.newSignIn) {
+        return;
+      }
+
+      await this.emailService.sendNewSignInEmail(user.email, {
+        ipAddress: clientInfo?.ipAddress,
+        userAgent: clientInfo?.userAgent,
+        signedInAt: new Date(),
+      });
+    } catch {
+      this.logger.warn(`Could not send new sign-in email to ${user.email}`);
+    }
+  }
+
+  /**
+   * List a user's events, newest first
+   */
+  async listEvents(
+    userId: string,
+    page: number = 1,
+    limit: number = 20,
+    type?: AuthEventType,
+  ): Promise<AuthEventListResponseDto> {
+    const where = { userId, type };
+
+    const [events, total] = await Promise.all([
+      this.prisma.authEvent.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        select: AUTH_EVENT_SELECT,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.authEvent.count({ where }),
+    ]);
+
+    return {
+      data: events,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  private async isNewDevice(
+    userId: string,
+    clientInfo?: ClientInfo,
+  ): Promise<boolean> {
+    if (!clientInfo?.ipAddress && !clientInfo?.userAgent) {
+      return false;
+    }
+
+    const previousLogins = await this.prisma.authEvent.count({
+      where: { userId, type: AuthEventType.LOGIN_SUCCESS },
+    });
+
+    // The first login has nothing to compare against
+    if (previousLogins === 0) {
+      return false;
+    }
+
+    const [knownIp, knownDevice] = await Promise.all([
+      this.prisma.authEvent.findFirst({
+        where: {
+          userId,
+          type: AuthEventType.LOGIN_SUCCESS,
+          ipAddress: clientInfo.ipAddress ?? null,
+        },
+        select: { id: true },
+      }),
+      this.prisma.authEvent.findFirst({
+        where: {
+          userId,
+          type: AuthEventType.LOGIN_SUCCESS,
+          userAgent: clientInfo.userAgent ?? null,
+        },
+        select: { id: true },
+      }),
+    ]);
+
+    return !knownIp || !knownDevice;
+  }
+}
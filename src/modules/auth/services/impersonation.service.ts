@@ -0,0 +1,186 @@
+import {
+  Injectable,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Role } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../../../database/prisma.service';
+import { ClientInfo } from '../../../common/decorators/client-info.decorator';
+import { SigningKeyService } from './signing-key.service';
+import { TokenRevocationService } from './token-revocation.service';
+import { PermissionsService } from '../../permissions/permissions.service';
+import { Permission } from '../../../utils/constants';
+import {
+  ImpersonationLogResponseDto,
+  ImpersonationResponseDto,
+} from '../dto/impersonation-response.dto';
+
+/**
+ * Lets admins act as another user with a short-lived access token.
+ * The token carries the target as `sub` and the admin in the `act` claim;
+ * every impersonation is recorded in the impersonations table.
+ */
+@Injectable()
+export class ImpersonationService {
+  private readonly logger = new Logger(ImpersonationService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private signingKeyService: SigningKeyService,
+    private tokenRevocationService: TokenRevocationService,
+    private permissionsService: PermissionsService,
+  ) {}
+
+  /**
+   * Start impersonating a user
+   */
+  async start(
+    actorId: string,
+    targetId: string,
+    reason: string,
+    clientInfo?: ClientInfo,
+  ): Promise<ImpersonationResponseDto> {
+    if (actorId === targetId) {
+      throw new BadRequestException('You cannot impersonate yourself');
+    }
+
+    const target = await this.prisma.user.findUnique({
+      where: { id: targetId },
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        role: true,
+        isActive: true,
+      },
+    });
+
+    if (!target || !target.isActive) {
+      throw new NotFoundException('User not found');
+    }
+
+    const actor = await this.prisma.user.findUniqueOrThrow({
+      where: { id: actorId },
+      select: { role: true },
+    });
+
+    if (!(await this.outranks(actor.role, target.role))) {
+      throw new ForbiddenException(
+        'Only users with fewer permissions than yours can be impersonated',
+      );
+    }
+
+    const ttl = this.configService.get<number>('auth.impersonation.ttl', 900);
+
+    const impersonation = await this.prisma.impersonation.create({
+      data: {
+        actorId,
+        targetId,
+        reason,
+        userAgent: clientInfo?.userAgent,
+        ipAddress: clientInfo?.ipAddress,
+        expiresAt: new Date(Date.now() + ttl * 1000),
+      },
+    });
+
+    // No refresh token: the admin has to start again once this expires
+    const accessToken = await this.signingKeyService.signAccessToken(
+      {
+        sub: target.id,
+        email: target.email,
+        sid: impersonation.id,
+        act: { sub: actorId },
+      },
+      randomUUID(),
+      ttl,
+    );
+
+    this.logger.warn(
+      `[SECURITY] Admin ${actorId} started impersonating user ${targetId} (${impersonation.id})`,
+    );
+
+    return {
+      accessToken,
+      expiresIn: ttl,
+      impersonationId: impersonation.id,
+      user: {
+        id: target.id,
+        email: target.email,
+        firstName: target.firstName ?? undefined,
+        lastName: target.lastName ?? undefined,
+        role: target.role,
+      },
+    };
+  }
+
+  /**
+   * Stop an impersonation and revoke its token
+   */
+  async stop(actorId: string, impersonationId: string): Promise<void> {
+    const { count } = await this.prisma.impersonation.updateMany({
+      where: { id: impersonationId, actorId, endedAt: null },
+      data: { endedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('Impersonation not found');
+    }
+
+    await this.tokenRevocationService.revokeSession(impersonationId);
+
+    this.logger.warn(
+      `[SECURITY] Admin ${actorId} stopped impersonating (${impersonationId})`,
+    );
+  }
+
+  /**
+   * Audit log of impersonations by or of a user, newest first
+   */
+  async listForUser(userId: string): Promise<ImpersonationLogResponseDto[]> {
+    return this.prisma.impersonation.findMany({
+      where: { OR: [{ actorId: userId }, { targetId: userId }] },
+      orderBy: { startedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Whether the actor's role grants strictly more than the target's, so
+   * impersonating can't widen the actor's access. Targets who may
+   * impersonate others themselves are never eligible.
+   */
+  private async outranks(actorRole: Role, targetRole: Role): Promise<boolean> {
+    if (
+      actorRole === targetRole ||
+      (await this.permissionsService.hasPermission(
+        targetRole,
+        'users:impersonate',
+      ))
+    ) {
+      return false;
+    }
+
+    const [actorPermissions, targetPermissions] = await Promise.all([
+      this.permissionsService.getRolePermissions(actorRole),
+      this.permissionsService.getRolePermissions(targetRole),
+    ]);
+
+    const [notHeldByActor, notHeldByTarget] = await Promise.all([
+      this.permissionsService.getMissingPermissions(
+        actorRole,
+        targetPermissions as Permission[],
+      ),
+      this.permissionsService.getMissingPermissions(
+        targetRole,
+        actorPermissions as Permission[],
+      ),
+    ]);
+
+    return notHeldByActor.length === 0 && notHeldByTarget.length > 0;
+  }
+}
@@ -0,0 +1,316 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Invitation, Prisma, Role } from '@prisma/client';
+import { PrismaService } from '../../../database/prisma.service';
+import { EmailService } from '../../email/email.service';
+import { PermissionsService } from '../../permissions/permissions.service';
+import { generateToken, hashToken } from '../../../utils/helpers';
+import { CreateInvitationDto } from '../dto/create-invitation.dto';
+import { InvitationResponseDto } from '../dto/invitation-response.dto';
+import { InvitationStatus, RegistrationMode } from '../types/invitation.type';
+import { Permission } from '../../../utils/constants';
+
+interface RegistrationOptions {
+  // Invitation token supplied with the registration
+  token?: string;
+  // The address was verified by a trusted party (social login), so a
+  // pending invitation for it may be used without the token
+  emailVerified?: boolean;
+}
+
+/**
+ * Registration modes and invitations.
+ * Invitations admit their recipient in every mode; `domain` mode also admits
+ * addresses from the allowed domains and `open` mode admits everyone.
+ */
+@Injectable()
+export class InvitationsService {
+  private readonly logger = new Logger(InvitationsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private emailService: EmailService,
+    private permissionsService: PermissionsService,
+  ) {}
+
+  /**
+   * Invite someone to register, replacing any pending invitation for them
+   */
+  async createInvitation(
+    invitedById: string,
+    inviterRole: Role,
+    createInvitationDto: CreateInvitationDto,
+  ): Promise<InvitationResponseDto> {
+    const { email, role = Role.USER } = createInvitationDto;
+
+    if (!(await this.canGrantRole(inviterRole, role))) {
+      throw new ForbiddenException(
+        `You are not allowed to invite users with the ${role} role`,
+      );
+    }
+
+    const existingUser = await this.prisma.user.findFirst({
+      where: { email: { equals: email, mode: 'insensitive' } },
+      select: { id: true },
+    });
+
+    if (existingUser) {
+      throw new ConflictException('User with this email already exists');
+    }
+
+    await this.prisma.invitation.updateMany({
+      where: {
+        email: { equals: email, mode: 'insensitive' },
+        ...this.statusFilter('pending'),
+      },
+      data: { revokedAt: new Date() },
+    });
+
+    const invitationToken = generateToken(32);
+    const ttl = this.configService.get<number>(
+      'auth.registration.invitationTtl',
+      604800,
+    );
+
+    const invitation = await this.prisma.invitation.create({
+      data: {
+        email,
+        role,
+        token: hashToken(invitationToken),
+        invitedById,
+        expiresAt: new Date(Date.now() + ttl * 1000),
+      },
+      include: {
+        invitedBy: { select: { email: true, firstName: true, lastName: true } },
+      },
+    });
+
+    const { invitedBy } = invitation;
+
+    try {
+      await this.emailService.sendInvitationEmail(
+        email,
+        invitationToken,
+        [invitedBy.firstName, invitedBy.lastName].filter(Boolean).join(' ') ||
+          invitedBy.email,
+        invitation.expiresAt,
+      );
+    } catch {
+      // The admin can send a new invitation
+      this.logger.warn(`Could not send invitation email to ${email}`);
+    }
+
+    return this.toResponse(invitation);
+  }
+
+  /**
+   * Inviters who can change roles may grant any role; others only roles
+   * granting nothing beyond their own permissions
+   */
+  private async canGrantRole(inviterRole: Role, role: Role): Promise<boolean> {
+    if (
+      role === inviterRole ||
+      (await this.permissionsService.hasPermission(inviterRole, 'users:manage'))
+    ) {
+      return true;
+    }
+
+    const missing = await this.permissionsService.getMissingPermissions(
+      inviterRole,
+      (await this.permissionsService.getRolePermissions(role)) as Permission[],
+    );
+
+    return missing.length === 0;
+  }
+
+  /**
+   * List invitations, newest first
+   */
+  async listInvitations(
+    status?: InvitationStatus,
+  ): Promise<InvitationResponseDto[]> {
+    const invitations = await this.prisma.invitation.findMany({
+      where: status ? this.statusFilter(status) : {},
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return invitations.map((invitation) => this.toResponse(invitation));
+  }
+
+  /**
+   * Revoke a pending invitation
+   */
+  async revokeInvitation(id: string): Promise<void> {
+    const { count } = await this.prisma.invitation.updateMany({
+      where: { id, ...this.statusFilter('pending') },
+      data: { revokedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('Invitation not found or no longer pending');
+    }
+  }
+
+  /**
+   * Check whether a new account may be created for the email under the
+   * current registration mode. Returns the invitation admitting it, to be
+   * claimed with the account, or null when registration is open to the
+   * address.
+   */
+  async admitRegistration(
+    email: string,
+    options: RegistrationOptions = {},
+  ): Promise<Invitation | null> {
+    const invitation = await this.findInvitation(email, options);
+
+    if (invitation) {
+      return invitation;
+    }
+
+    const mode = this.configService.get<RegistrationMode>(
+      'auth.registration.mode',
+      'open',
+    );
+
+    if (mode === 'invite-only') {
+      throw new ForbiddenException('Registration is by invitation only');
+    }
+
+    if (mode === 'domain') {
+      const allowedDomains = this.configService.get<string[]>(
+        'auth.registration.allowedDomains',
+        [],
+      );
+      const domain = email.split('@').pop()?.toLowerCase() ?? '';
+
+      if (!allowedDomains.includes(domain)) {
+        throw new ForbiddenException(
+          'Registration is restricted to approved email domains',
+        );
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether accounts must verify their email address before logging in.
+   * In domain mode the domain alone doesn't show that the address belongs
+   * to whoever registered it.
+   */
+  requiresVerifiedEmail(): boolean {
+    return (
+      this.configService.get<RegistrationMode>(
+        'auth.registration.mode',
+        'open',
+      ) === 'domain'
+    );
+  }
+
+  /**
+   * Mark an invitation as used so it can't admit two accounts. Run it in
+   * the transaction creating the user, so a failed create doesn't use it up.
+   */
+  async claimInvitation(
+    invitationId: string,
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<void> {
+    const { count } = await tx.invitation.updateMany({
+      where: { id: invitationId, ...this.statusFilter('pending') },
+      data: { acceptedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('Invalid or expired invitation');
+    }
+  }
+
+  private async findInvitation(
+    email: string,
+    options: RegistrationOptions,
+  ): Promise<Invitation | null> {
+    if (options.token) {
+      const invitation = await this.prisma.invitation.findFirst({
+        where: {
+          token: hashToken(options.token),
+          ...this.statusFilter('pending'),
+        },
+      });
+
+      if (
+        !invitation ||
+        invitation.email.toLowerCase() !== email.toLowerCase()
+      ) {
+        throw new BadRequestException('Invalid or expired invitation');
+      }
+
+      return invitation;
+    }
+
+    if (options.emailVerified) {
+      return this.prisma.invitation.findFirst({
+        where: {
+          email: { equals: email, mode: 'insensitive' },
+          ...this.statusFilter('pending'),
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+    }
+
+    return null;
+  }
+
+  private statusFilter(status: InvitationStatus): Prisma.InvitationWhereInput {
+    switch (status) {
+      case 'pending':
+        return {
+          acceptedAt: null,
+          revokedAt: null,
+          expiresAt: { gt: new Date() },
+        };
+      case 'accepted':
+        return { acceptedAt: { not: null } };
+      case 'revoked':
+        return { revokedAt: { not: null } };
+      case 'expired':
+        return {
+          acceptedAt: null,
+          revokedAt: null,
+          expiresAt: { lte: new Date() },
+        };
+    }
+  }
+
+  private toResponse(invitation: Invitation): InvitationResponseDto {
+    let status: InvitationStatus = 'pending';
+
+    if (invitation.acceptedAt) {
+      status = 'accepted';
+    } else if (invitation.revokedAt) {
+      status = 'revoked';
+    } else if (invitation.expiresAt <= new Date()) {
+      status = 'expired';
+    }
+
+    return {
+      id: invitation.id,
+      email: invitation.email,
+      role: invitation.role,
+      status,
+      invitedById: invitation.invitedById,
+      acceptedById: invitation.acceptedById,
+      expiresAt: invitation.expiresAt,
+      acceptedAt: invitation.acceptedAt,
+      revokedAt: invitation.revokedAt,
+      createdAt: invitation.createdAt,
+    };
+  }
+}
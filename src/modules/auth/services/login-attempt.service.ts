@@ -0,0 +1,208 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedisService } from '../../../database/redis.service';
+import { AccountLockedException } from '../../../common/exceptions/account-locked.exception';
+import { TooManyLoginAttemptsException } from '../../../common/exceptions/too-many-login-attempts.exception';
+import { sleep } from '../../../utils/helpers';
+
+/**
+ * Tracks failed logins per account (email) and per IP address in Redis.
+ * Counters are keyed by email rather than user ID so that unknown addresses
+ * are locked the same way and lockouts don't reveal which accounts exist.
+ *
+ * The lock applies to an account from one IP address, so guessing from
+ * elsewhere can't lock the owner out. Failures spread over many IP addresses
+ * still lock the whole account once they reach a much higher account-wide
+ * limit; the owner can lift that lock with the emailed unlock link.
+ */
+@Injectable()
+export class LoginAttemptService {
+  private readonly logger = new Logger(LoginAttemptService.name);
+  private readonly maxAttempts: number;
+  private readonly ipMaxAttempts: number;
+  private readonly accountMaxAttempts: number;
+  private readonly window: number;
+  private readonly lockoutDuration: number;
+
+  constructor(
+    private redisService: RedisService,
+    private configService: ConfigService,
+  ) {
+    this.maxAttempts = this.configService.get<number>(
+      'auth.lockout.maxAttempts',
+      5,
+    );
+    this.ipMaxAttempts = this.configService.get<number>(
+      'auth.lockout.ipMaxAttempts',
+      20,
+    );
+    this.accountMaxAttempts = this.configService.get<number>(
+      'auth.lockout.accountMaxAttempts',
+      50,
+    );
+    this.window = this.configService.get<number>('auth.lockout.window', 900);
+    this.lockoutDuration = this.configService.get<number>(
+      'auth.lockout.duration',
+      900,
+    );
+  }
+
+  /**
+   * Throw if the account is locked, for this IP address or everywhere, or
+   * the IP address is blocked
+   */
+  async assertNotLocked(email: string, ipAddress?: string): Promise<void> {
+    const lockedUntil = await this.getLockedUntil(email, ipAddress);
+
+    if (lockedUntil) {
+      throw new AccountLockedException(lockedUntil);
+    }
+
+    if (ipAddress) {
+      const ipFailures = await this.redisService.get(
+        `login-failures-ip:${ipAddress}`,
+      );
+
+      if (Number(ipFailures) >= this.ipMaxAttempts) {
+        const retryAfter = await this.redisService.ttl(
+          `login-failures-ip:${ipAddress}`,
+        );
+        throw new TooManyLoginAttemptsException(Math.max(retryAfter, 1));
+      }
+    }
+  }
+
+  /**
+   * Record a failed login, slowing down repeated failures.
+   * Returns true when this failure locked the account, for the IP address
+   * or everywhere.
+   */
+  async recordFailure(email: string, ipAddress?: string): Promise<boolean> {
+    const key = this.normalize(email);
+    const lockKey = this.lockKey(email, ipAddress);
+
+    const [failures, sourceFailures] = await Promise.all([
+      this.redisService.incr(`login-failures:${key}`, this.window),
+      this.redisService.incr(
+        `login-failures:${this.sourceKey(email, ipAddress)}`,
+        this.window,
+      ),
+      ipAddress
+        ? this.redisService.incr(`login-failures-ip:${ipAddress}`, this.window)
+        : Promise.resolve(0),
+    ]);
+
+    if (failures >= this.accountMaxAttempts) {
+      await this.redisService.set(
+        this.accountLockKey(email),
+        '1',
+        this.lockoutDuration,
+      );
+      await this.redisService.del(`login-failures:${key}`);
+
+      this.logger.warn(
+        `[SECURITY] Account ${key} locked from every IP address after ${failures} failed login attempts`,
+      );
+      return true;
+    }
+
+    if (sourceFailures >= this.maxAttempts) {
+      await this.redisService.set(lockKey, '1', this.lockoutDuration);
+      await this.redisService.del(
+        `login-failures:${this.sourceKey(email, ipAddress)}`,
+      );
+
+      this.logger.warn(
+        `[SECURITY] Account ${key} locked for ${ipAddress ?? 'unknown IP'} after ${sourceFailures} failed login attempts`,
+      );
+      return true;
+    }
+
+    // Progressive delay: 1s, 2s, 4s ... capped at 8s, from the third failure
+    // on the account from any IP address
+    if (failures >= 3) {
+      await sleep(Math.min(1000 * 2 ** (failures - 3), 8000));
+    }
+
+    return false;
+  }
+
+  /**
+   * Reset the failure counters after a successful login
+   */
+  async clearFailures(email: string, ipAddress?: string): Promise<void> {
+    await Promise.all([
+      this.redisService.del(`login-failures:${this.normalize(email)}`),
+      this.redisService.del(
+        `login-failures:${this.sourceKey(email, ipAddress)}`,
+      ),
+    ]);
+  }
+
+  /**
+   * Lift every lockout of the account
+   */
+  async unlock(email: string): Promise<void> {
+    const key = this.normalize(email);
+    const pattern = this.escapePattern(key);
+
+    const keys = [
+      `login-failures:${key}`,
+      this.accountLockKey(email),
+      ...(await this.redisService.scan(`login-lock:${pattern}:*`)),
+      ...(await this.redisService.scan(`login-failures:${pattern}:*`)),
+    ];
+
+    await Promise.all(keys.map((lockKey) => this.redisService.del(lockKey)));
+  }
+
+  /**
+   * Lockout expiry for the account from this IP address, if locked
+   */
+  async getLockedUntil(
+    email: string,
+    ipAddress?: string,
+  ): Promise<Date | null> {
+    const lockTtl = Math.max(
+      ...(await Promise.all([
+        this.redisService.ttl(this.lockKey(email, ipAddress)),
+        this.redisService.ttl(this.accountLockKey(email)),
+      ])),
+    );
+
+    return lockTtl > 0 ? new Date(Date.now() + lockTtl * 1000) : null;
+  }
+
+  /**
+   * Whether to send an unlock email for a new lockout; at most one is sent
+   * per lockout duration so lockouts can't be used to flood an inbox
+   */
+  async claimUnlockEmail(email: string): Promise<boolean> {
+    return this.redisService.setIfAbsent(
+      `login-unlock-email:${this.normalize(email)}`,
+      '1',
+      this.lockoutDuration,
+    );
+  }
+
+  private lockKey(email: string, ipAddress?: string): string {
+    return `login-lock:${this.sourceKey(email, ipAddress)}`;
+  }
+
+  private accountLockKey(email: string): string {
+    return `login-lock:${this.normalize(email)}`;
+  }
+
+  private sourceKey(email: string, ipAddress?: string): string {
+    return `${this.normalize(email)}:${ipAddress ?? 'unknown'}`;
+  }
+
+  private normalize(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
+  // Emails may contain glob characters
+  private escapePattern(value: string): string {
+    return value.replace(/[*?[\]\\]/g, '\\$&');
+  }
+}
@@ -0,0 +1,390 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  UnauthorizedException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { PrismaService } from '../../../database/prisma.service';
+import { RedisService } from '../../../database/redis.service';
+import { generateToken } from '../../../utils/helpers';
+import { OAuthProfile, OAuthProvider } from '../types/oauth.type';
+import { OidcProvider, OidcProviderOptions } from '../oauth/oidc.provider';
+import {
+  GithubProvider,
+  GithubProviderOptions,
+} from '../oauth/github.provider';
+import { LinkedAccountResponseDto } from '../dto/oauth-response.dto';
+import { InvitationsService } from './invitations.service';
+
+interface OAuthState {
+  provider: string;
+  codeVerifier: string;
+  // Set when a signed-in user is linking another provider
+  userId?: string;
+}
+
+const LOGIN_USER_SELECT = {
+  id: true,
+  email: true,
+  firstName: true,
+  lastName: true,
+  role: true,
+  isActive: true,
+  twoFactorEnabled: true,
+};
+
+@Injectable()
+export class OAuthService {
+  private readonly logger = new Logger(OAuthService.name);
+  private readonly providers = new Map<string, OAuthProvider>();
+
+  constructor(
+    private prisma: PrismaService,
+    private redisService: RedisService,
+    private configService: ConfigService,
+    private invitationsService: InvitationsService,
+  ) {
+    // Providers are enabled by configuring their client credentials
+    const google =
+      this.configService.get<Partial<OidcProviderOptions>>('auth.oauth.google');
+    if (google?.issuer && google.clientId && google.clientSecret) {
+      this.providers.set(
+        'google',
+        new OidcProvider({
+          name: 'google',
+          issuer: google.issuer,
+          clientId: google.clientId,
+          clientSecret: google.clientSecret,
+        }),
+      );
+    }
+
+    const github =
+      this.configService.get<Partial<GithubProviderOptions>>(
+        'auth.oauth.github',
+      );
+    if (
+      github?.clientId &&
+      github.clientSecret &&
+      github.baseUrl &&
+      github.apiUrl
+    ) {
+      this.providers.set(
+        'github',
+        new GithubProvider({
+          clientId: github.clientId,
+          clientSecret: github.clientSecret,
+          baseUrl: github.baseUrl,
+          apiUrl: github.apiUrl,
+        }),
+      );
+    }
+  }
+
+  /**
+   * Names of the configured providers
+   */
+  getEnabledProviders(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  /**
+   * Build the provider authorization URL and remember the state in Redis
+   */
+  async getAuthorizationUrl(
+    providerName: string,
+    userId?: string,
+  ): Promise<string> {
+    const provider = this.getProvider(providerName);
+
+    const state = generateToken(32);
+    const codeVerifier = crypto.randomBytes(32).toString('base64url');
+    const codeChallenge = crypto
+      .createHash('sha256')
+      .update(codeVerifier)
+      .digest('base64url');
+
+    const oauthState: OAuthState = {
+      provider: provider.name,
+      codeVerifier,
+      userId,
+    };
+
+    await this.redisService.set(
+      `oauth-state:${state}`,
+      JSON.stringify(oauthState),
+      this.configService.get<number>('auth.oauth.stateTtl', 600),
+    );
+
+    return provider.getAuthorizationUrl({
+      state,
+      codeChallenge,
+      redirectUri: this.getRedirectUri(provider.name),
+    });
+  }
+
+  /**
+   * Exchange the authorization code and find, link or create the user
+   */
+  async resolveUser(providerName: string, code: string, state: string) {
+    const { provider, profile, oauthState } = await this.exchangeCode(
+      providerName,
+      code,
+      state,
+    );
+
+    // Linking must be finished by the signed-in user who started it, see
+    // completeLink; otherwise anyone could be tricked into attaching their
+    // provider account to someone else's user
+    if (oauthState.userId) {
+      throw new UnauthorizedException(
+        'This authorization links an account; complete it while signed in',
+      );
+    }
+
+    return this.findOrCreateUser(provider, profile);
+  }
+
+  /**
+   * Finish linking a provider account to the signed-in user who started it
+   */
+  async completeLink(
+    providerName: string,
+    code: string,
+    state: string,
+    userId: string,
+  ): Promise<LinkedAccountResponseDto[]> {
+    const { provider, profile, oauthState } = await this.exchangeCode(
+      providerName,
+      code,
+      state,
+      userId,
+    );
+
+    await this.findOrCreateUser(provider, profile, oauthState.userId);
+
+    return this.listAccounts(userId);
+  }
+
+  /**
+   * List external accounts linked to a user
+   */
+  async listAccounts(userId: string): Promise<LinkedAccountResponseDto[]> {
+    return this.prisma.account.findMany({
+      where: { userId },
+      select: { provider: true, email: true, createdAt: true },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Unlink an external account, keeping at least one way to sign in
+   */
+  async unlinkAccount(userId: string, providerName: string): Promise<void> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        password: true,
+        accounts: { select: { id: true, provider: true } },
+      },
+    });
+
+    const account = user?.accounts.find(
+      (linked) => linked.provider === providerName,
+    );
+
+    if (!user || !account) {
+      throw new NotFoundException('Linked account not found');
+    }
+
+    if (!user.password && user.accounts.length === 1) {
+      throw new BadRequestException(
+        'Set a password before unlinking your only sign-in method',
+      );
+    }
+
+    await this.prisma.account.delete({ where: { id: account.id } });
+  }
+
+  private async findOrCreateUser(
+    provider: string,
+    profile: OAuthProfile,
+    linkUserId?: string,
+  ) {
+    const existingAccount = await this.prisma.account.findUnique({
+      where: {
+        provider_providerAccountId: {
+          provider,
+          providerAccountId: profile.providerAccountId,
+        },
+      },
+      select: { user: { select: LOGIN_USER_SELECT } },
+    });
+
+    if (existingAccount) {
+      if (linkUserId && existingAccount.user.id !== linkUserId) {
+        throw new ConflictException(
+          `This ${provider} account is already linked to another user`,
+        );
+      }
+
+      return existingAccount.user;
+    }
+
+    if (linkUserId) {
+      return this.linkAccount(linkUserId, provider, profile);
+    }
+
+    // Only a verified address proves ownership of a matching local account
+    if (!profile.email || !profile.emailVerified) {
+      throw new UnauthorizedException(
+        `Your ${provider} account has no verified email address`,
+      );
+    }
+
+    const user = await this.prisma.user.findFirst({
+      where: { email: { equals: profile.email, mode: 'insensitive' } },
+      select: { ...LOGIN_USER_SELECT, emailVerified: true },
+    });
+
+    if (user) {
+      // Linking to an unverified local account would let whoever registered
+      // the address first keep access through their password
+      if (!user.emailVerified) {
+        throw new ConflictException(
+          'An account with this email already exists. Sign in with your password and verify your email before using social login',
+        );
+      }
+
+      return this.linkAccount(user.id, provider, profile);
+    }
+
+    const email = profile.email;
+    const invitation = await this.invitationsService.admitRegistration(email, {
+      emailVerified: true,
+    });
+
+    this.logger.log(`Creating user from ${provider} account: ${profile.email}`);
+
+    return this.prisma.$transaction(async (tx) => {
+      if (invitation) {
+        await this.invitationsService.claimInvitation(invitation.id, tx);
+      }
+
+      return tx.user.create({
+        data: {
+          email,
+          firstName: profile.firstName,
+          lastName: profile.lastName,
+          avatarUrl: profile.avatarUrl,
+          emailVerified: true,
+          ...(invitation && {
+            role: invitation.role,
+            invitation: { connect: { id: invitation.id } },
+          }),
+          accounts: {
+            create: {
+              provider,
+              providerAccountId: profile.providerAccountId,
+              email: profile.email,
+            },
+          },
+        },
+        select: LOGIN_USER_SELECT,
+      });
+    });
+  }
+
+  private async linkAccount(
+    userId: string,
+    provider: string,
+    profile: OAuthProfile,
+  ) {
+    this.logger.log(`Linking ${provider} account to user: ${userId}`);
+
+    const account = await this.prisma.account.create({
+      data: {
+        provider,
+        providerAccountId: profile.providerAccountId,
+        email: profile.email,
+        userId,
+      },
+      select: { user: { select: LOGIN_USER_SELECT } },
+    });
+
+    return account.user;
+  }
+
+  private getProvider(name: string): OAuthProvider {
+    const provider = this.providers.get(name);
+
+    if (!provider) {
+      throw new NotFoundException(`Sign-in provider '${name}' is not enabled`);
+    }
+
+    return provider;
+  }
+
+  /**
+   * Consume the single-use state and exchange the code for the profile.
+   * With `userId`, the state must belong to a link started by that user.
+   */
+  private async exchangeCode(
+    providerName: string,
+    code: string,
+    state: string,
+    userId?: string,
+  ) {
+    const provider = this.getProvider(providerName);
+
+    const stateKey = `oauth-state:${state}`;
+    const storedState = await this.redisService.get(stateKey);
+
+    if (!storedState) {
+      throw new UnauthorizedException('Invalid or expired OAuth state');
+    }
+
+    const oauthState = JSON.parse(storedState) as OAuthState;
+
+    if (
+      oauthState.provider !== provider.name ||
+      (userId !== undefined && oauthState.userId !== userId)
+    ) {
+      throw new UnauthorizedException('Invalid or expired OAuth state');
+    }
+
+    // State is single-use
+    await this.redisService.del(stateKey);
+
+    let profile: OAuthProfile;
+    try {
+      profile = await provider.getProfile({
+        code,
+        codeVerifier: oauthState.codeVerifier,
+        redirectUri: this.getRedirectUri(provider.name),
+      });
+    } catch (error) {
+      this.logger.error(
+        `OAuth code exchange with ${provider.name} failed`,
+        error instanceof Error ? error.stack : undefined,
+      );
+      throw new UnauthorizedException(
+        `Could not complete sign-in with ${provider.name}`,
+      );
+    }
+
+    return { provider: provider.name, profile, oauthState };
+  }
+
+  private getRedirectUri(provider: string): string {
+    const callbackUrl = this.configService.getOrThrow<string>(
+      'auth.oauth.callbackUrl',
+    );
+
+    return `${callbackUrl.replace(/\/$/, '')}/${provider}/callback`;
+  }
+}
@@ -0,0 +1,90 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  PASSWORD_HASH_ALGORITHMS,
+  PasswordHashAlgorithm,
+  PasswordHasher,
+} from '../types/password-hasher.type';
+import { BcryptHasher } from '../hashers/bcrypt.hasher';
+import { Argon2Hasher, Argon2HasherOptions } from '../hashers/argon2.hasher';
+
+/**
+ * Hashes passwords with the configured algorithm and verifies hashes from
+ * any supported one, so stored hashes can be upgraded as users log in
+ */
+@Injectable()
+export class PasswordHasherService {
+  private readonly logger = new Logger(PasswordHasherService.name);
+  private readonly hashers = new Map<PasswordHashAlgorithm, PasswordHasher>();
+  private readonly preferred: PasswordHasher;
+
+  constructor(private configService: ConfigService) {
+    this.hashers.set(
+      'bcrypt',
+      new BcryptHasher({
+        cost: this.configService.get<number>(
+          'auth.passwordHashing.bcryptCost',
+          12,
+        ),
+      }),
+    );
+    this.hashers.set(
+      'argon2id',
+      new Argon2Hasher(
+        this.configService.getOrThrow<Argon2HasherOptions>(
+          'auth.passwordHashing.argon2',
+        ),
+      ),
+    );
+
+    const algorithm = this.configService.get<string>(
+      'auth.passwordHashing.algorithm',
+      'argon2id',
+    );
+
+    const preferred = this.hashers.get(algorithm as PasswordHashAlgorithm);
+
+    if (!preferred) {
+      throw new Error(
+        `Unsupported PASSWORD_HASH_ALGORITHM "${algorithm}", use one of: ${PASSWORD_HASH_ALGORITHMS.join(', ')}`,
+      );
+    }
+
+    this.preferred = preferred;
+  }
+
+  /**
+   * Hash a password with the configured algorithm
+   */
+  hash(password: string): Promise<string> {
+    return this.preferred.hash(password);
+  }
+
+  /**
+   * Check a password against a hash from any supported algorithm
+   */
+  async verify(password: string, hash: string): Promise<boolean> {
+    const hasher = this.getHasher(hash);
+
+    if (!hasher) {
+      this.logger.warn('Password hash in an unsupported format');
+      return false;
+    }
+
+    return hasher.verify(password, hash);
+  }
+
+  /**
+   * Whether the hash should be replaced, because it uses another algorithm
+   * or outdated parameters
+   */
+  needsRehash(hash: string): boolean {
+    const hasher = this.getHasher(hash);
+
+    return hasher !== this.preferred || this.preferred.needsRehash(hash);
+  }
+
+  private getHasher(hash: string): PasswordHasher | undefined {
+    return [...this.hashers.values()].find((hasher) => hasher.identifies(hash));
+  }
+}
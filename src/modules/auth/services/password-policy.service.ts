@@ -0,0 +1,303 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { existsSync, promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  PasswordPolicyException,
+  PasswordPolicyViolation,
+} from '../../../common/exceptions/password-policy.exception';
+import {
+  PasswordPolicy,
+  PasswordPolicySubject,
+} from '../types/password-policy.type';
+import { PasswordHasherService } from './password-hasher.service';
+
+// Length of the SHA-1 prefix naming each range file (as in the Have I Been
+// Pwned range API)
+const HASH_PREFIX_LENGTH = 5;
+
+// Name or email fragments shorter than this are too common to reject
+const MIN_PERSONAL_FRAGMENT_LENGTH = 3;
+
+/**
+ * Central password rules for register, reset and change-password.
+ * Every rule is checked so that clients can show all violations at once.
+ */
+@Injectable()
+export class PasswordPolicyService implements OnModuleInit {
+  private readonly logger = new Logger(PasswordPolicyService.name);
+  private readonly policy: PasswordPolicy;
+  // Directory of <PREFIX>.txt range files
+  private breachedRangesDir?: string;
+
+  constructor(
+    private configService: ConfigService,
+    private passwordHasherService: PasswordHasherService,
+  ) {
+    this.policy = {
+      minLength: this.configService.get<number>(
+        'auth.passwordPolicy.minLength',
+        8,
+      ),
+      maxLength: this.configService.get<number>(
+        'auth.passwordPolicy.maxLength',
+        128,
+      ),
+      requireUppercase: this.configService.get<boolean>(
+        'auth.passwordPolicy.requireUppercase',
+        true,
+      ),
+      requireLowercase: this.configService.get<boolean>(
+        'auth.passwordPolicy.requireLowercase',
+        true,
+      ),
+      requireDigit: this.configService.get<boolean>(
+        'auth.passwordPolicy.requireDigit',
+        false,
+      ),
+      requireSymbol: this.configService.get<boolean>(
+        'auth.passwordPolicy.requireSymbol',
+        false,
+      ),
+      minCharacterClasses: this.configService.get<number>(
+        'auth.passwordPolicy.minCharacterClasses',
+        3,
+      ),
+      disallowPersonalInfo: this.configService.get<boolean>(
+        'auth.passwordPolicy.disallowPersonalInfo',
+        true,
+      ),
+      historySize: this.configService.get<number>(
+        'auth.passwordPolicy.historySize',
+        5,
+      ),
+      breachCheck: false,
+    };
+  }
+
+  onModuleInit() {
+    const dir = this.configService.get<string>(
+      'auth.passwordPolicy.breachedRangesDir',
+    );
+
+    if (!dir) {
+      return;
+    }
+
+    if (!existsSync(dir)) {
+      this.logger.warn(`Breached password ranges ${dir} not found, skipping`);
+      return;
+    }
+
+    this.breachedRangesDir = dir;
+    this.policy.breachCheck = true;
+  }
+
+  /**
+   * Active rules, for clients to display
+   */
+  getPolicy(): PasswordPolicy {
+    return { ...this.policy };
+  }
+
+  /**
+   * Throw with every violated rule if the password is not acceptable
+   */
+  async assertValid(
+    password: string,
+    subject: PasswordPolicySubject,
+  ): Promise<void> {
+    const violations = await this.validate(password, subject);
+
+    if (violations.length > 0) {
+      throw new PasswordPolicyException(violations);
+    }
+  }
+
+  /**
+   * Check a password against every rule
+   */
+  async validate(
+    password: string,
+    subject: PasswordPolicySubject,
+  ): Promise<PasswordPolicyViolation[]> {
+    const violations: PasswordPolicyViolation[] = [];
+    const { policy } = this;
+
+    if (password.length < policy.minLength) {
+      violations.push({
+        rule: 'minLength',
+        message: `Password must be at least ${policy.minLength} characters long`,
+      });
+    }
+
+    if (password.length > policy.maxLength) {
+      violations.push({
+        rule: 'maxLength',
+        message: `Password must be at most ${policy.maxLength} characters long`,
+      });
+    }
+
+    const characterClasses = {
+      uppercase: /[A-Z]/.test(password),
+      lowercase: /[a-z]/.test(password),
+      digit: /\d/.test(password),
+      symbol: /[^A-Za-z\d]/.test(password),
+    };
+
+    if (policy.requireUppercase && !characterClasses.uppercase) {
+      violations.push({
+        rule: 'uppercase',
+        message: 'Password must contain an uppercase letter',
+      });
+    }
+
+    if (policy.requireLowercase && !characterClasses.lowercase) {
+      violations.push({
+        rule: 'lowercase',
+        message: 'Password must contain a lowercase letter',
+      });
+    }
+
+    if (policy.requireDigit && !characterClasses.digit) {
+      violations.push({
+        rule: 'digit',
+        message: 'Password must contain a number',
+      });
+    }
+
+    if (policy.requireSymbol && !characterClasses.symbol) {
+      violations.push({
+        rule: 'symbol',
+        message: 'Password must contain a special character',
+      });
+    }
+
+    if (
+      Object.values(characterClasses).filter(Boolean).length <
+      policy.minCharacterClasses
+    ) {
+      violations.push({
+        rule: 'characterClasses',
+        message: `Password must contain at least ${policy.minCharacterClasses} of: uppercase letters, lowercase letters, numbers, special characters`,
+      });
+    }
+
+    if (
+      policy.disallowPersonalInfo &&
+      this.containsPersonalInfo(password, subject)
+    ) {
+      violations.push({
+        rule: 'personalInfo',
+        message: 'Password must not contain your name or email address',
+      });
+    }
+
+    if (await this.matchesHistory(password, subject)) {
+      violations.push({
+        rule: 'history',
+        message: `Password must not match any of your last ${policy.historySize} passwords`,
+      });
+    }
+
+    if (await this.isBreached(password)) {
+      violations.push({
+        rule: 'breached',
+        message:
+          'Password has appeared in a data breach, please choose another one',
+      });
+    }
+
+    return violations;
+  }
+
+  /**
+   * Password history to store once the subject's password is replaced
+   */
+  nextHistory(subject: PasswordPolicySubject): string[] {
+    // The new password counts as one of the last N
+    return [subject.password, ...(subject.passwordHistory ?? [])]
+      .filter((hash): hash is string => !!hash)
+      .slice(0, Math.max(this.policy.historySize - 1, 0));
+  }
+
+  /**
+   * Whether the password's SHA-1 hash is in the breached ranges.
+   * Only the range file of the hash prefix is read, like the k-anonymity
+   * range API; its lines are SUFFIX:COUNT.
+   */
+  async isBreached(password: string): Promise<boolean> {
+    if (!this.breachedRangesDir) {
+      return false;
+    }
+
+    const hash = createHash('sha1')
+      .update(password)
+      .digest('hex')
+      .toUpperCase();
+    const suffix = hash.slice(HASH_PREFIX_LENGTH);
+
+    let range: string;
+    try {
+      range = await fs.readFile(
+        path.join(
+          this.breachedRangesDir,
+          `${hash.slice(0, HASH_PREFIX_LENGTH)}.txt`,
+        ),
+        'utf8',
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+
+    return range
+      .split('\n')
+      .some((line) => line.split(':')[0].trim().toUpperCase() === suffix);
+  }
+
+  private containsPersonalInfo(
+    password: string,
+    subject: PasswordPolicySubject,
+  ): boolean {
+    const [localPart = '', domain = ''] = subject.email
+      .toLowerCase()
+      .split('@');
+
+    const fragments = [
+      localPart,
+      ...localPart.split(/[._+-]/),
+      domain.split('.')[0],
+      subject.firstName?.toLowerCase(),
+      subject.lastName?.toLowerCase(),
+    ].filter(
+      (fragment): fragment is string =>
+        !!fragment && fragment.length >= MIN_PERSONAL_FRAGMENT_LENGTH,
+    );
+
+    const normalizedPassword = password.toLowerCase();
+
+    return fragments.some((fragment) => normalizedPassword.includes(fragment));
+  }
+
+  private async matchesHistory(
+    password: string,
+    subject: PasswordPolicySubject,
+  ): Promise<boolean> {
+    const hashes = [subject.password, ...(subject.passwordHistory ?? [])]
+      .filter((hash): hash is string => !!hash)
+      .slice(0, this.policy.historySize);
+
+    // One at a time, each verification is deliberately expensive
+    for (const hash of hashes) {
+      if (await this.passwordHasherService.verify(password, hash)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+}
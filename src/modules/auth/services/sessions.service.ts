@@ -0,0 +1,83 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../../../database/prisma.service';
+import { SessionResponseDto } from '../dto/session-response.dto';
+import { TokenRevocationService } from './token-revocation.service';
+
+/**
+ * A session is a refresh token family: every token rotated from one login.
+ * Only the latest (non-rotated) token of a family is active.
+ */
+@Injectable()
+export class SessionsService {
+  constructor(
+    private prisma: PrismaService,
+    private tokenRevocationService: TokenRevocationService,
+  ) {}
+
+  /**
+   * List active sessions for a user
+   */
+  async listSessions(
+    userId: string,
+    currentSessionId?: string,
+  ): Promise<SessionResponseDto[]> {
+    const tokens = await this.prisma.refreshToken.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+
+    return tokens.map((token) => ({
+      id: token.familyId,
+      userAgent: token.userAgent,
+      ipAddress: token.ipAddress,
+      lastUsedAt: token.lastUsedAt,
+      expiresAt: token.expiresAt,
+      current: token.familyId === currentSessionId,
+    }));
+  }
+
+  /**
+   * Revoke a single session
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const { count } = await this.prisma.refreshToken.deleteMany({
+      where: { userId, familyId: sessionId },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('Session not found');
+    }
+
+    await this.tokenRevocationService.revokeSession(sessionId);
+  }
+
+  /**
+   * Revoke every session except the current one
+   */
+  async revokeOtherSessions(
+    userId: string,
+    currentSessionId: string,
+  ): Promise<{ revoked: number }> {
+    const sessions = await this.prisma.refreshToken.findMany({
+      where: { userId, familyId: { not: currentSessionId } },
+      distinct: ['familyId'],
+      select: { familyId: true },
+    });
+
+    await this.prisma.refreshToken.deleteMany({
+      where: { userId, familyId: { not: currentSessionId } },
+    });
+
+    await Promise.all(
+      sessions.map((session) =>
+        this.tokenRevocationService.revokeSession(session.familyId),
+      ),
+    );
+
+    return { revoked: sessions.length };
+  }
+}
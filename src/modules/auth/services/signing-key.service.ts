@@ -0,0 +1,396 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  Logger,
+  OnModuleInit,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService, JwtSignOptions } from '@nestjs/jwt';
+import {
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  JsonWebKey,
+} from 'crypto';
+import { PrismaService } from '../../../database/prisma.service';
+import { RedisService } from '../../../database/redis.service';
+import { sleep } from '../../../utils/helpers';
+import { JwtPayload } from '../types/jwt-payload.type';
+
+export const ASYMMETRIC_ALGORITHMS = ['RS256', 'ES256'] as const;
+export type AsymmetricAlgorithm = (typeof ASYMMETRIC_ALGORITHMS)[number];
+
+interface LoadedKey {
+  kid: string;
+  algorithm: AsymmetricAlgorithm;
+  // PEM strings - @nestjs/jwt only takes per-call keys as strings
+  publicKey: string;
+  privateKey: string;
+  retiredAt: Date | null;
+  createdAt: Date;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+// How long other instances may keep using a stale key list
+const CACHE_TTL = 60 * 1000;
+// Held by the one instance rotating the key
+const ROTATION_LOCK_KEY = 'signing-key-rotation';
+const ROTATION_LOCK_TTL = 60;
+
+/**
+ * Signs access tokens and resolves verification keys.
+ * With HS256 the shared JWT secret is used. With RS256/ES256 key pairs are
+ * kept in the database, rotated on a schedule and published as a JWKS;
+ * retired keys keep verifying tokens until their retention period ends.
+ */
+@Injectable()
+export class SigningKeyService implements OnModuleInit {
+  private readonly logger = new Logger(SigningKeyService.name);
+  private readonly algorithm: string;
+  private keys: LoadedKey[] = [];
+  private loadedAt = 0;
+
+  constructor(
+    private prisma: PrismaService,
+    private jwtService: JwtService,
+    private configService: ConfigService,
+    private redisService: RedisService,
+  ) {
+    this.algorithm = this.configService.get<string>('jwt.algorithm', 'HS256');
+
+    if (this.algorithm !== 'HS256' && !this.isAsymmetric(this.algorithm)) {
+      throw new Error(`Unsupported JWT algorithm: ${this.algorithm}`);
+    }
+
+    if (
+      this.isAsymmetric(this.algorithm) &&
+      !this.configService.get<string>('jwt.keyPassphrase')
+    ) {
+      throw new Error(
+        `JWT_KEY_PASSPHRASE is required to store ${this.algorithm} signing keys`,
+      );
+    }
+  }
+
+  async onModuleInit() {
+    if (this.isAsymmetric(this.algorithm)) {
+      await this.getActiveKey();
+    }
+  }
+
+  /**
+   * Sign an access token with the current key
+   */
+  async signAccessToken(
+    payload: JwtPayload,
+    jwtid: string,
+    expiresIn: JwtSignOptions['expiresIn'] = this.configService.getOrThrow<
+      JwtSignOptions['expiresIn']
+    >('jwt.expiresIn'),
+  ): Promise<string> {
+    const claims: JwtPayload = { ...payload, iatMs: Date.now() };
+
+    if (!this.isAsymmetric(this.algorithm)) {
+      return this.jwtService.signAsync(claims, {
+        jwtid,
+        secret: this.configService.getOrThrow<string>('jwt.secret'),
+        expiresIn,
+      });
+    }
+
+    const key = await this.getActiveKey();
+
+    return this.jwtService.signAsync(claims, {
+      jwtid,
+      algorithm: key.algorithm,
+      keyid: key.kid,
+      secret: key.privateKey,
+      expiresIn,
+    });
+  }
+
+  /**
+   * Verify an access token signed by this service
+   */
+  async verifyAccessToken(token: string): Promise<JwtPayload> {
+    return this.jwtService.verifyAsync<JwtPayload>(token, {
+      secret: await this.getVerificationKey(token),
+    });
+  }
+
+  /**
+   * Resolve the key for a token from its header: the key named by `kid`,
+   * or the shared secret for tokens without one. Only the configured
+   * algorithm is accepted, plus HS256 during a configured transition.
+   */
+  async getVerificationKey(token: string): Promise<string> {
+    const decoded = this.jwtService.decode<{
+      header?: { kid?: string; alg?: string };
+    } | null>(token, { complete: true });
+    const header = decoded?.header;
+
+    if (header?.kid && this.isAsymmetric(this.algorithm)) {
+      const key = await this.findKey(header.kid);
+
+      if (
+        !key ||
+        key.algorithm !== this.algorithm ||
+        key.algorithm !== header.alg
+      ) {
+        throw new UnauthorizedException('Unknown signing key');
+      }
+
+      return key.publicKey;
+    }
+
+    if (
+      !header?.kid &&
+      header?.alg === 'HS256' &&
+      (this.algorithm === 'HS256' || this.acceptsLegacyHs256())
+    ) {
+      return this.configService.getOrThrow<string>('jwt.secret');
+    }
+
+    throw new UnauthorizedException('Unsupported token signature');
+  }
+
+  /**
+   * Public keys that may have signed a still-valid access token
+   */
+  async getJwks(): Promise<{ keys: JsonWebKey[] }> {
+    await this.loadKeys();
+
+    return {
+      keys: this.keys.map((key) => ({
+        ...createPublicKey(key.publicKey).export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.algorithm,
+        use: 'sig',
+      })),
+    };
+  }
+
+  /**
+   * Retire the current key and start signing with a new one
+   */
+  async rotateKeys(): Promise<{ kid: string }> {
+    if (!this.isAsymmetric(this.algorithm)) {
+      throw new BadRequestException(
+        'Key rotation requires an asymmetric JWT algorithm',
+      );
+    }
+
+    const key = await this.withRotationLock(() =>
+      this.rotate(this.algorithm as AsymmetricAlgorithm),
+    );
+
+    if (!key) {
+      throw new ConflictException('A key rotation is already in progress');
+    }
+
+    return { kid: key.kid };
+  }
+
+  /**
+   * The key to sign with, rotating it when due. Only the instance holding
+   * the rotation lock rotates; the others keep signing with the key they
+   * have, which stays valid after it is retired.
+   */
+  private async getActiveKey(): Promise<LoadedKey> {
+    await this.loadKeys();
+
+    const activeKey = this.findActiveKey();
+
+    if (activeKey && !this.isRotationDue(activeKey)) {
+      return activeKey;
+    }
+
+    const rotated = await this.withRotationLock(async () => {
+      // The cached list may predate another instance's rotation
+      await this.loadKeys(true);
+      const current = this.findActiveKey();
+
+      return current && !this.isRotationDue(current)
+        ? current
+        : this.rotate(this.algorithm as AsymmetricAlgorithm);
+    });
+
+    if (rotated) {
+      return rotated;
+    }
+
+    if (activeKey) {
+      return activeKey;
+    }
+
+    // Another instance is creating the first key
+    for (let attempt = 0; attempt < 20; attempt++) {
+      await sleep(500);
+      await this.loadKeys(true);
+
+      const created = this.findActiveKey();
+      if (created) {
+        return created;
+      }
+    }
+
+    throw new Error('No signing key is available');
+  }
+
+  private findActiveKey(): LoadedKey | undefined {
+    return this.keys.find(
+      (key) => key.algorithm === this.algorithm && !key.retiredAt,
+    );
+  }
+
+  private isRotationDue(key: LoadedKey): boolean {
+    const rotationDays = this.configService.get<number>(
+      'jwt.keyRotationDays',
+      30,
+    );
+
+    return Date.now() - key.createdAt.getTime() > rotationDays * DAY;
+  }
+
+  // Run fn if no other instance is rotating, undefined otherwise
+  private async withRotationLock<T>(
+    fn: () => Promise<T>,
+  ): Promise<T | undefined> {
+    if (
+      !(await this.redisService.setIfAbsent(
+        ROTATION_LOCK_KEY,
+        '1',
+        ROTATION_LOCK_TTL,
+      ))
+    ) {
+      return undefined;
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await this.redisService.del(ROTATION_LOCK_KEY);
+    }
+  }
+
+  private async rotate(algorithm: AsymmetricAlgorithm): Promise<LoadedKey> {
+    const passphrase = this.getPassphrase();
+    const { publicKey, privateKey } =
+      algorithm === 'RS256'
+        ? generateKeyPairSync('rsa', {
+            modulusLength: 2048,
+            publicKeyEncoding: { type: 'spki', format: 'pem' },
+            privateKeyEncoding: {
+              type: 'pkcs8',
+              format: 'pem',
+              cipher: 'aes-256-cbc',
+              passphrase,
+            },
+          })
+        : generateKeyPairSync('ec', {
+            namedCurve: 'P-256',
+            publicKeyEncoding: { type: 'spki', format: 'pem' },
+            privateKeyEncoding: {
+              type: 'pkcs8',
+              format: 'pem',
+              cipher: 'aes-256-cbc',
+              passphrase,
+            },
+          });
+
+    const retentionDays = this.configService.get<number>(
+      'jwt.keyRetentionDays',
+      7,
+    );
+
+    const [, , signingKey] = await this.prisma.$transaction([
+      this.prisma.signingKey.updateMany({
+        where: { retiredAt: null },
+        data: { retiredAt: new Date() },
+      }),
+      // Retired keys are dropped once every token they signed has expired
+      this.prisma.signingKey.deleteMany({
+        where: {
+          retiredAt: { lt: new Date(Date.now() - retentionDays * DAY) },
+        },
+      }),
+      this.prisma.signingKey.create({
+        data: { algorithm, publicKey, privateKey },
+      }),
+    ]);
+
+    this.logger.log(
+      `Rotated ${algorithm} signing key, new kid: ${signingKey.id}`,
+    );
+
+    await this.loadKeys(true);
+
+    return this.keys.find((key) => key.kid === signingKey.id)!;
+  }
+
+  private async findKey(kid: string): Promise<LoadedKey | undefined> {
+    await this.loadKeys();
+
+    let key = this.keys.find((loaded) => loaded.kid === kid);
+
+    // Another instance may have rotated since the last load
+    if (!key) {
+      await this.loadKeys(true);
+      key = this.keys.find((loaded) => loaded.kid === kid);
+    }
+
+    return key;
+  }
+
+  private async loadKeys(force = false): Promise<void> {
+    if (!force && Date.now() - this.loadedAt < CACHE_TTL) {
+      return;
+    }
+
+    const retentionDays = this.configService.get<number>(
+      'jwt.keyRetentionDays',
+      7,
+    );
+    const signingKeys = await this.prisma.signingKey.findMany({
+      where: {
+        algorithm: { in: [...ASYMMETRIC_ALGORITHMS] },
+        OR: [
+          { retiredAt: null },
+          { retiredAt: { gte: new Date(Date.now() - retentionDays * DAY) } },
+        ],
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const passphrase = this.getPassphrase();
+
+    this.keys = signingKeys.map((signingKey) => ({
+      kid: signingKey.id,
+      algorithm: signingKey.algorithm as AsymmetricAlgorithm,
+      publicKey: signingKey.publicKey,
+      privateKey: createPrivateKey({ key: signingKey.privateKey, passphrase })
+        .export({ type: 'pkcs8', format: 'pem' })
+        .toString(),
+      retiredAt: signingKey.retiredAt,
+      createdAt: signingKey.createdAt,
+    }));
+    this.loadedAt = Date.now();
+  }
+
+  // Tokens signed with the shared secret before switching to key pairs
+  private acceptsLegacyHs256(): boolean {
+    const until = this.configService.get<string>('jwt.hs256AcceptedUntil');
+
+    return !!until && Date.now() < new Date(until).getTime();
+  }
+
+  private getPassphrase(): string {
+    return this.configService.getOrThrow<string>('jwt.keyPassphrase');
+  }
+
+  private isAsymmetric(algorithm: string): algorithm is AsymmetricAlgorithm {
+    return (ASYMMETRIC_ALGORITHMS as readonly string[]).includes(algorithm);
+  }
+}
@@ -0,0 +1,217 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { AuthEventType, Prisma, Suspension } from '@prisma/client';
+import { PrismaService } from '../../../database/prisma.service';
+import { EmailService } from '../../email/email.service';
+import { AccountSuspendedException } from '../../../common/exceptions/account-suspended.exception';
+import { QUEUE_NAMES } from '../../../utils/constants';
+import { TokenRevocationService } from './token-revocation.service';
+import { AuthEventsService } from './auth-events.service';
+
+/**
+ * Suspends accounts for a reason, until a date or until an admin reinstates
+ * them. Suspensions are kept as history; a suspension past its end date no
+ * longer blocks the user, and a delayed job records it as lifted.
+ */
+@Injectable()
+export class SuspensionService {
+  private readonly logger = new Logger(SuspensionService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private emailService: EmailService,
+    private tokenRevocationService: TokenRevocationService,
+    private authEventsService: AuthEventsService,
+    @InjectQueue(QUEUE_NAMES.USER_DATA) private userDataQueue: Queue,
+  ) {}
+
+  /**
+   * Suspend a user and sign them out everywhere, replacing any current
+   * suspension (e.g. to extend it)
+   */
+  async suspend(
+    userId: string,
+    reason: string,
+    until: Date | undefined,
+    actorId: string,
+  ): Promise<Suspension> {
+    if (userId === actorId) {
+      throw new BadRequestException(
+        'You cannot perform this action on your own account',
+      );
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const now = new Date();
+
+    const [, suspension] = await this.prisma.$transaction([
+      this.prisma.suspension.updateMany({
+        where: { userId, liftedAt: null },
+        data: { liftedAt: now, liftedById: actorId },
+      }),
+      this.prisma.suspension.create({
+        data: {
+          userId,
+          reason,
+          endsAt: until,
+          imposedById: actorId,
+        },
+      }),
+    ]);
+
+    await this.prisma.refreshToken.deleteMany({ where: { userId } });
+    await this.tokenRevocationService.revokeAllUserTokens(userId);
+
+    if (until) {
+      await this.userDataQueue.add(
+        'lift-suspension',
+        { suspensionId: suspension.id },
+        {
+          delay: until.getTime() - now.getTime(),
+          attempts: 3,
+          backoff: 60000,
+          removeOnComplete: true,
+        },
+      );
+    }
+
+    await this.authEventsService.record(
+      AuthEventType.ACCOUNT_SUSPENDED,
+      { userId },
+      undefined,
+      {
+        reason,
+        until: until?.toISOString() ?? null,
+        suspendedBy: actorId,
+      },
+    );
+
+    try {
+      await this.emailService.sendAccountSuspendedEmail(
+        user.email,
+        reason,
+        until ?? null,
+      );
+    } catch {
+      this.logger.warn(`Could not send suspension email to ${user.email}`);
+    }
+
+    return suspension;
+  }
+
+  /**
+   * Lift the current suspension (admin only)
+   */
+  async reinstate(userId: string, actorId: string): Promise<Suspension> {
+    const suspension = await this.getActiveSuspension(userId);
+
+    if (!suspension) {
+      throw new BadRequestException('User is not suspended');
+    }
+
+    return this.lift(suspension, actorId);
+  }
+
+  /**
+   * Record a suspension as lifted once its end date has passed
+   */
+  async liftExpired(suspensionId: string): Promise<void> {
+    const suspension = await this.prisma.suspension.findUnique({
+      where: { id: suspensionId },
+    });
+
+    // Reinstated, replaced or extended in the meantime
+    if (
+      !suspension ||
+      suspension.liftedAt ||
+      !suspension.endsAt ||
+      suspension.endsAt > new Date()
+    ) {
+      this.logger.debug(`Suspension ${suspensionId} is not due, skipping`);
+      return;
+    }
+
+    await this.lift(suspension, null);
+  }
+
+  /**
+   * Suspension currently in force, if any
+   */
+  async getActiveSuspension(userId: string): Promise<Suspension | null> {
+    return this.prisma.suspension.findFirst({
+      where: { userId, ...this.activeWhere() },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Throw with the end date if the user is suspended
+   */
+  async assertNotSuspended(userId: string): Promise<void> {
+    const suspension = await this.getActiveSuspension(userId);
+
+    if (suspension) {
+      throw new AccountSuspendedException(suspension.endsAt);
+    }
+  }
+
+  /**
+   * Suspension history of a user, newest first (admin only)
+   */
+  async listSuspensions(userId: string): Promise<Suspension[]> {
+    return this.prisma.suspension.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  private async lift(
+    suspension: Suspension,
+    actorId: string | null,
+  ): Promise<Suspension> {
+    const lifted = await this.prisma.suspension.update({
+      where: { id: suspension.id },
+      data: { liftedAt: new Date(), liftedById: actorId },
+      include: { user: { select: { email: true } } },
+    });
+
+    await this.authEventsService.record(
+      AuthEventType.ACCOUNT_REINSTATED,
+      { userId: suspension.userId },
+      undefined,
+      actorId ? { reinstatedBy: actorId } : { automatic: true },
+    );
+
+    try {
+      await this.emailService.sendAccountReinstatedEmail(lifted.user.email);
+    } catch {
+      this.logger.warn(
+        `Could not send reinstatement email to ${lifted.user.email}`,
+      );
+    }
+
+    const { user: _user, ...result } = lifted;
+    return result;
+  }
+
+  private activeWhere(): Prisma.SuspensionWhereInput {
+    return {
+      liftedAt: null,
+      OR: [{ endsAt: null }, { endsAt: { gt: new Date() } }],
+    };
+  }
+}
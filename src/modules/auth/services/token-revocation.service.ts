@@ -0,0 +1,89 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedisService } from '../../../database/redis.service';
+import { durationToSeconds } from '../../../utils/helpers';
+import { JwtPayload } from '../types/jwt-payload.type';
+
+/**
+ * Redis-backed denylist that lets access tokens be cut off before they expire
+ */
+@Injectable()
+export class TokenRevocationService {
+  // Seconds a revoked token could still be presented: the longest lifetime
+  // of access, refresh and impersonation tokens
+  private readonly revocationTtl: number;
+
+  constructor(
+    private redisService: RedisService,
+    private configService: ConfigService,
+  ) {
+    this.revocationTtl = Math.max(
+      durationToSeconds(this.configService.getOrThrow('jwt.expiresIn')),
+      durationToSeconds(this.configService.getOrThrow('jwt.refreshExpiresIn')),
+      this.configService.get<number>('auth.impersonation.ttl', 900),
+    );
+  }
+
+  /**
+   * Revoke a single access token by its jti until it would have expired
+   */
+  async revokeAccessToken(jti: string, exp: number): Promise<void> {
+    const ttl = exp - Math.floor(Date.now() / 1000);
+
+    if (ttl > 0) {
+      await this.redisService.set(`revoked-token:${jti}`, '1', ttl);
+    }
+  }
+
+  /**
+   * Revoke every access token issued for a session (refresh token family)
+   */
+  async revokeSession(sessionId: string): Promise<void> {
+    await this.redisService.set(
+      `revoked-session:${sessionId}`,
+      '1',
+      this.revocationTtl,
+    );
+  }
+
+  /**
+   * Revoke every access token issued to a user until now (in milliseconds,
+   * so tokens issued earlier in the same second are covered too)
+   */
+  async revokeAllUserTokens(userId: string): Promise<void> {
+    await this.redisService.set(
+      `tokens-valid-after:${userId}`,
+      Date.now().toString(),
+      this.revocationTtl,
+    );
+  }
+
+  /**
+   * Check whether an access token has been revoked
+   */
+  async isRevoked(payload: JwtPayload): Promise<boolean> {
+    const [tokenRevoked, sessionRevoked, validAfter] = await Promise.all([
+      payload.jti
+        ? this.redisService.exists(`revoked-token:${payload.jti}`)
+        : Promise.resolve(0),
+      payload.sid
+        ? this.redisService.exists(`revoked-session:${payload.sid}`)
+        : Promise.resolve(0),
+      this.redisService.get(`tokens-valid-after:${payload.sub}`),
+    ]);
+
+    if (tokenRevoked > 0 || sessionRevoked > 0) {
+      return true;
+    }
+
+    if (validAfter === null) {
+      return false;
+    }
+
+    // Tokens without iatMs only have whole seconds; a token from the same
+    // second as the cutoff counts as revoked
+    const issuedAt = payload.iatMs ?? (payload.iat ?? 0) * 1000;
+
+    return issuedAt <= Number(validAfter);
+  }
+}
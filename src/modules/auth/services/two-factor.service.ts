@@ -0,0 +1,400 @@
+import {
+  Injectable,
+  BadRequestException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { authenticator } from 'otplib';
+import * as QRCode from 'qrcode';
+import * as crypto from 'crypto';
+import { PrismaService } from '../../../database/prisma.service';
+import { RedisService } from '../../../database/redis.service';
+import { generateToken } from '../../../utils/helpers';
+import { ClientInfo } from '../../../common/decorators/client-info.decorator';
+import { AuthEventType } from '@prisma/client';
+import { AuthEventsService } from './auth-events.service';
+
+@Injectable()
+export class TwoFactorService {
+  constructor(
+    private prisma: PrismaService,
+    private redisService: RedisService,
+    private configService: ConfigService,
+    private authEventsService: AuthEventsService,
+  ) {
+    // Accept codes from the previous and next 30s step to tolerate clock drift
+    authenticator.options = { window: 1 };
+  }
+
+  /**
+   * Start TOTP enrollment - the secret stays pending until confirmed
+   */
+  async generateEnrollment(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, twoFactorEnabled: true },
+    });
+
+    if (!user) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    if (user.twoFactorEnabled) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const secret = authenticator.generateSecret();
+    const otpauthUrl = authenticator.keyuri(
+      user.email,
+      this.configService.get<string>('auth.twoFactor.issuer', 'Backend API'),
+      secret,
+    );
+    const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl);
+
+    // Store pending secret in Redis until the user confirms a code
+    await this.redisService.set(
+      `2fa-enrollment:${userId}`,
+      secret,
+      600, // 10 minutes TTL
+    );
+
+    return { secret, otpauthUrl, qrCodeDataUrl };
+  }
+
+  /**
+   * Confirm enrollment with a code from the authenticator app
+   */
+  async confirmEnrollment(
+    userId: string,
+    code: string,
+    clientInfo?: ClientInfo,
+  ) {
+    const secret = await this.redisService.get(`2fa-enrollment:${userId}`);
+
+    if (!secret) {
+      throw new BadRequestException(
+        'No pending two-factor enrollment, please start again',
+      );
+    }
+
+    if (!authenticator.verify({ token: code, secret })) {
+      throw new BadRequestException('Invalid authentication code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: true,
+        twoFactorSecret: secret,
+        twoFactorRecoveryCodes: recoveryCodes.map((recoveryCode) =>
+          this.hashRecoveryCode(recoveryCode),
+        ),
+      },
+    });
+
+    await this.redisService.del(`2fa-enrollment:${userId}`);
+
+    await this.authEventsService.record(
+      AuthEventType.TWO_FACTOR_ENABLED,
+      { userId },
+      clientInfo,
+    );
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Disable two-factor authentication
+   */
+  async disable(
+    userId: string,
+    code: string,
+    clientInfo?: ClientInfo,
+  ): Promise<void> {
+    if (!(await this.verifyCode(userId, code))) {
+      throw new BadRequestException('Invalid authentication code');
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { passkeyTwoFactorEnabled: true },
+    });
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        // Still needed to recover from losing the passkeys
+        ...(!user?.passkeyTwoFactorEnabled && { twoFactorRecoveryCodes: [] }),
+      },
+    });
+
+    await this.authEventsService.record(
+      AuthEventType.TWO_FACTOR_DISABLED,
+      { userId },
+      clientInfo,
+    );
+  }
+
+  /**
+   * Require a passkey as second factor, issuing recovery codes if the user
+   * has none yet so a lost device doesn't lock them out
+   */
+  async enablePasskeySecondFactor(
+    userId: string,
+    clientInfo?: ClientInfo,
+  ): Promise<{ recoveryCodes?: string[] }> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { passkeyTwoFactorEnabled: true, twoFactorRecoveryCodes: true },
+    });
+
+    if (!user || user.passkeyTwoFactorEnabled) {
+      return {};
+    }
+
+    const recoveryCodes =
+      user.twoFactorRecoveryCodes.length === 0
+        ? this.generateRecoveryCodes()
+        : undefined;
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        passkeyTwoFactorEnabled: true,
+        ...(recoveryCodes && {
+          twoFactorRecoveryCodes: recoveryCodes.map((recoveryCode) =>
+            this.hashRecoveryCode(recoveryCode),
+          ),
+        }),
+      },
+    });
+
+    await this.authEventsService.record(
+      AuthEventType.TWO_FACTOR_ENABLED,
+      { userId },
+      clientInfo,
+      { method: 'webauthn' },
+    );
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Stop requiring a passkey, e.g. once the last one is removed
+   */
+  async disablePasskeySecondFactor(
+    userId: string,
+    clientInfo?: ClientInfo,
+  ): Promise<void> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { passkeyTwoFactorEnabled: true, twoFactorEnabled: true },
+    });
+
+    if (!user?.passkeyTwoFactorEnabled) {
+      return;
+    }
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        passkeyTwoFactorEnabled: false,
+        ...(!user.twoFactorEnabled && { twoFactorRecoveryCodes: [] }),
+      },
+    });
+
+    await this.authEventsService.record(
+      AuthEventType.TWO_FACTOR_DISABLED,
+      { userId },
+      clientInfo,
+      { method: 'webauthn' },
+    );
+  }
+
+  /**
+   * Replace all recovery codes with a fresh set
+   */
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string,
+    clientInfo?: ClientInfo,
+  ) {
+    if (!(await this.verifyCode(userId, code))) {
+      throw new BadRequestException('Invalid authentication code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorRecoveryCodes: recoveryCodes.map((recoveryCode) =>
+          this.hashRecoveryCode(recoveryCode),
+        ),
+      },
+    });
+
+    await this.authEventsService.record(
+      AuthEventType.TWO_FACTOR_RECOVERY_CODES_REGENERATED,
+      { userId },
+      clientInfo,
+    );
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Verify a TOTP code or consume a recovery code
+   */
+  async verifyCode(userId: string, code: string): Promise<boolean> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        twoFactorEnabled: true,
+        twoFactorSecret: true,
+        twoFactorRecoveryCodes: true,
+        passkeyTwoFactorEnabled: true,
+      },
+    });
+
+    // Recovery codes also back up passkeys used as the only second factor
+    if (!user || !(user.twoFactorEnabled || user.passkeyTwoFactorEnabled)) {
+      return false;
+    }
+
+    const normalizedCode = code.replace(/[\s-]/g, '');
+
+    if (/^\d{6}$/.test(normalizedCode)) {
+      if (
+        !user.twoFactorEnabled ||
+        !user.twoFactorSecret ||
+        !authenticator.verify({
+          token: normalizedCode,
+          secret: user.twoFactorSecret,
+        })
+      ) {
+        return false;
+      }
+
+      // Reject replay of a code that was already used
+      const usedKey = `2fa-used:${userId}:${normalizedCode}`;
+      if (await this.redisService.exists(usedKey)) {
+        return false;
+      }
+      await this.redisService.set(usedKey, '1', 90);
+
+      return true;
+    }
+
+    const hashedCode = this.hashRecoveryCode(normalizedCode);
+
+    if (!user.twoFactorRecoveryCodes.includes(hashedCode)) {
+      return false;
+    }
+
+    // Recovery codes are single-use
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorRecoveryCodes: user.twoFactorRecoveryCodes.filter(
+          (storedCode) => storedCode !== hashedCode,
+        ),
+      },
+    });
+
+    return true;
+  }
+
+  /**
+   * Issue a short-lived challenge token for the second login step
+   */
+  async createLoginChallenge(userId: string): Promise<string> {
+    const challengeToken = generateToken(32);
+
+    await this.redisService.set(
+      `2fa-challenge:${challengeToken}`,
+      userId,
+      this.configService.get<number>('auth.twoFactor.challengeTtl', 300),
+    );
+
+    return challengeToken;
+  }
+
+  /**
+   * Exchange a challenge token for the user ID once `verify` accepts the
+   * second factor (TOTP code, recovery code or passkey). `onFailure` runs
+   * after each rejected attempt, e.g. to count it towards a lockout.
+   */
+  async completeLoginChallenge(
+    challengeToken: string,
+    verify: (userId: string) => Promise<boolean>,
+    onFailure?: () => Promise<void>,
+  ): Promise<string> {
+    const challengeKey = `2fa-challenge:${challengeToken}`;
+    const userId = await this.redisService.get(challengeKey);
+
+    if (!userId) {
+      throw new UnauthorizedException('Invalid or expired challenge token');
+    }
+
+    if (!(await verify(userId))) {
+      // Limit guesses per challenge
+      const attempts = await this.redisService.incr(
+        `${challengeKey}:attempts`,
+        300,
+      );
+
+      if (attempts >= 5) {
+        await this.redisService.del(challengeKey);
+      }
+
+      await onFailure?.();
+
+      throw new UnauthorizedException('Invalid authentication code');
+    }
+
+    await this.redisService.del(challengeKey);
+
+    return userId;
+  }
+
+  /**
+   * User behind a pending challenge, without consuming it
+   */
+  async getLoginChallengeUser(challengeToken: string): Promise<string> {
+    const userId = await this.redisService.get(
+      `2fa-challenge:${challengeToken}`,
+    );
+
+    if (!userId) {
+      throw new UnauthorizedException('Invalid or expired challenge token');
+    }
+
+    return userId;
+  }
+
+  private generateRecoveryCodes(): string[] {
+    const count = this.configService.get<number>(
+      'auth.twoFactor.recoveryCodeCount',
+      10,
+    );
+
+    return Array.from({ length: count }, () => {
+      const code = generateToken(5);
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+  }
+
+  private hashRecoveryCode(code: string): string {
+    return crypto
+      .createHash('sha256')
+      .update(code.replace(/[\s-]/g, '').toLowerCase())
+      .digest('hex');
+  }
+}
@@ -0,0 +1,398 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  UnauthorizedException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  AuthenticationResponseJSON,
+  AuthenticatorTransportFuture,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+import { decodeClientDataJSON } from '@simplewebauthn/server/helpers';
+import { PrismaService } from '../../../database/prisma.service';
+import { RedisService } from '../../../database/redis.service';
+import {
+  CredentialRegistrationResponseDto,
+  CredentialResponseDto,
+} from '../dto/credential-response.dto';
+import { ClientInfo } from '../../../common/decorators/client-info.decorator';
+import { AuthEventType } from '@prisma/client';
+import { AuthEventsService } from './auth-events.service';
+import { TwoFactorService } from './two-factor.service';
+
+// Passwordless logins need user verification, second factors don't
+export type AuthenticationPurpose = 'passwordless' | 'second-factor';
+
+interface AuthenticationChallenge {
+  // Set when the assertion must come from this user's credentials
+  userId?: string;
+  purpose: AuthenticationPurpose;
+}
+
+const CREDENTIAL_SELECT = {
+  id: true,
+  name: true,
+  deviceType: true,
+  backedUp: true,
+  transports: true,
+  lastUsedAt: true,
+  createdAt: true,
+};
+
+@Injectable()
+export class WebAuthnService {
+  private readonly logger = new Logger(WebAuthnService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private redisService: RedisService,
+    private configService: ConfigService,
+    private authEventsService: AuthEventsService,
+    private twoFactorService: TwoFactorService,
+  ) {}
+
+  /**
+   * Start registering a new credential for a signed-in user
+   */
+  async generateRegistrationOptions(
+    userId: string,
+  ): Promise<PublicKeyCredentialCreationOptionsJSON> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        email: true,
+        firstName: true,
+        lastName: true,
+        credentials: { select: { credentialId: true, transports: true } },
+      },
+    });
+
+    if (!user) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    const options = await generateRegistrationOptions({
+      rpName: this.configService.get<string>(
+        'auth.webauthn.rpName',
+        'Backend API',
+      ),
+      rpID: this.getRpId(),
+      userID: new TextEncoder().encode(userId),
+      userName: user.email,
+      userDisplayName:
+        [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email,
+      attestationType: 'none',
+      // Don't register the same authenticator twice
+      excludeCredentials: user.credentials.map((credential) => ({
+        id: credential.credentialId,
+        transports: credential.transports as AuthenticatorTransportFuture[],
+      })),
+      authenticatorSelection: {
+        residentKey: 'preferred',
+        userVerification: 'preferred',
+      },
+    });
+
+    // Store challenge in Redis until the authenticator responds
+    await this.redisService.set(
+      `webauthn-registration:${userId}`,
+      options.challenge,
+      this.getChallengeTtl(),
+    );
+
+    return options;
+  }
+
+  /**
+   * Verify the authenticator's attestation and store the credential,
+   * optionally making passkeys a required second factor
+   */
+  async verifyRegistration(
+    userId: string,
+    response: RegistrationResponseJSON,
+    name?: string,
+    useAsSecondFactor = false,
+    clientInfo?: ClientInfo,
+  ): Promise<CredentialRegistrationResponseDto> {
+    const challengeKey = `webauthn-registration:${userId}`;
+    const expectedChallenge = await this.redisService.get(challengeKey);
+
+    if (!expectedChallenge) {
+      throw new BadRequestException(
+        'No pending passkey registration, please start again',
+      );
+    }
+
+    await this.redisService.del(challengeKey);
+
+    const verification = await verifyRegistrationResponse({
+      response,
+      expectedChallenge,
+      expectedOrigin: this.getOrigins(),
+      expectedRPID: this.getRpId(),
+      requireUserVerification: false,
+    }).catch((error: unknown) => {
+      this.logger.warn(
+        `Passkey registration failed for user ${userId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
+    });
+
+    if (!verification?.verified || !verification.registrationInfo) {
+      throw new BadRequestException('Passkey registration failed');
+    }
+
+    const { credential, credentialDeviceType, credentialBackedUp } =
+      verification.registrationInfo;
+
+    const created = await this.prisma.credential.create({
+      data: {
+        credentialId: credential.id,
+        publicKey: credential.publicKey,
+        counter: credential.counter,
+        transports: credential.transports ?? [],
+        deviceType: credentialDeviceType,
+        backedUp: credentialBackedUp,
+        name,
+        userId,
+      },
+      select: CREDENTIAL_SELECT,
+    });
+
+    await this.authEventsService.record(
+      AuthEventType.PASSKEY_ADDED,
+      { userId },
+      clientInfo,
+      { credentialId: created.id },
+    );
+
+    if (!useAsSecondFactor) {
+      return created;
+    }
+
+    return {
+      ...created,
+      ...(await this.twoFactorService.enablePasskeySecondFactor(
+        userId,
+        clientInfo,
+      )),
+    };
+  }
+
+  /**
+   * Start a passwordless login, optionally for a known email
+   */
+  async generateLoginOptions(
+    email?: string,
+  ): Promise<PublicKeyCredentialRequestOptionsJSON> {
+    const user = email
+      ? await this.prisma.user.findUnique({
+          where: { email },
+          select: { id: true },
+        })
+      : null;
+
+    // Unknown emails get discoverable-credential options so that the
+    // response doesn't reveal which accounts exist
+    return this.generateAuthenticationOptions(
+      'passwordless',
+      user && (await this.hasCredentials(user.id)) ? user.id : undefined,
+    );
+  }
+
+  /**
+   * Start an authentication ceremony. Without a user ID any discoverable
+   * credential (passkey) may answer.
+   */
+  async generateAuthenticationOptions(
+    purpose: AuthenticationPurpose,
+    userId?: string,
+  ): Promise<PublicKeyCredentialRequestOptionsJSON> {
+    const credentials = userId
+      ? await this.prisma.credential.findMany({
+          where: { userId },
+          select: { credentialId: true, transports: true },
+        })
+      : [];
+
+    if (userId && credentials.length === 0) {
+      throw new BadRequestException('No passkeys registered');
+    }
+
+    const options = await generateAuthenticationOptions({
+      rpID: this.getRpId(),
+      allowCredentials: credentials.map((credential) => ({
+        id: credential.credentialId,
+        transports: credential.transports as AuthenticatorTransportFuture[],
+      })),
+      userVerification: purpose === 'passwordless' ? 'required' : 'preferred',
+    });
+
+    const challenge: AuthenticationChallenge = { userId, purpose };
+
+    await this.redisService.set(
+      `webauthn-authentication:${options.challenge}`,
+      JSON.stringify(challenge),
+      this.getChallengeTtl(),
+    );
+
+    return options;
+  }
+
+  /**
+   * Verify an assertion and return the ID of the credential's owner. The
+   * challenge must have been issued for the same purpose.
+   */
+  async verifyAuthentication(
+    response: AuthenticationResponseJSON,
+    purpose: AuthenticationPurpose,
+    expectedUserId?: string,
+  ): Promise<string> {
+    let challenge: string;
+    try {
+      ({ challenge } = decodeClientDataJSON(response.response.clientDataJSON));
+    } catch {
+      throw new UnauthorizedException('Invalid passkey response');
+    }
+
+    // Challenges are single-use
+    const challengeKey = `webauthn-authentication:${challenge}`;
+    const storedChallenge = await this.redisService.get(challengeKey);
+
+    if (!storedChallenge) {
+      throw new UnauthorizedException('Invalid or expired passkey challenge');
+    }
+
+    await this.redisService.del(challengeKey);
+
+    const stored = JSON.parse(storedChallenge) as AuthenticationChallenge;
+
+    // A second-factor challenge doesn't require user verification, so it
+    // must not complete a passwordless login
+    if (stored.purpose !== purpose) {
+      throw new UnauthorizedException('Invalid or expired passkey challenge');
+    }
+
+    const { userId } = stored;
+
+    const credential = await this.prisma.credential.findUnique({
+      where: { credentialId: response.id },
+    });
+
+    if (
+      !credential ||
+      (userId && credential.userId !== userId) ||
+      (expectedUserId && credential.userId !== expectedUserId)
+    ) {
+      throw new UnauthorizedException('Passkey not recognized');
+    }
+
+    const verification = await verifyAuthenticationResponse({
+      response,
+      expectedChallenge: challenge,
+      expectedOrigin: this.getOrigins(),
+      expectedRPID: this.getRpId(),
+      requireUserVerification: purpose === 'passwordless',
+      credential: {
+        id: credential.credentialId,
+        publicKey: credential.publicKey,
+        counter: credential.counter,
+        transports: credential.transports as AuthenticatorTransportFuture[],
+      },
+    }).catch((error: unknown) => {
+      this.logger.warn(
+        `Passkey authentication failed for credential ${credential.id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
+    });
+
+    if (!verification?.verified) {
+      throw new UnauthorizedException('Passkey verification failed');
+    }
+
+    // The library rejects counters that went backwards (cloned authenticators)
+    await this.prisma.credential.update({
+      where: { id: credential.id },
+      data: {
+        counter: verification.authenticationInfo.newCounter,
+        backedUp: verification.authenticationInfo.credentialBackedUp,
+        lastUsedAt: new Date(),
+      },
+    });
+
+    return credential.userId;
+  }
+
+  /**
+   * Whether the user has registered any credential
+   */
+  async hasCredentials(userId: string): Promise<boolean> {
+    const count = await this.prisma.credential.count({ where: { userId } });
+    return count > 0;
+  }
+
+  /**
+   * List user credentials
+   */
+  async listCredentials(userId: string): Promise<CredentialResponseDto[]> {
+    return this.prisma.credential.findMany({
+      where: { userId },
+      select: CREDENTIAL_SELECT,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Remove a credential
+   */
+  async deleteCredential(
+    userId: string,
+    credentialId: string,
+    clientInfo?: ClientInfo,
+  ): Promise<void> {
+    const { count } = await this.prisma.credential.deleteMany({
+      where: { id: credentialId, userId },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('Passkey not found');
+    }
+
+    await this.authEventsService.record(
+      AuthEventType.PASSKEY_REMOVED,
+      { userId },
+      clientInfo,
+      { credentialId },
+    );
+
+    if (!(await this.hasCredentials(userId))) {
+      await this.twoFactorService.disablePasskeySecondFactor(
+        userId,
+        clientInfo,
+      );
+    }
+  }
+
+  private getRpId(): string {
+    return this.configService.get<string>('auth.webauthn.rpId', 'localhost');
+  }
+
+  private getOrigins(): string[] {
+    return this.configService.get<string[]>('auth.webauthn.origins', [
+      'http://localhost:5173',
+    ]);
+  }
+
+  private getChallengeTtl(): number {
+    return this.configService.get<number>('auth.webauthn.challengeTtl', 300);
+  }
+}
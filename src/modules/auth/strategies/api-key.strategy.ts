@@ -0,0 +1,44 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Strategy } from 'passport-custom';
+import { Request } from 'express';
+import { ApiKeysService } from '../services/api-keys.service';
+import { SuspensionService } from '../services/suspension.service';
+
+export const API_KEY_HEADER = 'x-api-key';
+
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(Strategy, 'api-key') {
+  constructor(
+    private apiKeysService: ApiKeysService,
+    private suspensionService: SuspensionService,
+  ) {
+    super();
+  }
+
+  async validate(req: Request) {
+    const key = req.get(API_KEY_HEADER);
+
+    // No header - let the request fall through to the other strategies
+    if (!key) {
+      return null;
+    }
+
+    const apiKey = await this.apiKeysService.validateApiKey(key);
+
+    if (!apiKey) {
+      throw new UnauthorizedException('Invalid or expired API key');
+    }
+
+    if (!apiKey.user.isActive) {
+      throw new UnauthorizedException('User not found or inactive');
+    }
+
+    await this.suspensionService.assertNotSuspended(apiKey.user.id);
+
+    return {
+      ...apiKey.user,
+      apiKey: { id: apiKey.id, scopes: apiKey.scopes },
+    };
+  }
+}
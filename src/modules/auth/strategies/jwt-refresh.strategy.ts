@@ -5,6 +5,7 @@ import { ExtractJwt, Strategy, StrategyOptionsWithRequest } from 'passport-jwt';
 import { PrismaService } from '../../../database/prisma.service';
 import { Request } from 'express';
 import { JwtPayload } from '../types/jwt-payload.type';
+import { hashToken } from '../../../utils/helpers';
 
 interface RequestWithRefreshToken extends Request {
   body: {
@@ -38,8 +39,9 @@ export class JwtRefreshStrategy extends PassportStrategy(
   async validate(req: RequestWithRefreshToken, payload: JwtPayload) {
     const refreshToken = req.body.refreshToken;
 
+    // Rotated tokens are still found here so AuthService can detect reuse
     const tokenExists = await this.prisma.refreshToken.findUnique({
-      where: { token: refreshToken },
+      where: { token: hashToken(refreshToken) },
     });
 
     if (!tokenExists || tokenExists.expiresAt < new Date()) {
@@ -4,27 +4,47 @@ import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { PrismaService } from '../../../database/prisma.service';
 import { JwtPayload } from '../types/jwt-payload.type';
+import { TokenRevocationService } from '../services/token-revocation.service';
+import { SigningKeyService } from '../services/signing-key.service';
+import { SuspensionService } from '../services/suspension.service';
+import { PermissionsService } from '../../permissions/permissions.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
   constructor(
     private configService: ConfigService,
     private prisma: PrismaService,
+    private tokenRevocationService: TokenRevocationService,
+    private permissionsService: PermissionsService,
+    private suspensionService: SuspensionService,
+    signingKeyService: SigningKeyService,
   ) {
-    const jwtSecret = configService.get<string>('jwt.secret');
-
-    if (!jwtSecret) {
+    if (!configService.get<string>('jwt.secret')) {
       throw new Error('JWT secret is not configured');
     }
 
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
-      secretOrKey: jwtSecret,
+      // Pick the secret or public key from the token's kid
+      secretOrKeyProvider: (
+        _request: unknown,
+        rawJwtToken: string,
+        done: (err: unknown, secretOrKey?: string) => void,
+      ) => {
+        signingKeyService
+          .getVerificationKey(rawJwtToken)
+          .then((key) => done(null, key))
+          .catch((error) => done(error));
+      },
     });
   }
 
   async validate(payload: JwtPayload) {
+    if (await this.tokenRevocationService.isRevoked(payload)) {
+      throw new UnauthorizedException('Token has been revoked');
+    }
+
     const user = await this.prisma.user.findUnique({
       where: { id: payload.sub },
       select: {
@@ -34,6 +54,7 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
         lastName: true,
         role: true,
         isActive: true,
+        emailVerified: true,
       },
     });
 
@@ -41,6 +62,50 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
       throw new UnauthorizedException('User not found or inactive');
     }
 
-    return user;
+    await this.suspensionService.assertNotSuspended(user.id);
+
+    // Members removed from the organization fall back to their own space
+    const membership = payload.org
+      ? await this.prisma.membership.findUnique({
+          where: {
+            organizationId_userId: {
+              organizationId: payload.org,
+              userId: user.id,
+            },
+          },
+          select: { organizationId: true, role: true },
+        })
+      : null;
+    const organization = membership
+      ? { id: membership.organizationId, role: membership.role }
+      : undefined;
+
+    if (!payload.act) {
+      return { ...user, sessionId: payload.sid, organization };
+    }
+
+    // Impersonation token: the actor must still be allowed to impersonate
+    const actor = await this.prisma.user.findUnique({
+      where: { id: payload.act.sub },
+      select: { id: true, email: true, role: true, isActive: true },
+    });
+
+    if (
+      !actor ||
+      !actor.isActive ||
+      !(await this.permissionsService.hasPermission(
+        actor.role,
+        'users:impersonate',
+      ))
+    ) {
+      throw new UnauthorizedException('Impersonation is no longer allowed');
+    }
+
+    return {
+      ...user,
+      sessionId: payload.sid,
+      organization,
+      actor: { id: actor.id, email: actor.email },
+    };
   }
 }
@@ -0,0 +1,10 @@
+export const REGISTRATION_MODES = ['open', 'invite-only', 'domain'] as const;
+export type RegistrationMode = (typeof REGISTRATION_MODES)[number];
+
+export const INVITATION_STATUSES = [
+  'pending',
+  'accepted',
+  'revoked',
+  'expired',
+] as const;
+export type InvitationStatus = (typeof INVITATION_STATUSES)[number];
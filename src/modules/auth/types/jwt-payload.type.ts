@@ -1,6 +1,15 @@
 export interface JwtPayload {
   sub: string;
   email: string;
+  sid?: string;
+  // Active organization ID
+  org?: string;
+  // Actor claim (RFC 8693): the admin acting as `sub` while impersonating
+  act?: { sub: string };
+  jti?: string;
   iat?: number;
+  // Issue time in milliseconds; iat only has whole seconds, too coarse to
+  // compare with a revocation cutoff
+  iatMs?: number;
   exp?: number;
 }
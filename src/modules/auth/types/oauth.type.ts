@@ -0,0 +1,29 @@
+export interface OAuthProfile {
+  providerAccountId: string;
+  email: string | null;
+  emailVerified: boolean;
+  firstName?: string;
+  lastName?: string;
+  avatarUrl?: string;
+}
+
+export interface OAuthAuthorizationParams {
+  state: string;
+  codeChallenge: string;
+  redirectUri: string;
+}
+
+export interface OAuthCodeExchangeParams {
+  code: string;
+  codeVerifier: string;
+  redirectUri: string;
+}
+
+/**
+ * An external identity provider using the authorization code flow with PKCE
+ */
+export interface OAuthProvider {
+  readonly name: string;
+  getAuthorizationUrl(params: OAuthAuthorizationParams): Promise<string>;
+  getProfile(params: OAuthCodeExchangeParams): Promise<OAuthProfile>;
+}
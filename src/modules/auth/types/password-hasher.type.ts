@@ -0,0 +1,17 @@
+export const PASSWORD_HASH_ALGORITHMS = ['argon2id', 'bcrypt'] as const;
+
+export type PasswordHashAlgorithm = (typeof PASSWORD_HASH_ALGORITHMS)[number];
+
+/**
+ * A password hashing scheme. Hashes are self-describing (PHC or modular
+ * crypt format), so the scheme and its parameters are read from the hash.
+ */
+export interface PasswordHasher {
+  readonly algorithm: PasswordHashAlgorithm;
+  // Whether the stored hash was produced by this scheme
+  identifies(hash: string): boolean;
+  hash(password: string): Promise<string>;
+  verify(password: string, hash: string): Promise<boolean>;
+  // Whether the hash was produced with other parameters than configured
+  needsRehash(hash: string): boolean;
+}
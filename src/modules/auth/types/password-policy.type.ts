@@ -0,0 +1,26 @@
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  minCharacterClasses: number;
+  disallowPersonalInfo: boolean;
+  // Number of previous passwords (including the current one) that can't be reused
+  historySize: number;
+  // Whether breached password ranges are configured
+  breachCheck: boolean;
+}
+
+/**
+ * The account a password is being set for
+ */
+export interface PasswordPolicySubject {
+  email: string;
+  firstName?: string | null;
+  lastName?: string | null;
+  // Current password hash
+  password?: string | null;
+  passwordHistory?: string[];
+}
@@ -0,0 +1,197 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import type {
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+} from '@simplewebauthn/server';
+import { AuthService } from './auth.service';
+import { WebAuthnService } from './services/webauthn.service';
+import { TwoFactorService } from './services/two-factor.service';
+import { AuthResponseDto } from './dto/auth-response.dto';
+import {
+  CredentialRegistrationResponseDto,
+  CredentialResponseDto,
+} from './dto/credential-response.dto';
+import { WebAuthnRegistrationDto } from './dto/webauthn-registration.dto';
+import { WebAuthnLoginOptionsDto } from './dto/webauthn-login-options.dto';
+import { WebAuthnLoginDto } from './dto/webauthn-login.dto';
+import { WebAuthnChallengeDto } from './dto/webauthn-challenge.dto';
+import { WebAuthnTwoFactorDto } from './dto/webauthn-two-factor.dto';
+import { Public } from '../../common/decorators/public.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { ClientInfo } from '../../common/decorators/client-info.decorator';
+import { DisallowImpersonation } from '../../common/decorators/disallow-impersonation.decorator';
+
+@ApiTags('Authentication')
+@Controller('auth/webauthn')
+export class WebAuthnController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly webAuthnService: WebAuthnService,
+    private readonly twoFactorService: TwoFactorService,
+  ) {}
+
+  @Post('register/options')
+  @DisallowImpersonation()
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Start passkey registration' })
+  @ApiResponse({
+    status: 200,
+    description: 'Options for navigator.credentials.create()',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async registrationOptions(
+    @CurrentUser('id') userId: string,
+  ): Promise<PublicKeyCredentialCreationOptionsJSON> {
+    return this.webAuthnService.generateRegistrationOptions(userId);
+  }
+
+  @Post('register')
+  @DisallowImpersonation()
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Complete passkey registration' })
+  @ApiResponse({
+    status: 201,
+    description: 'Passkey registered',
+    type: CredentialRegistrationResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Registration failed' })
+  async register(
+    @CurrentUser('id') userId: string,
+    @Body() registrationDto: WebAuthnRegistrationDto,
+    @ClientInfo() clientInfo: ClientInfo,
+  ): Promise<CredentialRegistrationResponseDto> {
+    return this.webAuthnService.verifyRegistration(
+      userId,
+      registrationDto.response,
+      registrationDto.name,
+      registrationDto.useAsSecondFactor,
+      clientInfo,
+    );
+  }
+
+  @Get('credentials')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List registered passkeys' })
+  @ApiResponse({
+    status: 200,
+    description: 'Passkeys retrieved',
+    type: [CredentialResponseDto],
+  })
+  async listCredentials(
+    @CurrentUser('id') userId: string,
+  ): Promise<CredentialResponseDto[]> {
+    return this.webAuthnService.listCredentials(userId);
+  }
+
+  @Delete('credentials/:id')
+  @DisallowImpersonation()
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remove a passkey' })
+  @ApiResponse({ status: 204, description: 'Passkey removed' })
+  @ApiResponse({ status: 403, description: 'Not allowed while impersonating' })
+  @ApiResponse({ status: 404, description: 'Passkey not found' })
+  async deleteCredential(
+    @CurrentUser('id') userId: string,
+    @Param('id') credentialId: string,
+    @ClientInfo() clientInfo: ClientInfo,
+  ): Promise<void> {
+    return this.webAuthnService.deleteCredential(
+      userId,
+      credentialId,
+      clientInfo,
+    );
+  }
+
+  @Public()
+  @Post('login/options')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Start passwordless passkey login' })
+  @ApiResponse({
+    status: 200,
+    description: 'Options for navigator.credentials.get()',
+  })
+  async loginOptions(
+    @Body() loginOptionsDto: WebAuthnLoginOptionsDto,
+  ): Promise<PublicKeyCredentialRequestOptionsJSON> {
+    return this.webAuthnService.generateLoginOptions(loginOptionsDto.email);
+  }
+
+  @Public()
+  @Post('login')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Log in with a passkey' })
+  @ApiResponse({
+    status: 200,
+    description: 'Login successful',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Passkey verification failed' })
+  async login(
+    @Body() loginDto: WebAuthnLoginDto,
+    @ClientInfo() clientInfo: ClientInfo,
+  ): Promise<AuthResponseDto> {
+    return this.authService.loginWithWebAuthn(loginDto.response, clientInfo);
+  }
+
+  @Public()
+  @Post('login/2fa/options')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Start passkey verification as a second factor' })
+  @ApiResponse({
+    status: 200,
+    description: 'Options for navigator.credentials.get()',
+  })
+  @ApiResponse({ status: 401, description: 'Invalid challenge token' })
+  async twoFactorOptions(
+    @Body() challengeDto: WebAuthnChallengeDto,
+  ): Promise<PublicKeyCredentialRequestOptionsJSON> {
+    const userId = await this.twoFactorService.getLoginChallengeUser(
+      challengeDto.challengeToken,
+    );
+
+    // The password was already checked, so user presence is enough
+    return this.webAuthnService.generateAuthenticationOptions(
+      'second-factor',
+      userId,
+    );
+  }
+
+  @Public()
+  @Post('login/2fa')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Complete login with a passkey as second factor' })
+  @ApiResponse({
+    status: 200,
+    description: 'Login successful',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Verification failed' })
+  async loginTwoFactor(
+    @Body() twoFactorDto: WebAuthnTwoFactorDto,
+    @ClientInfo() clientInfo: ClientInfo,
+  ): Promise<AuthResponseDto> {
+    return this.authService.loginWithWebAuthnSecondFactor(
+      twoFactorDto.challengeToken,
+      twoFactorDto.response,
+      clientInfo,
+    );
+  }
+}
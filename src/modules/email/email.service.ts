@@ -105,6 +105,361 @@ export class EmailService {
     }
   }
 
+  /**
+   * Send account unlock email after a lockout
+   */
+  async sendAccountUnlockEmail(
+    to: string,
+    unlockToken: string,
+    lockedUntil: Date,
+  ): Promise<void> {
+    try {
+      const template = this.getTemplate('unlock-account');
+      const unlockUrl = `${this.configService.get('app.frontendUrl')}/unlock-account?token=${unlockToken}`;
+
+      const html = template({
+        unlockUrl,
+        lockedUntil: lockedUntil.toUTCString(),
+        appName: 'Your App',
+      });
+
+      await this.transporter.sendMail({
+        from: `${this.configService.get('email.from.name')} <${this.configService.get('email.from.email')}>`,
+        to,
+        subject: 'Your Account Has Been Locked',
+        html,
+      });
+
+      this.logger.log(`Account unlock email sent to ${to}`);
+    } catch (error) {
+      this.logger.error(`Failed to send account unlock email to ${to}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send passwordless sign-in link
+   */
+  async sendMagicLinkEmail(
+    to: string,
+    magicLinkToken: string,
+    expiresInMinutes: number,
+  ): Promise<void> {
+    try {
+      const template = this.getTemplate('magic-link');
+      const loginUrl = `${this.configService.get('app.frontendUrl')}/magic-link?token=${magicLinkToken}`;
+
+      const html = template({
+        loginUrl,
+        expiresInMinutes,
+        appName: 'Your App',
+      });
+
+      await this.transporter.sendMail({
+        from: `${this.configService.get('email.from.name')} <${this.configService.get('email.from.email')}>`,
+        to,
+        subject: 'Your Sign-In Link',
+        html,
+      });
+
+      this.logger.log(`Magic link email sent to ${to}`);
+    } catch (error) {
+      this.logger.error(`Failed to send magic link email to ${to}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send confirmation link to a new email address
+   */
+  async sendEmailChangeConfirmation(
+    to: string,
+    changeToken: string,
+  ): Promise<void> {
+    try {
+      const template = this.getTemplate('confirm-email-change');
+      const confirmUrl = `${this.configService.get('app.frontendUrl')}/confirm-email-change?token=${changeToken}`;
+
+      const html = template({
+        confirmUrl,
+        newEmail: to,
+        appName: 'Your App',
+      });
+
+      await this.transporter.sendMail({
+        from: `${this.configService.get('email.from.name')} <${this.configService.get('email.from.email')}>`,
+        to,
+        subject: 'Confirm Your New Email Address',
+        html,
+      });
+
+      this.logger.log(`Email change confirmation sent to ${to}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to send email change confirmation to ${to}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Tell the previous address that an email change was requested
+   */
+  async sendEmailChangeNotice(to: string, newEmail: string): Promise<void> {
+    try {
+      const template = this.getTemplate('email-change-notice');
+
+      const html = template({
+        newEmail,
+        appName: 'Your App',
+      });
+
+      await this.transporter.sendMail({
+        from: `${this.configService.get('email.from.name')} <${this.configService.get('email.from.email')}>`,
+        to,
+        subject: 'Your Email Address Is Being Changed',
+        html,
+      });
+
+      this.logger.log(`Email change notice sent to ${to}`);
+    } catch (error) {
+      this.logger.error(`Failed to send email change notice to ${to}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send invitation to register
+   */
+  async sendInvitationEmail(
+    to: string,
+    invitationToken: string,
+    invitedBy: string,
+    expiresAt: Date,
+  ): Promise<void> {
+    try {
+      const template = this.getTemplate('invitation');
+      const invitationUrl = `${this.configService.get('app.frontendUrl')}/register?invitation=${invitationToken}&email=${encodeURIComponent(to)}`;
+
+      const html = template({
+        invitationUrl,
+        invitedBy,
+        expiresAt: expiresAt.toUTCString(),
+        appName: 'Your App',
+      });
+
+      await this.transporter.sendMail({
+        from: `${this.configService.get('email.from.name')} <${this.configService.get('email.from.email')}>`,
+        to,
+        subject: "You've Been Invited",
+        html,
+      });
+
+      this.logger.log(`Invitation email sent to ${to}`);
+    } catch (error) {
+      this.logger.error(`Failed to send invitation email to ${to}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send a user created by an admin a link to choose their password
+   */
+  async sendAccountSetupEmail(
+    to: string,
+    setupToken: string,
+    invitedBy: string,
+    expiresAt: Date,
+  ): Promise<void> {
+    try {
+      const template = this.getTemplate('account-setup');
+      const setupUrl = `${this.configService.get('app.frontendUrl')}/reset-password?token=${setupToken}`;
+
+      const html = template({
+        setupUrl,
+        invitedBy,
+        expiresAt: expiresAt.toUTCString(),
+        appName: 'Your App',
+      });
+
+      await this.transporter.sendMail({
+        from: `${this.configService.get('email.from.name')} <${this.configService.get('email.from.email')}>`,
+        to,
+        subject: 'Your Account Is Ready',
+        html,
+      });
+
+      this.logger.log(`Account setup email sent to ${to}`);
+    } catch (error) {
+      this.logger.error(`Failed to send account setup email to ${to}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send invitation to join an organization
+   */
+  async sendOrganizationInvitationEmail(
+    to: string,
+    invitationToken: string,
+    organizationName: string,
+    invitedBy: string,
+    expiresAt: Date,
+  ): Promise<void> {
+    try {
+      const template = this.getTemplate('organization-invitation');
+      const invitationUrl = `${this.configService.get('app.frontendUrl')}/organizations/invitations/accept?token=${invitationToken}`;
+
+      const html = template({
+        invitationUrl,
+        organizationName,
+        invitedBy,
+        expiresAt: expiresAt.toUTCString(),
+        appName: 'Your App',
+      });
+
+      await this.transporter.sendMail({
+        from: `${this.configService.get('email.from.name')} <${this.configService.get('email.from.email')}>`,
+        to,
+        subject: `Join ${organizationName}`,
+        html,
+      });
+
+      this.logger.log(`Organization invitation email sent to ${to}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to send organization invitation email to ${to}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Send the download link of a personal data export
+   */
+  async sendDataExportEmail(
+    to: string,
+    downloadUrl: string,
+    expiresAt: Date,
+  ): Promise<void> {
+    try {
+      const template = this.getTemplate('data-export');
+
+      const html = template({
+        downloadUrl,
+        expiresAt: expiresAt.toUTCString(),
+        appName: 'Your App',
+      });
+
+      await this.transporter.sendMail({
+        from: `${this.configService.get('email.from.name')} <${this.configService.get('email.from.email')}>`,
+        to,
+        subject: 'Your Data Export Is Ready',
+        html,
+      });
+
+      this.logger.log(`Data export email sent to ${to}`);
+    } catch (error) {
+      this.logger.error(`Failed to send data export email to ${to}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Tell the user their account was suspended
+   */
+  async sendAccountSuspendedEmail(
+    to: string,
+    reason: string,
+    suspendedUntil: Date | null,
+  ): Promise<void> {
+    try {
+      const template = this.getTemplate('account-suspended');
+
+      const html = template({
+        reason,
+        suspendedUntil: suspendedUntil?.toUTCString(),
+        appName: 'Your App',
+      });
+
+      await this.transporter.sendMail({
+        from: `${this.configService.get('email.from.name')} <${this.configService.get('email.from.email')}>`,
+        to,
+        subject: 'Your Account Has Been Suspended',
+        html,
+      });
+
+      this.logger.log(`Account suspended email sent to ${to}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to send account suspended email to ${to}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Tell the user their suspension was lifted
+   */
+  async sendAccountReinstatedEmail(to: string): Promise<void> {
+    try {
+      const template = this.getTemplate('account-reinstated');
+
+      const html = template({
+        appName: 'Your App',
+      });
+
+      await this.transporter.sendMail({
+        from: `${this.configService.get('email.from.name')} <${this.configService.get('email.from.email')}>`,
+        to,
+        subject: 'Your Account Has Been Reinstated',
+        html,
+      });
+
+      this.logger.log(`Account reinstated email sent to ${to}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to send account reinstated email to ${to}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Alert the user to a sign-in from an unfamiliar device or IP address
+   */
+  async sendNewSignInEmail(
+    to: string,
+    signIn: { ipAddress?: string; userAgent?: string; signedInAt: Date },
+  ): Promise<void> {
+    try {
+      const template = this.getTemplate('new-sign-in');
+
+      const html = template({
+        ipAddress: signIn.ipAddress ?? 'Unknown',
+        userAgent: signIn.userAgent ?? 'Unknown',
+        signedInAt: signIn.signedInAt.toUTCString(),
+        appName: 'Your App',
+      });
+
+      await this.transporter.sendMail({
+        from: `${this.configService.get('email.from.name')} <${this.configService.get('email.from.email')}>`,
+        to,
+        subject: 'New Sign-In to Your Account',
+        html,
+      });
+
+      this.logger.log(`New sign-in email sent to ${to}`);
+    } catch (error) {
+      this.logger.error(`Failed to send new sign-in email to ${to}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Get email template
    */
@@ -159,6 +514,113 @@ export class EmailService {
           </body>
         </html>
       `,
+      'unlock-account': `
+        <html>
+          <body>
+            <h1>Account Locked</h1>
+            <p>Your account was locked after too many failed login attempts.</p>
+            <p>It will unlock automatically at {{lockedUntil}}.</p>
+            <p><a href="{{unlockUrl}}">Unlock Account</a></p>
+          </body>
+        </html>
+      `,
+      'account-suspended': `
+        <html>
+          <body>
+            <h1>Account Suspended</h1>
+            <p>Your account has been suspended.</p>
+            <p>Reason: {{reason}}</p>
+            {{#if suspendedUntil}}<p>The suspension ends at {{suspendedUntil}}.</p>{{/if}}
+          </body>
+        </html>
+      `,
+      'account-reinstated': `
+        <html>
+          <body>
+            <h1>Account Reinstated</h1>
+            <p>Your account is no longer suspended. You can sign in again.</p>
+          </body>
+        </html>
+      `,
+      'magic-link': `
+        <html>
+          <body>
+            <h1>Sign In</h1>
+            <p>Click the link below to sign in:</p>
+            <p><a href="{{loginUrl}}">Sign In</a></p>
+            <p>This link will expire in {{expiresInMinutes}} minutes and can only be used once.</p>
+          </body>
+        </html>
+      `,
+      'confirm-email-change': `
+        <html>
+          <body>
+            <h1>Confirm Your New Email</h1>
+            <p>Click the link below to use {{newEmail}} for your account:</p>
+            <p><a href="{{confirmUrl}}">Confirm Email</a></p>
+            <p>This link will expire in 24 hours.</p>
+          </body>
+        </html>
+      `,
+      invitation: `
+        <html>
+          <body>
+            <h1>You've Been Invited</h1>
+            <p>{{invitedBy}} invited you to join {{appName}}.</p>
+            <p><a href="{{invitationUrl}}">Accept Invitation</a></p>
+            <p>This invitation expires on {{expiresAt}}.</p>
+          </body>
+        </html>
+      `,
+      'account-setup': `
+        <html>
+          <body>
+            <h1>Your Account Is Ready</h1>
+            <p>{{invitedBy}} created an account for you on {{appName}}.</p>
+            <p><a href="{{setupUrl}}">Choose Password</a></p>
+            <p>This link expires on {{expiresAt}}.</p>
+          </body>
+        </html>
+      `,
+      'organization-invitation': `
+        <html>
+          <body>
+            <h1>Join {{organizationName}}</h1>
+            <p>{{invitedBy}} invited you to join {{organizationName}} on {{appName}}.</p>
+            <p><a href="{{invitationUrl}}">Accept Invitation</a></p>
+            <p>This invitation expires on {{expiresAt}}.</p>
+          </body>
+        </html>
+      `,
+      'email-change-notice': `
+        <html>
+          <body>
+            <h1>Email Change Requested</h1>
+            <p>A request was made to change your account email to {{newEmail}}.</p>
+            <p>If this wasn't you, reset your password immediately.</p>
+          </body>
+        </html>
+      `,
+      'data-export': `
+        <html>
+          <body>
+            <h1>Your Data Export</h1>
+            <p>The copy of your data you requested is ready.</p>
+            <p><a href="{{downloadUrl}}">Download Export</a></p>
+            <p>The link works until {{expiresAt}}.</p>
+          </body>
+        </html>
+      `,
+      'new-sign-in': `
+        <html>
+          <body>
+            <h1>New Sign-In</h1>
+            <p>Your account was signed in to from a new device or location.</p>
+            <p>When: {{signedInAt}}<br>IP address: {{ipAddress}}<br>Device: {{userAgent}}</p>
+            <p>If this wasn't you, reset your password immediately.</p>
+          </body>
+        </html>
+      `,
     };
 
     return Handlebars.compile(
@@ -0,0 +1,9 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class AcceptInvitationDto {
+  @ApiProperty({ description: 'Token from the invitation email' })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
@@ -0,0 +1,28 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateOrganizationDto {
+  @ApiProperty({ example: 'Acme Inc.' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    example: 'acme',
+    required: false,
+    description: 'Unique URL identifier, derived from the name if omitted',
+  })
+  @IsOptional()
+  @Matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, {
+    message: 'Slug may only contain lowercase letters, numbers and dashes',
+  })
+  @MaxLength(50)
+  slug?: string;
+}
@@ -0,0 +1,18 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsEnum, IsOptional } from 'class-validator';
+import { OrganizationRole } from '@prisma/client';
+
+export class InviteMemberDto {
+  @ApiProperty({ example: 'colleague@example.com' })
+  @IsEmail({}, { message: 'Invalid email address' })
+  email: string;
+
+  @ApiProperty({
+    enum: OrganizationRole,
+    required: false,
+    default: OrganizationRole.MEMBER,
+  })
+  @IsOptional()
+  @IsEnum(OrganizationRole)
+  role?: OrganizationRole;
+}
@@ -0,0 +1,36 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { OrganizationRole } from '@prisma/client';
+import { INVITATION_STATUSES } from '../../auth/types/invitation.type';
+import type { InvitationStatus } from '../../auth/types/invitation.type';
+
+export class OrganizationInvitationResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  organizationId: string;
+
+  @ApiProperty()
+  email: string;
+
+  @ApiProperty({ enum: OrganizationRole })
+  role: OrganizationRole;
+
+  @ApiProperty({ enum: INVITATION_STATUSES })
+  status: InvitationStatus;
+
+  @ApiProperty({ description: 'Member who sent the invitation' })
+  invitedById: string;
+
+  @ApiProperty()
+  expiresAt: Date;
+
+  @ApiProperty({ required: false, nullable: true })
+  acceptedAt: Date | null;
+
+  @ApiProperty({ required: false, nullable: true })
+  revokedAt: Date | null;
+
+  @ApiProperty()
+  createdAt: Date;
+}
@@ -0,0 +1,54 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { OrganizationRole } from '@prisma/client';
+
+export class OrganizationResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty()
+  slug: string;
+
+  @ApiProperty({
+    enum: OrganizationRole,
+    description: "The current user's role in the organization",
+  })
+  role: OrganizationRole;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class MemberResponseDto {
+  @ApiProperty()
+  userId: string;
+
+  @ApiProperty()
+  email: string;
+
+  @ApiProperty({ required: false, nullable: true })
+  firstName: string | null;
+
+  @ApiProperty({ required: false, nullable: true })
+  lastName: string | null;
+
+  @ApiProperty({ enum: OrganizationRole })
+  role: OrganizationRole;
+
+  @ApiProperty({ description: 'When the user joined' })
+  createdAt: Date;
+}
+
+export class ActiveOrganizationResponseDto {
+  @ApiProperty({ description: 'Access token carrying the org claim' })
+  accessToken: string;
+
+  @ApiProperty({
+    required: false,
+    nullable: true,
+    description: 'Active organization, null for the personal space',
+  })
+  organizationId: string | null;
+}
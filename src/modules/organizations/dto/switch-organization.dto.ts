@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsOptional, IsUUID } from 'class-validator';
+
+export class SwitchOrganizationDto {
+  @ApiProperty({
+    required: false,
+    nullable: true,
+    description: 'Organization to act in, omit or null for the personal space',
+  })
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string | null;
+}
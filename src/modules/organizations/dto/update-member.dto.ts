@@ -0,0 +1,9 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum } from 'class-validator';
+import { OrganizationRole } from '@prisma/client';
+
+export class UpdateMemberDto {
+  @ApiProperty({ enum: OrganizationRole })
+  @IsEnum(OrganizationRole)
+  role: OrganizationRole;
+}
@@ -0,0 +1,298 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { OrganizationRole } from '@prisma/client';
+import { OrganizationsService } from './organizations.service';
+import { CreateOrganizationDto } from './dto/create-organization.dto';
+import { UpdateOrganizationDto } from './dto/update-organization.dto';
+import { UpdateMemberDto } from './dto/update-member.dto';
+import { InviteMemberDto } from './dto/invite-member.dto';
+import { AcceptInvitationDto } from './dto/accept-invitation.dto';
+import { SwitchOrganizationDto } from './dto/switch-organization.dto';
+import {
+  ActiveOrganizationResponseDto,
+  MemberResponseDto,
+  OrganizationResponseDto,
+} from './dto/organization-response.dto';
+import { OrganizationInvitationResponseDto } from './dto/organization-invitation-response.dto';
+import { ListInvitationsDto } from '../auth/dto/list-invitations.dto';
+import {
+  CurrentUser,
+  UserPayload,
+} from '../../common/decorators/current-user.decorator';
+import { RequireOrganization } from '../../common/decorators/require-organization.decorator';
+import { DisallowImpersonation } from '../../common/decorators/disallow-impersonation.decorator';
+
+@ApiTags('Organizations')
+@Controller('organizations')
+@ApiBearerAuth()
+export class OrganizationsController {
+  constructor(private readonly organizationsService: OrganizationsService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Create an organization' })
+  @ApiResponse({
+    status: 201,
+    description: 'Organization created, the caller is its owner',
+    type: OrganizationResponseDto,
+  })
+  @ApiResponse({ status: 409, description: 'Slug already taken' })
+  async createOrganization(
+    @CurrentUser('id') userId: string,
+    @Body() createOrganizationDto: CreateOrganizationDto,
+  ): Promise<OrganizationResponseDto> {
+    return this.organizationsService.createOrganization(
+      userId,
+      createOrganizationDto,
+    );
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List my organizations' })
+  @ApiResponse({
+    status: 200,
+    description: 'Organizations retrieved',
+    type: [OrganizationResponseDto],
+  })
+  async listOrganizations(
+    @CurrentUser('id') userId: string,
+  ): Promise<OrganizationResponseDto[]> {
+    return this.organizationsService.listOrganizations(userId);
+  }
+
+  @Post('switch')
+  @DisallowImpersonation()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Set the active organization of this session' })
+  @ApiResponse({
+    status: 200,
+    description: 'New access token with the org claim',
+    type: ActiveOrganizationResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Not a member' })
+  async switchOrganization(
+    @CurrentUser() user: UserPayload,
+    @Body() switchOrganizationDto: SwitchOrganizationDto,
+  ): Promise<ActiveOrganizationResponseDto> {
+    return this.organizationsService.switchOrganization(
+      user.id,
+      user.sessionId,
+      switchOrganizationDto.organizationId ?? null,
+    );
+  }
+
+  @Post('invitations/accept')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Join an organization with an invitation' })
+  @ApiResponse({
+    status: 200,
+    description: 'Joined the organization',
+    type: OrganizationResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid or expired invitation' })
+  @ApiResponse({
+    status: 403,
+    description: 'Invitation was sent to another address',
+  })
+  async acceptInvitation(
+    @CurrentUser('id') userId: string,
+    @Body() acceptInvitationDto: AcceptInvitationDto,
+  ): Promise<OrganizationResponseDto> {
+    return this.organizationsService.acceptInvitation(
+      userId,
+      acceptInvitationDto.token,
+    );
+  }
+
+  @Get(':organizationId')
+  @RequireOrganization()
+  @ApiOperation({ summary: 'Get an organization' })
+  @ApiResponse({
+    status: 200,
+    description: 'Organization retrieved',
+    type: OrganizationResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Not a member' })
+  async getOrganization(
+    @CurrentUser('id') userId: string,
+    @Param('organizationId') organizationId: string,
+  ): Promise<OrganizationResponseDto> {
+    return this.organizationsService.getOrganization(organizationId, userId);
+  }
+
+  @Patch(':organizationId')
+  @RequireOrganization(OrganizationRole.OWNER, OrganizationRole.ADMIN)
+  @ApiOperation({ summary: 'Rename an organization (Owner or admin)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Organization updated',
+    type: OrganizationResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - Owner or admin only' })
+  async updateOrganization(
+    @CurrentUser('id') userId: string,
+    @Param('organizationId') organizationId: string,
+    @Body() updateOrganizationDto: UpdateOrganizationDto,
+  ): Promise<OrganizationResponseDto> {
+    return this.organizationsService.updateOrganization(
+      organizationId,
+      userId,
+      updateOrganizationDto,
+    );
+  }
+
+  @Delete(':organizationId')
+  @RequireOrganization(OrganizationRole.OWNER)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete an organization and its shared content (Owner only)',
+  })
+  @ApiResponse({ status: 204, description: 'Organization deleted' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Owner only' })
+  async deleteOrganization(
+    @Param('organizationId') organizationId: string,
+  ): Promise<void> {
+    return this.organizationsService.deleteOrganization(organizationId);
+  }
+
+  @Get(':organizationId/members')
+  @RequireOrganization()
+  @ApiOperation({ summary: 'List organization members' })
+  @ApiResponse({
+    status: 200,
+    description: 'Members retrieved',
+    type: [MemberResponseDto],
+  })
+  @ApiResponse({ status: 403, description: 'Not a member' })
+  async listMembers(
+    @Param('organizationId') organizationId: string,
+  ): Promise<MemberResponseDto[]> {
+    return this.organizationsService.listMembers(organizationId);
+  }
+
+  @Patch(':organizationId/members/:userId')
+  @RequireOrganization(OrganizationRole.OWNER, OrganizationRole.ADMIN)
+  @ApiOperation({ summary: "Change a member's role (Owner or admin)" })
+  @ApiResponse({
+    status: 200,
+    description: 'Member updated',
+    type: MemberResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Would remove the last owner' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - only owners can change ownership',
+  })
+  @ApiResponse({ status: 404, description: 'Member not found' })
+  async updateMember(
+    @CurrentUser('id') actorId: string,
+    @Param('organizationId') organizationId: string,
+    @Param('userId') memberId: string,
+    @Body() updateMemberDto: UpdateMemberDto,
+  ): Promise<MemberResponseDto> {
+    return this.organizationsService.updateMember(
+      organizationId,
+      actorId,
+      memberId,
+      updateMemberDto.role,
+    );
+  }
+
+  @Delete(':organizationId/members/:userId')
+  @RequireOrganization()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remove a member, or leave with your own ID' })
+  @ApiResponse({ status: 204, description: 'Member removed' })
+  @ApiResponse({ status: 400, description: 'Would remove the last owner' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - owners and admins remove others',
+  })
+  @ApiResponse({ status: 404, description: 'Member not found' })
+  async removeMember(
+    @CurrentUser('id') actorId: string,
+    @Param('organizationId') organizationId: string,
+    @Param('userId') memberId: string,
+  ): Promise<void> {
+    return this.organizationsService.removeMember(
+      organizationId,
+      actorId,
+      memberId,
+    );
+  }
+
+  @Post(':organizationId/invitations')
+  @RequireOrganization(OrganizationRole.OWNER, OrganizationRole.ADMIN)
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Invite a member by email (Owner or admin)' })
+  @ApiResponse({
+    status: 201,
+    description: 'Invitation created and emailed',
+    type: OrganizationInvitationResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - Owner or admin only' })
+  @ApiResponse({ status: 409, description: 'Already a member' })
+  async inviteMember(
+    @CurrentUser('id') userId: string,
+    @Param('organizationId') organizationId: string,
+    @Body() inviteMemberDto: InviteMemberDto,
+  ): Promise<OrganizationInvitationResponseDto> {
+    return this.organizationsService.inviteMember(
+      organizationId,
+      userId,
+      inviteMemberDto,
+    );
+  }
+
+  @Get(':organizationId/invitations')
+  @RequireOrganization(OrganizationRole.OWNER, OrganizationRole.ADMIN)
+  @ApiOperation({ summary: 'List invitations (Owner or admin)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Invitations retrieved',
+    type: [OrganizationInvitationResponseDto],
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - Owner or admin only' })
+  async listInvitations(
+    @Param('organizationId') organizationId: string,
+    @Query() listInvitationsDto: ListInvitationsDto,
+  ): Promise<OrganizationInvitationResponseDto[]> {
+    return this.organizationsService.listInvitations(
+      organizationId,
+      listInvitationsDto.status,
+    );
+  }
+
+  @Delete(':organizationId/invitations/:invitationId')
+  @RequireOrganization(OrganizationRole.OWNER, OrganizationRole.ADMIN)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revoke a pending invitation (Owner or admin)' })
+  @ApiResponse({ status: 204, description: 'Invitation revoked' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Owner or admin only' })
+  @ApiResponse({ status: 404, description: 'Invitation not found' })
+  async revokeInvitation(
+    @Param('organizationId') organizationId: string,
+    @Param('invitationId') invitationId: string,
+  ): Promise<void> {
+    return this.organizationsService.revokeInvitation(
+      organizationId,
+      invitationId,
+    );
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { OrganizationsController } from './organizations.controller';
+import { OrganizationsService } from './organizations.service';
+import { AuthModule } from '../auth/auth.module';
+import { EmailModule } from '../email/email.module';
+
+@Module({
+  imports: [AuthModule, EmailModule],
+  controllers: [OrganizationsController],
+  providers: [OrganizationsService],
+})
+export class OrganizationsModule {}
@@ -0,0 +1,546 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  Membership,
+  OrganizationInvitation,
+  OrganizationRole,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { EmailService } from '../email/email.service';
+import { AuthService } from '../auth/auth.service';
+import { InvitationStatus } from '../auth/types/invitation.type';
+import { generateToken, hashToken, slugify } from '../../utils/helpers';
+import { CreateOrganizationDto } from './dto/create-organization.dto';
+import { UpdateOrganizationDto } from './dto/update-organization.dto';
+import { InviteMemberDto } from './dto/invite-member.dto';
+import {
+  ActiveOrganizationResponseDto,
+  MemberResponseDto,
+  OrganizationResponseDto,
+} from './dto/organization-response.dto';
+import { OrganizationInvitationResponseDto } from './dto/organization-invitation-response.dto';
+
+const MEMBER_SELECT = {
+  userId: true,
+  role: true,
+  createdAt: true,
+  user: { select: { email: true, firstName: true, lastName: true } },
+};
+
+/**
+ * Organizations, their members and invitations. Membership and role
+ * requirements of each endpoint are enforced by OrganizationGuard; rules
+ * that depend on the target member (owners, the last owner) are checked here.
+ */
+@Injectable()
+export class OrganizationsService {
+  private readonly logger = new Logger(OrganizationsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private emailService: EmailService,
+    private authService: AuthService,
+  ) {}
+
+  /**
+   * Create an organization owned by the user
+   */
+  async createOrganization(
+    userId: string,
+    createOrganizationDto: CreateOrganizationDto,
+  ): Promise<OrganizationResponseDto> {
+    const { name } = createOrganizationDto;
+    const slug = createOrganizationDto.slug ?? slugify(name);
+
+    if (!slug) {
+      throw new BadRequestException(
+        'Could not derive a slug from the name, please provide one',
+      );
+    }
+
+    const existing = await this.prisma.organization.findUnique({
+      where: { slug },
+      select: { id: true },
+    });
+
+    if (existing && createOrganizationDto.slug) {
+      throw new ConflictException('Organization slug is already taken');
+    }
+
+    const organization = await this.prisma.organization.create({
+      data: {
+        name,
+        // Derived slugs get a random suffix instead of failing
+        slug: existing ? `${slug}-${generateToken(3)}` : slug,
+        memberships: {
+          create: { userId, role: OrganizationRole.OWNER },
+        },
+      },
+    });
+
+    return { ...this.toResponse(organization), role: OrganizationRole.OWNER };
+  }
+
+  /**
+   * Organizations the user belongs to
+   */
+  async listOrganizations(userId: string): Promise<OrganizationResponseDto[]> {
+    const memberships = await this.prisma.membership.findMany({
+      where: { userId },
+      include: { organization: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return memberships.map(({ organization, role }) => ({
+      ...this.toResponse(organization),
+      role,
+    }));
+  }
+
+  /**
+   * Get an organization with the user's role in it
+   */
+  async getOrganization(
+    organizationId: string,
+    userId: string,
+  ): Promise<OrganizationResponseDto> {
+    const membership = await this.prisma.membership.findUnique({
+      where: { organizationId_userId: { organizationId, userId } },
+      include: { organization: true },
+    });
+
+    if (!membership) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    return {
+      ...this.toResponse(membership.organization),
+      role: membership.role,
+    };
+  }
+
+  /**
+   * Rename an organization
+   */
+  async updateOrganization(
+    organizationId: string,
+    userId: string,
+    updateOrganizationDto: UpdateOrganizationDto,
+  ): Promise<OrganizationResponseDto> {
+    await this.prisma.organization.update({
+      where: { id: organizationId },
+      data: { name: updateOrganizationDto.name },
+    });
+
+    return this.getOrganization(organizationId, userId);
+  }
+
+  /**
+   * Delete an organization with its shared conversations and files
+   */
+  async deleteOrganization(organizationId: string): Promise<void> {
+    await this.prisma.organization.delete({
+      where: { id: organizationId },
+    });
+  }
+
+  /**
+   * List members, oldest first
+   */
+  async listMembers(organizationId: string): Promise<MemberResponseDto[]> {
+    const memberships = await this.prisma.membership.findMany({
+      where: { organizationId },
+      select: MEMBER_SELECT,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return memberships.map((membership) => this.toMemberResponse(membership));
+  }
+
+  /**
+   * Change a member's role. Only owners may grant or take away ownership.
+   */
+  async updateMember(
+    organizationId: string,
+    actorId: string,
+    memberId: string,
+    role: OrganizationRole,
+  ): Promise<MemberResponseDto> {
+    const [actor, member] = await Promise.all([
+      this.getMembership(organizationId, actorId),
+      this.getMembership(organizationId, memberId),
+    ]);
+
+    if (
+      (role === OrganizationRole.OWNER ||
+        member.role === OrganizationRole.OWNER) &&
+      actor.role !== OrganizationRole.OWNER
+    ) {
+      throw new ForbiddenException('Only owners can change ownership');
+    }
+
+    if (
+      member.role === OrganizationRole.OWNER &&
+      role !== OrganizationRole.OWNER
+    ) {
+      await this.assertNotLastOwner(organizationId);
+    }
+
+    const updated = await this.prisma.membership.update({
+      where: { id: member.id },
+      data: { role },
+      select: MEMBER_SELECT,
+    });
+
+    return this.toMemberResponse(updated);
+  }
+
+  /**
+   * Remove a member, or leave when the member is the actor
+   */
+  async removeMember(
+    organizationId: string,
+    actorId: string,
+    memberId: string,
+  ): Promise<void> {
+    const [actor, member] = await Promise.all([
+      this.getMembership(organizationId, actorId),
+      this.getMembership(organizationId, memberId),
+    ]);
+
+    if (actorId !== memberId) {
+      if (actor.role === OrganizationRole.MEMBER) {
+        throw new ForbiddenException(
+          'Only owners and admins can remove members',
+        );
+      }
+
+      if (
+        member.role === OrganizationRole.OWNER &&
+        actor.role !== OrganizationRole.OWNER
+      ) {
+        throw new ForbiddenException('Only owners can remove owners');
+      }
+    }
+
+    if (member.role === OrganizationRole.OWNER) {
+      await this.assertNotLastOwner(organizationId);
+    }
+
+    await this.prisma.membership.delete({ where: { id: member.id } });
+  }
+
+  /**
+   * Invite someone by email, replacing any pending invitation for them
+   */
+  async inviteMember(
+    organizationId: string,
+    inviterId: string,
+    inviteMemberDto: InviteMemberDto,
+  ): Promise<OrganizationInvitationResponseDto> {
+    const { email, role = OrganizationRole.MEMBER } = inviteMemberDto;
+    const inviter = await this.getMembership(organizationId, inviterId);
+
+    if (
+      role === OrganizationRole.OWNER &&
+      inviter.role !== OrganizationRole.OWNER
+    ) {
+      throw new ForbiddenException('Only owners can invite owners');
+    }
+
+    const existingMember = await this.prisma.membership.findFirst({
+      where: {
+        organizationId,
+        user: { email: { equals: email, mode: 'insensitive' } },
+      },
+      select: { id: true },
+    });
+
+    if (existingMember) {
+      throw new ConflictException('User is already a member');
+    }
+
+    await this.prisma.organizationInvitation.updateMany({
+      where: {
+        organizationId,
+        email: { equals: email, mode: 'insensitive' },
+        ...this.statusFilter('pending'),
+      },
+      data: { revokedAt: new Date() },
+    });
+
+    const invitationToken = generateToken(32);
+    const ttl = this.configService.get<number>(
+      'auth.registration.invitationTtl',
+      604800,
+    );
+
+    const invitation = await this.prisma.organizationInvitation.create({
+      data: {
+        organizationId,
+        email,
+        role,
+        token: hashToken(invitationToken),
+        invitedById: inviterId,
+        expiresAt: new Date(Date.now() + ttl * 1000),
+      },
+      include: {
+        organization: { select: { name: true } },
+        invitedBy: { select: { email: true, firstName: true, lastName: true } },
+      },
+    });
+
+    const { organization, invitedBy } = invitation;
+
+    try {
+      await this.emailService.sendOrganizationInvitationEmail(
+        email,
+        invitationToken,
+        organization.name,
+        [invitedBy.firstName, invitedBy.lastName].filter(Boolean).join(' ') ||
+          invitedBy.email,
+        invitation.expiresAt,
+      );
+    } catch {
+      // The invitation can be sent again
+      this.logger.warn(`Could not send organization invitation to ${email}`);
+    }
+
+    return this.toInvitationResponse(invitation);
+  }
+
+  /**
+   * List invitations, newest first
+   */
+  async listInvitations(
+    organizationId: string,
+    status?: InvitationStatus,
+  ): Promise<OrganizationInvitationResponseDto[]> {
+    const invitations = await this.prisma.organizationInvitation.findMany({
+      where: { organizationId, ...(status && this.statusFilter(status)) },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return invitations.map((invitation) =>
+      this.toInvitationResponse(invitation),
+    );
+  }
+
+  /**
+   * Revoke a pending invitation
+   */
+  async revokeInvitation(
+    organizationId: string,
+    invitationId: string,
+  ): Promise<void> {
+    const { count } = await this.prisma.organizationInvitation.updateMany({
+      where: {
+        id: invitationId,
+        organizationId,
+        ...this.statusFilter('pending'),
+      },
+      data: { revokedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('Invitation not found or no longer pending');
+    }
+  }
+
+  /**
+   * Join an organization with an invitation sent to the user's address
+   */
+  async acceptInvitation(
+    userId: string,
+    token: string,
+  ): Promise<OrganizationResponseDto> {
+    const [invitation, user] = await Promise.all([
+      this.prisma.organizationInvitation.findFirst({
+        where: { token: hashToken(token), ...this.statusFilter('pending') },
+      }),
+      this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { email: true },
+      }),
+    ]);
+
+    if (!invitation || !user) {
+      throw new BadRequestException('Invalid or expired invitation');
+    }
+
+    if (invitation.email.toLowerCase() !== user.email.toLowerCase()) {
+      throw new ForbiddenException(
+        'This invitation was sent to another email address',
+      );
+    }
+
+    // Claim it so the same invitation can't be used twice
+    const { count } = await this.prisma.organizationInvitation.updateMany({
+      where: { id: invitation.id, ...this.statusFilter('pending') },
+      data: { acceptedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('Invalid or expired invitation');
+    }
+
+    await this.prisma.membership.upsert({
+      where: {
+        organizationId_userId: {
+          organizationId: invitation.organizationId,
+          userId,
+        },
+      },
+      create: {
+        organizationId: invitation.organizationId,
+        userId,
+        role: invitation.role,
+      },
+      update: {},
+    });
+
+    return this.getOrganization(invitation.organizationId, userId);
+  }
+
+  /**
+   * Make an organization (or the personal space, with null) the session's
+   * active organization
+   */
+  async switchOrganization(
+    userId: string,
+    sessionId: string | undefined,
+    organizationId: string | null,
+  ): Promise<ActiveOrganizationResponseDto> {
+    if (!sessionId) {
+      throw new BadRequestException(
+        'Current session unknown, please log in again',
+      );
+    }
+
+    if (organizationId) {
+      await this.getMembership(organizationId, userId);
+    }
+
+    return this.authService.switchOrganization(
+      userId,
+      sessionId,
+      organizationId,
+    );
+  }
+
+  private async getMembership(
+    organizationId: string,
+    userId: string,
+  ): Promise<Membership> {
+    const membership = await this.prisma.membership.findUnique({
+      where: { organizationId_userId: { organizationId, userId } },
+    });
+
+    if (!membership) {
+      throw new NotFoundException('Member not found');
+    }
+
+    return membership;
+  }
+
+  private async assertNotLastOwner(organizationId: string): Promise<void> {
+    const owners = await this.prisma.membership.count({
+      where: { organizationId, role: OrganizationRole.OWNER },
+    });
+
+    if (owners <= 1) {
+      throw new BadRequestException(
+        'An organization needs at least one owner, transfer ownership first',
+      );
+    }
+  }
+
+  private statusFilter(
+    status: InvitationStatus,
+  ): Prisma.OrganizationInvitationWhereInput {
+    switch (status) {
+      case 'pending':
+        return {
+          acceptedAt: null,
+          revokedAt: null,
+          expiresAt: { gt: new Date() },
+        };
+      case 'accepted':
+        return { acceptedAt: { not: null } };
+      case 'revoked':
+        return { revokedAt: { not: null } };
+      case 'expired':
+        return {
+          acceptedAt: null,
+          revokedAt: null,
+          expiresAt: { lte: new Date() },
+        };
+    }
+  }
+
+  private toResponse(organization: {
+    id: string;
+    name: string;
+    slug: string;
+    createdAt: Date;
+  }): Omit<OrganizationResponseDto, 'role'> {
+    return {
+      id: organization.id,
+      name: organization.name,
+      slug: organization.slug,
+      createdAt: organization.createdAt,
+    };
+  }
+
+  private toMemberResponse(membership: {
+    userId: string;
+    role: OrganizationRole;
+    createdAt: Date;
+    user: { email: string; firstName: string | null; lastName: string | null };
+  }): MemberResponseDto {
+    return {
+      userId: membership.userId,
+      email: membership.user.email,
+      firstName: membership.user.firstName,
+      lastName: membership.user.lastName,
+      role: membership.role,
+      createdAt: membership.createdAt,
+    };
+  }
+
+  private toInvitationResponse(
+    invitation: OrganizationInvitation,
+  ): OrganizationInvitationResponseDto {
+    let status: InvitationStatus = 'pending';
+
+    if (invitation.acceptedAt) {
+      status = 'accepted';
+    } else if (invitation.revokedAt) {
+      status = 'revoked';
+    } else if (invitation.expiresAt <= new Date()) {
+      status = 'expired';
+    }
+
+    return {
+      id: invitation.id,
+      organizationId: invitation.organizationId,
+      email: invitation.email,
+      role: invitation.role,
+      status,
+      invitedById: invitation.invitedById,
+      expiresAt: invitation.expiresAt,
+      acceptedAt: invitation.acceptedAt,
+      revokedAt: invitation.revokedAt,
+      createdAt: invitation.createdAt,
+    };
+  }
+}
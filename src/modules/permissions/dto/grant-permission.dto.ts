@@ -0,0 +1,9 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, MaxLength } from 'class-validator';
+
+export class GrantPermissionDto {
+  @ApiProperty({ example: 'ai:model:gpt-4' })
+  @IsString()
+  @MaxLength(100)
+  permission: string;
+}
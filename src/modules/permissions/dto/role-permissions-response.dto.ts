@@ -0,0 +1,10 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+
+export class RolePermissionsResponseDto {
+  @ApiProperty({ enum: Role })
+  role: Role;
+
+  @ApiProperty({ example: ['users:read', 'ai:model:*'] })
+  permissions: string[];
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsArray, IsString, MaxLength } from 'class-validator';
+
+export class UpdateRolePermissionsDto {
+  @ApiProperty({
+    isArray: true,
+    example: ['users:read', 'ai:model:gpt-4'],
+    description:
+      'Complete permission list for the role, replacing the current one',
+  })
+  @IsArray()
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  permissions: string[];
+}
@@ -0,0 +1,136 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Post,
+  Delete,
+  Body,
+  Param,
+  ParseEnumPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { PermissionsService } from './permissions.service';
+import { UpdateRolePermissionsDto } from './dto/update-role-permissions.dto';
+import { GrantPermissionDto } from './dto/grant-permission.dto';
+import { RolePermissionsResponseDto } from './dto/role-permissions-response.dto';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { PERMISSIONS } from '../../utils/constants';
+
+@ApiTags('Permissions')
+@Controller('permissions')
+@ApiBearerAuth()
+export class PermissionsController {
+  constructor(private readonly permissionsService: PermissionsService) {}
+
+  @Get()
+  @RequirePermissions('permissions:manage')
+  @ApiOperation({ summary: 'List the known permissions' })
+  @ApiResponse({
+    status: 200,
+    description: 'Permission names; ai:model:<model> may also be granted',
+    type: [String],
+  })
+  @ApiResponse({ status: 403, description: 'Missing permissions:manage' })
+  listPermissions(): string[] {
+    return [...PERMISSIONS];
+  }
+
+  @Get('me')
+  @ApiOperation({ summary: 'Get my permissions' })
+  @ApiResponse({
+    status: 200,
+    description: 'Permissions granted to your role',
+    type: RolePermissionsResponseDto,
+  })
+  async getMyPermissions(
+    @CurrentUser('role') role: Role,
+  ): Promise<RolePermissionsResponseDto> {
+    return {
+      role,
+      permissions: await this.permissionsService.getRolePermissions(role),
+    };
+  }
+
+  @Get('roles')
+  @RequirePermissions('permissions:manage')
+  @ApiOperation({ summary: 'List the permissions of every role' })
+  @ApiResponse({
+    status: 200,
+    description: 'Role permissions retrieved',
+    type: [RolePermissionsResponseDto],
+  })
+  @ApiResponse({ status: 403, description: 'Missing permissions:manage' })
+  async listRolePermissions(): Promise<RolePermissionsResponseDto[]> {
+    return this.permissionsService.listRolePermissions();
+  }
+
+  @Put('roles/:role')
+  @RequirePermissions('permissions:manage')
+  @ApiOperation({ summary: "Replace a role's permissions" })
+  @ApiResponse({
+    status: 200,
+    description: 'Role permissions updated',
+    type: RolePermissionsResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Unknown permission, or ADMIN losing permissions:manage',
+  })
+  @ApiResponse({ status: 403, description: 'Missing permissions:manage' })
+  async setRolePermissions(
+    @Param('role', new ParseEnumPipe(Role)) role: Role,
+    @Body() updateRolePermissionsDto: UpdateRolePermissionsDto,
+  ): Promise<RolePermissionsResponseDto> {
+    return this.permissionsService.setRolePermissions(
+      role,
+      updateRolePermissionsDto.permissions,
+    );
+  }
+
+  @Post('roles/:role')
+  @RequirePermissions('permissions:manage')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Grant a permission to a role' })
+  @ApiResponse({
+    status: 200,
+    description: 'Permission granted',
+    type: RolePermissionsResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Unknown permission' })
+  @ApiResponse({ status: 403, description: 'Missing permissions:manage' })
+  async grantPermission(
+    @Param('role', new ParseEnumPipe(Role)) role: Role,
+    @Body() grantPermissionDto: GrantPermissionDto,
+  ): Promise<RolePermissionsResponseDto> {
+    return this.permissionsService.grantPermission(
+      role,
+      grantPermissionDto.permission,
+    );
+  }
+
+  @Delete('roles/:role/:permission')
+  @RequirePermissions('permissions:manage')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revoke a permission from a role' })
+  @ApiResponse({ status: 204, description: 'Permission revoked' })
+  @ApiResponse({
+    status: 400,
+    description: 'ADMIN cannot lose permissions:manage',
+  })
+  @ApiResponse({ status: 403, description: 'Missing permissions:manage' })
+  async revokePermission(
+    @Param('role', new ParseEnumPipe(Role)) role: Role,
+    @Param('permission') permission: string,
+  ): Promise<void> {
+    return this.permissionsService.revokePermission(role, permission);
+  }
+}
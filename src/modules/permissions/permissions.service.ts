@@ -0,0 +1,200 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Role } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { RedisService } from '../../database/redis.service';
+import {
+  AI_MODEL_PERMISSION_PREFIX,
+  PERMISSIONS,
+  Permission,
+} from '../../utils/constants';
+import { RolePermissionsResponseDto } from './dto/role-permissions-response.dto';
+
+// Admins must keep the permission that lets them edit mappings
+const PROTECTED_PERMISSION: Permission = 'permissions:manage';
+
+/**
+ * Resolves the named permissions mapped to each role. Mappings live in
+ * Postgres and are cached per role in Redis; edits clear the cache.
+ */
+@Injectable()
+export class PermissionsService {
+  private readonly cacheTtl: number;
+
+  constructor(
+    private prisma: PrismaService,
+    private redisService: RedisService,
+    private configService: ConfigService,
+  ) {
+    this.cacheTtl = this.configService.get<number>(
+      'auth.permissions.cacheTtl',
+      300,
+    );
+  }
+
+  /**
+   * Permissions granted to a role
+   */
+  async getRolePermissions(role: Role): Promise<string[]> {
+    const cacheKey = this.cacheKey(role);
+    const cached = await this.redisService.get(cacheKey);
+
+    if (cached) {
+      return JSON.parse(cached) as string[];
+    }
+
+    const rows = await this.prisma.rolePermission.findMany({
+      where: { role },
+      select: { permission: true },
+      orderBy: { permission: 'asc' },
+    });
+    const permissions = rows.map((row) => row.permission);
+
+    await this.redisService.set(
+      cacheKey,
+      JSON.stringify(permissions),
+      this.cacheTtl,
+    );
+
+    return permissions;
+  }
+
+  /**
+   * Whether the role holds the permission, directly or through a wildcard
+   */
+  async hasPermission(role: Role, permission: Permission): Promise<boolean> {
+    const missing = await this.getMissingPermissions(role, [permission]);
+    return missing.length === 0;
+  }
+
+  /**
+   * Whether the role may use an AI model; the configured default model is
+   * open to everyone, others need ai:model:<model>
+   */
+  async canUseModel(role: Role, model: string): Promise<boolean> {
+    if (model === this.configService.get<string>('ai.openai.model', 'gpt-4')) {
+      return true;
+    }
+
+    return this.hasPermission(role, `${AI_MODEL_PERMISSION_PREFIX}${model}`);
+  }
+
+  /**
+   * Required permissions the role does not hold
+   */
+  async getMissingPermissions(
+    role: Role,
+    permissions: Permission[],
+  ): Promise<Permission[]> {
+    const granted = await this.getRolePermissions(role);
+
+    return permissions.filter(
+      (permission) =>
+        !granted.some(
+          (grant) =>
+            grant === permission ||
+            (grant.endsWith(':*') && permission.startsWith(grant.slice(0, -1))),
+        ),
+    );
+  }
+
+  /**
+   * Permissions of every role
+   */
+  async listRolePermissions(): Promise<RolePermissionsResponseDto[]> {
+    return Promise.all(
+      Object.values(Role).map(async (role) => ({
+        role,
+        permissions: await this.getRolePermissions(role),
+      })),
+    );
+  }
+
+  /**
+   * Replace all permissions of a role
+   */
+  async setRolePermissions(
+    role: Role,
+    permissions: string[],
+  ): Promise<RolePermissionsResponseDto> {
+    const unique = [...new Set(permissions)];
+    this.assertKnown(unique);
+
+    if (role === Role.ADMIN && !unique.includes(PROTECTED_PERMISSION)) {
+      throw new BadRequestException(
+        `The ADMIN role must keep the ${PROTECTED_PERMISSION} permission`,
+      );
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.rolePermission.deleteMany({ where: { role } }),
+      this.prisma.rolePermission.createMany({
+        data: unique.map((permission) => ({ role, permission })),
+      }),
+    ]);
+
+    return this.refresh(role);
+  }
+
+  /**
+   * Grant one permission to a role
+   */
+  async grantPermission(
+    role: Role,
+    permission: string,
+  ): Promise<RolePermissionsResponseDto> {
+    this.assertKnown([permission]);
+
+    await this.prisma.rolePermission.upsert({
+      where: { role_permission: { role, permission } },
+      create: { role, permission },
+      update: {},
+    });
+
+    return this.refresh(role);
+  }
+
+  /**
+   * Revoke one permission from a role
+   */
+  async revokePermission(role: Role, permission: string): Promise<void> {
+    if (role === Role.ADMIN && permission === PROTECTED_PERMISSION) {
+      throw new BadRequestException(
+        `The ADMIN role must keep the ${PROTECTED_PERMISSION} permission`,
+      );
+    }
+
+    await this.prisma.rolePermission.deleteMany({
+      where: { role, permission },
+    });
+
+    await this.redisService.del(this.cacheKey(role));
+  }
+
+  private async refresh(role: Role): Promise<RolePermissionsResponseDto> {
+    await this.redisService.del(this.cacheKey(role));
+
+    return { role, permissions: await this.getRolePermissions(role) };
+  }
+
+  private assertKnown(permissions: string[]): void {
+    const unknown = permissions.filter(
+      (permission) =>
+        !(PERMISSIONS as readonly string[]).includes(permission) &&
+        !(
+          permission.startsWith(AI_MODEL_PERMISSION_PREFIX) &&
+          /^[\w.-]+$/.test(permission.slice(AI_MODEL_PERMISSION_PREFIX.length))
+        ),
+    );
+
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown permissions: ${unknown.join(', ')}`,
+      );
+    }
+  }
+
+  private cacheKey(role: Role): string {
+    return `role-permissions:${role}`;
+  }
+}
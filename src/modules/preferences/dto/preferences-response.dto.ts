@@ -0,0 +1,34 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AiPreferencesDto {
+  @ApiProperty({ example: 'gpt-4' })
+  model: string;
+
+  @ApiProperty({ example: 0.7 })
+  temperature: number;
+}
+
+export class NotificationPreferencesDto {
+  @ApiProperty({ description: 'Email on sign-in from a new device' })
+  newSignIn: boolean;
+
+  @ApiProperty()
+  productUpdates: boolean;
+}
+
+export class PreferencesResponseDto {
+  @ApiProperty({ description: 'Preferences document version', example: 1 })
+  version: number;
+
+  @ApiProperty({ type: AiPreferencesDto })
+  ai: AiPreferencesDto;
+
+  @ApiProperty({ example: 'en-US' })
+  locale: string;
+
+  @ApiProperty({ example: 'UTC' })
+  timezone: string;
+
+  @ApiProperty({ type: NotificationPreferencesDto })
+  notifications: NotificationPreferencesDto;
+}
@@ -0,0 +1,67 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsLocale,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsTimeZone,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+// null resets a setting to its default, so every field is nullable
+
+export class UpdateAiPreferencesDto {
+  @ApiProperty({ required: false, nullable: true, example: 'gpt-4' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  model?: string | null;
+
+  @ApiProperty({ required: false, nullable: true, example: 0.7 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(2)
+  temperature?: number | null;
+}
+
+export class UpdateNotificationPreferencesDto {
+  @ApiProperty({ required: false, nullable: true })
+  @IsOptional()
+  @IsBoolean()
+  newSignIn?: boolean | null;
+
+  @ApiProperty({ required: false, nullable: true })
+  @IsOptional()
+  @IsBoolean()
+  productUpdates?: boolean | null;
+}
+
+export class UpdatePreferencesDto {
+  @ApiProperty({ required: false, type: UpdateAiPreferencesDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => UpdateAiPreferencesDto)
+  ai?: UpdateAiPreferencesDto;
+
+  @ApiProperty({ required: false, nullable: true, example: 'de-DE' })
+  @IsOptional()
+  @IsLocale()
+  locale?: string | null;
+
+  @ApiProperty({ required: false, nullable: true, example: 'Europe/Berlin' })
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string | null;
+
+  @ApiProperty({ required: false, type: UpdateNotificationPreferencesDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => UpdateNotificationPreferencesDto)
+  notifications?: UpdateNotificationPreferencesDto;
+}
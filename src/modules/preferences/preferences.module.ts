@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { PreferencesService } from './preferences.service';
+import { PermissionsModule } from '../permissions/permissions.module';
+
+@Module({
+  imports: [PermissionsModule],
+  providers: [PreferencesService],
+  exports: [PreferencesService],
+})
+export class PreferencesModule {}
@@ -0,0 +1,179 @@
+import {
+  Injectable,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, Role } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { PermissionsService } from '../permissions/permissions.service';
+import { UpdatePreferencesDto } from './dto/update-preferences.dto';
+import { PreferencesResponseDto } from './dto/preferences-response.dto';
+import {
+  PREFERENCES_VERSION,
+  StoredPreferences,
+  UserPreferences,
+} from './types/user-preferences.type';
+
+// Upgrade a stored document from the keyed version to the next one
+const MIGRATIONS: Record<
+  number,
+  (preferences: StoredPreferences) => StoredPreferences
+> = {};
+
+/**
+ * Per-user settings.
+ * Users only store the settings they changed, so defaults changed in config
+ * apply to everyone who kept them.
+ */
+@Injectable()
+export class PreferencesService {
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private permissionsService: PermissionsService,
+  ) {}
+
+  /**
+   * Settings for users who haven't changed anything
+   */
+  getDefaults(): UserPreferences {
+    return {
+      ai: {
+        model: this.configService.get<string>('ai.openai.model', 'gpt-4'),
+        temperature: this.configService.get<number>(
+          'ai.openai.temperature',
+          0.7,
+        ),
+      },
+      locale: this.configService.get<string>(
+        'users.preferences.locale',
+        'en-US',
+      ),
+      timezone: this.configService.get<string>(
+        'users.preferences.timezone',
+        'UTC',
+      ),
+      notifications: {
+        newSignIn: this.configService.get<boolean>(
+          'users.preferences.notifications.newSignIn',
+          true,
+        ),
+        productUpdates: this.configService.get<boolean>(
+          'users.preferences.notifications.productUpdates',
+          false,
+        ),
+      },
+    };
+  }
+
+  /**
+   * A user's settings, with defaults for anything they haven't changed
+   */
+  async getPreferences(userId: string): Promise<PreferencesResponseDto> {
+    return this.resolve(await this.findStored(userId));
+  }
+
+  /**
+   * Change some settings; null resets a setting to its default
+   */
+  async updatePreferences(
+    userId: string,
+    role: Role,
+    updatePreferencesDto: UpdatePreferencesDto,
+  ): Promise<PreferencesResponseDto> {
+    const model = updatePreferencesDto.ai?.model;
+
+    // Same rule as picking the model per request
+    if (model && !(await this.permissionsService.canUseModel(role, model))) {
+      throw new ForbiddenException(
+        `You are not allowed to use the ${model} model`,
+      );
+    }
+
+    const stored = await this.findStored(userId);
+    this.applyPatch(
+      stored as unknown as Record<string, unknown>,
+      updatePreferencesDto as Record<string, unknown>,
+    );
+    stored.version = PREFERENCES_VERSION;
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { preferences: stored as unknown as Prisma.InputJsonObject },
+    });
+
+    return this.resolve(stored);
+  }
+
+  private async findStored(userId: string): Promise<StoredPreferences> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { preferences: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return this.upgrade(user.preferences);
+  }
+
+  private upgrade(raw: Prisma.JsonValue | null): StoredPreferences {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      return { version: PREFERENCES_VERSION };
+    }
+
+    let preferences = raw as unknown as StoredPreferences;
+
+    while (
+      preferences.version < PREFERENCES_VERSION &&
+      MIGRATIONS[preferences.version]
+    ) {
+      preferences = MIGRATIONS[preferences.version](preferences);
+    }
+
+    return preferences;
+  }
+
+  private resolve(stored: StoredPreferences): PreferencesResponseDto {
+    const defaults = this.getDefaults();
+
+    return {
+      version: PREFERENCES_VERSION,
+      ai: { ...defaults.ai, ...stored.ai },
+      locale: stored.locale ?? defaults.locale,
+      timezone: stored.timezone ?? defaults.timezone,
+      notifications: { ...defaults.notifications, ...stored.notifications },
+    };
+  }
+
+  /**
+   * Deep-merge a patch: undefined keeps a value, null removes it
+   */
+  private applyPatch(
+    target: Record<string, unknown>,
+    patch: Record<string, unknown>,
+  ): void {
+    for (const [key, value] of Object.entries(patch)) {
+      if (value === undefined) {
+        continue;
+      }
+
+      if (value === null) {
+        delete target[key];
+      } else if (typeof value === 'object' && !Array.isArray(value)) {
+        const nested = (target[key] ?? {}) as Record<string, unknown>;
+        this.applyPatch(nested, value as Record<string, unknown>);
+
+        if (Object.keys(nested).length > 0) {
+          target[key] = nested;
+        } else {
+          delete target[key];
+        }
+      } else {
+        target[key] = value;
+      }
+    }
+  }
+}
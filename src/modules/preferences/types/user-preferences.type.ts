@@ -0,0 +1,30 @@
+// Bump when the stored shape changes and add a migration for the old one
+export const PREFERENCES_VERSION = 1;
+
+export interface UserPreferences {
+  ai: {
+    // Used by chat when the request doesn't name a model
+    model: string;
+    temperature: number;
+  };
+  // BCP 47 language tag, e.g. en-US
+  locale: string;
+  // IANA time zone, e.g. Europe/Berlin
+  timezone: string;
+  notifications: {
+    // Email when the account signs in from a new device
+    newSignIn: boolean;
+    productUpdates: boolean;
+  };
+}
+
+/**
+ * What is stored on the user: only the settings they changed
+ */
+export interface StoredPreferences {
+  version: number;
+  ai?: Partial<UserPreferences['ai']>;
+  locale?: string;
+  timezone?: string;
+  notifications?: Partial<UserPreferences['notifications']>;
+}
@@ -27,6 +27,13 @@ export class FileResponseDto {
   @ApiProperty({ required: false, nullable: true })
   category?: string | null;
 
+  @ApiProperty({
+    required: false,
+    nullable: true,
+    description: 'Organization the file is shared with',
+  })
+  organizationId?: string | null;
+
   @ApiProperty()
   createdAt: Date;
 }
@@ -10,31 +10,47 @@ import {
   HttpCode,
   HttpStatus,
   Res,
+  Header,
+  StreamableFile,
 } from '@nestjs/common';
+import { createReadStream } from 'fs';
 import { FileInterceptor } from '@nestjs/platform-express';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
+  ApiSecurity,
   ApiConsumes,
   ApiBody,
 } from '@nestjs/swagger';
 import { Response } from 'express';
 import { StorageService } from './storage.service';
 import { FileResponseDto } from './dto/file-upload.dto';
-import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import {
+  CurrentUser,
+  UserPayload,
+} from '../../common/decorators/current-user.decorator';
+import { RequireVerifiedEmail } from '../../common/decorators/email-verified.decorator';
+import { RequireScopes } from '../../common/decorators/scopes.decorator';
+import { RequireOrganization } from '../../common/decorators/require-organization.decorator';
+import { Public } from '../../common/decorators/public.decorator';
 
 @ApiTags('Storage')
 @Controller('storage')
 @ApiBearerAuth()
+@ApiSecurity('api-key')
 export class StorageController {
   constructor(private readonly storageService: StorageService) {}
 
   @Post('upload')
+  @RequireVerifiedEmail()
+  @RequireScopes('storage:write')
   @UseInterceptors(FileInterceptor('file'))
   @ApiConsumes('multipart/form-data')
-  @ApiOperation({ summary: 'Upload a file' })
+  @ApiOperation({
+    summary: 'Upload a file, shared with the active organization if any',
+  })
   @ApiBody({
     schema: {
       type: 'object',
@@ -57,15 +73,43 @@ export class StorageController {
   })
   @ApiResponse({ status: 400, description: 'Invalid file type or size' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Email address not verified' })
   async uploadFile(
     @UploadedFile() file: Express.Multer.File,
-    @CurrentUser('id') userId: string,
+    @CurrentUser() user: UserPayload,
     @Query('category') category?: string,
   ): Promise<FileResponseDto> {
-    return this.storageService.uploadFile(file, userId, category);
+    return this.storageService.uploadFile(
+      file,
+      user.id,
+      category,
+      user.organization,
+    );
+  }
+
+  @Get('organization')
+  @RequireScopes('storage:read')
+  @RequireOrganization()
+  @ApiOperation({ summary: 'List files of the active organization' })
+  @ApiResponse({
+    status: 200,
+    description: 'Files retrieved successfully',
+    type: [FileResponseDto],
+  })
+  @ApiResponse({ status: 403, description: 'No active organization' })
+  async listOrganizationFiles(
+    @CurrentUser() user: UserPayload,
+    @Query('category') category?: string,
+  ): Promise<FileResponseDto[]> {
+    // RequireOrganization guarantees an active organization
+    return this.storageService.listOrganizationFiles(
+      user.organization?.id ?? '',
+      category,
+    );
   }
 
   @Get('user/:userId')
+  @RequireScopes('storage:read')
   @ApiOperation({ summary: 'List user files' })
   @ApiResponse({
     status: 200,
@@ -74,21 +118,40 @@ export class StorageController {
   })
   async listUserFiles(
     @Param('userId') userId: string,
+    @CurrentUser() user: UserPayload,
     @Query('category') category?: string,
   ): Promise<FileResponseDto[]> {
-    return this.storageService.listUserFiles(userId, category);
+    return this.storageService.listUserFiles(userId, user, category);
+  }
+
+  @Public()
+  @Get('avatars/:fileId')
+  @Header('Cache-Control', 'public, max-age=31536000, immutable')
+  @Header('X-Content-Type-Options', 'nosniff')
+  @ApiOperation({ summary: 'Get an avatar image' })
+  @ApiResponse({ status: 200, description: 'Avatar image' })
+  @ApiResponse({ status: 404, description: 'Avatar not found' })
+  async getAvatar(@Param('fileId') fileId: string): Promise<StreamableFile> {
+    const avatar = await this.storageService.getAvatar(fileId);
+
+    // Each upload gets new file IDs, so the image behind a URL never changes
+    return new StreamableFile(createReadStream(avatar.path), {
+      type: avatar.mimetype,
+      disposition: 'inline',
+    });
   }
 
   @Get(':fileId')
+  @RequireScopes('storage:read')
   @ApiOperation({ summary: 'Download file' })
   @ApiResponse({ status: 200, description: 'File downloaded successfully' })
   @ApiResponse({ status: 404, description: 'File not found' })
   async downloadFile(
     @Param('fileId') fileId: string,
-    @CurrentUser('id') userId: string,
+    @CurrentUser() user: UserPayload,
     @Res() res: Response,
   ) {
-    const file = await this.storageService.downloadFile(fileId, userId);
+    const file = await this.storageService.downloadFile(fileId, user);
 
     res.set({
       'Content-Type': file.mimetype,
@@ -99,14 +162,15 @@ export class StorageController {
   }
 
   @Delete(':fileId')
+  @RequireScopes('storage:write')
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Delete file' })
   @ApiResponse({ status: 204, description: 'File deleted successfully' })
   @ApiResponse({ status: 404, description: 'File not found' })
   async deleteFile(
     @Param('fileId') fileId: string,
-    @CurrentUser('id') userId: string,
+    @CurrentUser() user: UserPayload,
   ): Promise<void> {
-    return this.storageService.deleteFile(fileId, userId);
+    return this.storageService.deleteFile(fileId, user);
   }
 }
@@ -2,6 +2,7 @@ import { Module } from '@nestjs/common';
 import { MulterModule } from '@nestjs/platform-express';
 import { StorageController } from './storage.controller';
 import { StorageService } from './storage.service';
+import { PermissionsModule } from '../permissions/permissions.module';
 import { memoryStorage } from 'multer';
 
 @Module({
@@ -9,6 +10,7 @@ import { memoryStorage } from 'multer';
     MulterModule.register({
       storage: memoryStorage(),
     }),
+    PermissionsModule,
   ],
   controllers: [StorageController],
   providers: [StorageService],
@@ -4,20 +4,42 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { File, OrganizationRole, Prisma } from '@prisma/client';
 import { PrismaService } from '../../database/prisma.service';
+import {
+  ActiveOrganization,
+  UserPayload,
+} from '../../common/decorators/current-user.decorator';
+import { PermissionsService } from '../permissions/permissions.service';
 import * as fs from 'fs';
 import * as path from 'path';
+import { randomUUID } from 'crypto';
 import { generateUniqueFilename } from '../../utils/helpers';
 
+// Formats served inline by the public avatar route
+const AVATAR_MIMETYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+export interface AvatarImage {
+  size: number;
+  buffer: Buffer;
+  mimetype: string;
+  extension: string;
+}
+
 @Injectable()
 export class StorageService {
   private uploadDir: string;
   private allowedTypes: string[];
   private maxFileSize: number;
+  // Only files written by saveAvatar get URLs under this prefix; uploads
+  // with the avatar category are ordinary private files
+  private avatarUrlPrefix: string;
+  private avatarFiles: Prisma.FileWhereInput;
 
   constructor(
     private prisma: PrismaService,
     private configService: ConfigService,
+    private permissionsService: PermissionsService,
   ) {
     this.uploadDir = this.configService.get<string>(
       'storage.uploadDir',
@@ -31,6 +53,17 @@ export class StorageService {
       'storage.maxFileSize',
       10485760,
     );
+
+    const apiPrefix = this.configService.get<string>(
+      'app.apiPrefix',
+      '/api/v1',
+    );
+    this.avatarUrlPrefix = `${apiPrefix}/storage/avatars/`;
+    this.avatarFiles = {
+      category: 'avatar',
+      organizationId: null,
+      url: { startsWith: this.avatarUrlPrefix },
+    };
   }
 
   /**
@@ -40,6 +73,7 @@ export class StorageService {
     file: Express.Multer.File,
     userId: string,
     category: string = 'general',
+    organization?: ActiveOrganization,
   ) {
     // Validate file type
     if (!this.allowedTypes.includes(file.mimetype)) {
@@ -60,21 +94,20 @@ export class StorageService {
 
     // Determine category folder
     const categoryFolder = category === 'avatar' ? 'avatars' : 'documents';
-    const userFolder = path.join(this.uploadDir, categoryFolder, userId);
-
-    // Create directory if it doesn't exist
-    if (!fs.existsSync(userFolder)) {
-      fs.mkdirSync(userFolder, { recursive: true });
-    }
 
     // Save file to disk
-    const filePath = path.join(userFolder, filename);
-    fs.writeFileSync(filePath, file.buffer);
+    const filePath = this.writeToDisk(
+      categoryFolder,
+      userId,
+      filename,
+      file.buffer,
+    );
 
     // Save file metadata to database
     const fileRecord = await this.prisma.file.create({
       data: {
         userId,
+        organizationId: organization?.id,
         filename,
         originalName: file.originalname,
         mimetype: file.mimetype,
@@ -91,7 +124,7 @@ export class StorageService {
   /**
    * Get file by ID
    */
-  async getFile(fileId: string, userId: string) {
+  async getFile(fileId: string, user: UserPayload) {
     const file = await this.prisma.file.findUnique({
       where: { id: fileId },
     });
@@ -100,8 +133,18 @@ export class StorageService {
       throw new NotFoundException('File not found');
     }
 
-    // Check if user owns the file or is admin
-    if (file.userId !== userId) {
+    // Shared files need their organization to be active, others the owner
+    const canAccess = file.organizationId
+      ? file.organizationId === user.organization?.id
+      : file.userId === user.id;
+
+    if (
+      !canAccess &&
+      !(await this.permissionsService.hasPermission(
+        user.role,
+        'files:read:any',
+      ))
+    ) {
       throw new BadRequestException(
         'You do not have permission to access this file',
       );
@@ -113,8 +156,8 @@ export class StorageService {
   /**
    * Download file
    */
-  async downloadFile(fileId: string, userId: string) {
-    const file = await this.getFile(fileId, userId);
+  async downloadFile(fileId: string, user: UserPayload) {
+    const file = await this.getFile(fileId, user);
 
     if (!fs.existsSync(file.path)) {
       throw new NotFoundException('File not found on disk');
@@ -130,8 +173,28 @@ export class StorageService {
   /**
    * Delete file
    */
-  async deleteFile(fileId: string, userId: string) {
-    const file = await this.getFile(fileId, userId);
+  async deleteFile(fileId: string, user: UserPayload) {
+    const file = await this.getFile(fileId, user);
+
+    // Files can be deleted by their uploader, org admins for shared files,
+    // or anyone allowed to delete any file
+    const canDelete =
+      file.userId === user.id ||
+      (!!file.organizationId &&
+        file.organizationId === user.organization?.id &&
+        user.organization?.role !== OrganizationRole.MEMBER);
+
+    if (
+      !canDelete &&
+      !(await this.permissionsService.hasPermission(
+        user.role,
+        'files:delete:any',
+      ))
+    ) {
+      throw new BadRequestException(
+        'You do not have permission to delete this file',
+      );
+    }
 
     // Delete from disk
     if (fs.existsSync(file.path)) {
@@ -147,7 +210,19 @@ export class StorageService {
   /**
    * List user files
    */
-  async listUserFiles(userId: string, category?: string) {
+  async listUserFiles(userId: string, user: UserPayload, category?: string) {
+    if (
+      userId !== user.id &&
+      !(await this.permissionsService.hasPermission(
+        user.role,
+        'files:read:any',
+      ))
+    ) {
+      throw new BadRequestException(
+        "You do not have permission to list this user's files",
+      );
+    }
+
     const where: { userId: string; category?: string } = { userId };
 
     if (category) {
@@ -159,4 +234,140 @@ export class StorageService {
       orderBy: { createdAt: 'desc' },
     });
   }
+
+  /**
+   * List files shared with an organization
+   */
+  async listOrganizationFiles(organizationId: string, category?: string) {
+    const where: { organizationId: string; category?: string } = {
+      organizationId,
+    };
+
+    if (category) {
+      where.category = category;
+    }
+
+    return this.prisma.file.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Store processed avatar images, one file per size, served publicly
+   */
+  async saveAvatar(userId: string, images: AvatarImage[]): Promise<File[]> {
+    const files: File[] = [];
+
+    for (const image of images) {
+      const id = randomUUID();
+      const filename = generateUniqueFilename(`avatar.${image.extension}`);
+
+      const filePath = this.writeToDisk(
+        'avatars',
+        userId,
+        filename,
+        image.buffer,
+      );
+
+      files.push(
+        await this.prisma.file.create({
+          data: {
+            id,
+            userId,
+            filename,
+            originalName: `avatar-${image.size}.${image.extension}`,
+            mimetype: image.mimetype,
+            size: image.buffer.length,
+            path: filePath,
+            url: `${this.avatarUrlPrefix}${id}`,
+            category: 'avatar',
+            metadata: { width: image.size, height: image.size },
+          },
+        }),
+      );
+    }
+
+    return files;
+  }
+
+  /**
+   * Avatar image for the public avatar route
+   */
+  async getAvatar(fileId: string) {
+    const file = await this.prisma.file.findFirst({
+      where: {
+        ...this.avatarFiles,
+        id: fileId,
+        mimetype: { in: AVATAR_MIMETYPES },
+      },
+    });
+
+    if (!file || !fs.existsSync(file.path)) {
+      throw new NotFoundException('Avatar not found');
+    }
+
+    return { path: file.path, mimetype: file.mimetype };
+  }
+
+  /**
+   * Delete a user's avatar files, except the ones to keep
+   */
+  async deleteAvatars(userId: string, keepIds: string[] = []): Promise<void> {
+    const where: Prisma.FileWhereInput = {
+      ...this.avatarFiles,
+      userId,
+      id: { notIn: keepIds },
+    };
+
+    const files = await this.prisma.file.findMany({
+      where,
+      select: { path: true },
+    });
+
+    for (const file of files) {
+      if (fs.existsSync(file.path)) {
+        fs.unlinkSync(file.path);
+      }
+    }
+
+    await this.prisma.file.deleteMany({ where });
+  }
+
+  /**
+   * Delete every file a user uploaded, from disk and database
+   */
+  async deleteUserFiles(userId: string): Promise<void> {
+    const files = await this.prisma.file.findMany({
+      where: { userId },
+      select: { path: true },
+    });
+
+    for (const file of files) {
+      if (fs.existsSync(file.path)) {
+        fs.unlinkSync(file.path);
+      }
+    }
+
+    await this.prisma.file.deleteMany({ where: { userId } });
+  }
+
+  private writeToDisk(
+    folder: string,
+    userId: string,
+    filename: string,
+    buffer: Buffer,
+  ): string {
+    const userFolder = path.join(this.uploadDir, folder, userId);
+
+    // Create directory if it doesn't exist
+    if (!fs.existsSync(userFolder)) {
+      fs.mkdirSync(userFolder, { recursive: true });
+    }
+
+    const filePath = path.join(userFolder, filename);
+    fs.writeFileSync(filePath, buffer);
+
+    return filePath;
+  }
 }
@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class DeactivateUserDto {
+  @ApiProperty({
+    example: 'Chargeback on invoice 2026-0142',
+    description: 'Why the account is deactivated, kept on the account',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
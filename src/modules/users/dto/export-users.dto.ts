@@ -0,0 +1,21 @@
+import { ApiProperty, OmitType } from '@nestjs/swagger';
+import { IsIn, IsOptional } from 'class-validator';
+import { ListUsersDto } from './list-users.dto';
+
+export const USER_EXPORT_FORMATS = ['csv', 'jsonl'] as const;
+
+export type UserExportFormat = (typeof USER_EXPORT_FORMATS)[number];
+
+export class ExportUsersDto extends OmitType(ListUsersDto, [
+  'page',
+  'limit',
+] as const) {
+  @ApiProperty({
+    enum: USER_EXPORT_FORMATS,
+    required: false,
+    default: 'csv',
+  })
+  @IsOptional()
+  @IsIn(USER_EXPORT_FORMATS)
+  format?: UserExportFormat;
+}
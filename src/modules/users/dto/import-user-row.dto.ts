@@ -0,0 +1,40 @@
+import { Transform } from 'class-transformer';
+import {
+  IsEmail,
+  IsEnum,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { Role } from '@prisma/client';
+
+// Empty CSV cells mean "not set"
+const emptyToUndefined = ({ value }: { value: unknown }) =>
+  value === '' ? undefined : value;
+
+/**
+ * One CSV row of a user import, validated like the equivalent API fields
+ */
+export class ImportUserRowDto {
+  @IsEmail({}, { message: 'Invalid email address' })
+  email: string;
+
+  @IsOptional()
+  @Transform(emptyToUndefined)
+  @IsString()
+  @MaxLength(50)
+  firstName?: string;
+
+  @IsOptional()
+  @Transform(emptyToUndefined)
+  @IsString()
+  @MaxLength(50)
+  lastName?: string;
+
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' && value !== '' ? value.toUpperCase() : undefined,
+  )
+  @IsEnum(Role)
+  role?: Role;
+}
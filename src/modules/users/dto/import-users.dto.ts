@@ -0,0 +1,18 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class ImportUsersDto {
+  @ApiProperty({
+    required: false,
+    default: false,
+    description: 'Email each created user a link to choose their password',
+  })
+  @IsOptional()
+  // Multipart fields arrive as text
+  @Transform(({ value }: { value: unknown }) =>
+    value === 'true' ? true : value === 'false' ? false : value,
+  )
+  @IsBoolean()
+  sendInvitations?: boolean;
+}
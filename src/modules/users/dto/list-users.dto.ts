@@ -0,0 +1,108 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { Role } from '@prisma/client';
+
+export const USER_SORT_FIELDS = [
+  'createdAt',
+  'updatedAt',
+  'lastLoginAt',
+  'email',
+  'firstName',
+  'lastName',
+  'totalTokensUsed',
+] as const;
+
+export type UserSortField = (typeof USER_SORT_FIELDS)[number];
+
+// Query strings arrive as text; keep anything else so validation rejects it
+const toBoolean = ({ value }: { value: unknown }) =>
+  value === 'true' ? true : value === 'false' ? false : value;
+
+export class ListUsersDto {
+  @ApiProperty({ required: false, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiProperty({ required: false, default: 10 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @ApiProperty({
+    required: false,
+    description: 'Case-insensitive match on email, first or last name',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  search?: string;
+
+  @ApiProperty({ enum: Role, required: false })
+  @IsOptional()
+  @IsEnum(Role)
+  role?: Role;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  emailVerified?: boolean;
+
+  @ApiProperty({
+    required: false,
+    example: '2026-01-01T00:00:00.000Z',
+    description: 'Created at or after',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  createdFrom?: Date;
+
+  @ApiProperty({
+    required: false,
+    example: '2026-12-31T23:59:59.999Z',
+    description: 'Created at or before',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  createdTo?: Date;
+
+  @ApiProperty({
+    enum: USER_SORT_FIELDS,
+    required: false,
+    default: 'createdAt',
+  })
+  @IsOptional()
+  @IsIn(USER_SORT_FIELDS)
+  sortBy?: UserSortField;
+
+  @ApiProperty({ enum: ['asc', 'desc'], required: false, default: 'desc' })
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  sortOrder?: 'asc' | 'desc';
+}
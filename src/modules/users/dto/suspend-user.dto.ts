@@ -0,0 +1,33 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsDate,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinDate,
+} from 'class-validator';
+
+export class SuspendUserDto {
+  @ApiProperty({
+    example: 'Repeated spam in shared conversations',
+    description: 'Why the account is suspended, sent to the user',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+
+  @ApiProperty({
+    required: false,
+    example: '2027-01-01T00:00:00.000Z',
+    description:
+      'When the suspension lifts itself; omit to suspend until reinstated',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  @MinDate(() => new Date(), { message: 'until must be in the future' })
+  until?: Date;
+}
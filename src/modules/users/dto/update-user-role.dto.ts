@@ -0,0 +1,9 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum } from 'class-validator';
+import { Role } from '@prisma/client';
+
+export class UpdateUserRoleDto {
+  @ApiProperty({ enum: Role })
+  @IsEnum(Role)
+  role: Role;
+}
@@ -1,5 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsOptional, MaxLength, IsUrl } from 'class-validator';
+import { IsString, IsOptional, MaxLength } from 'class-validator';
 
 export class UpdateUserDto {
   @ApiProperty({ example: 'John', required: false })
@@ -13,9 +13,4 @@ export class UpdateUserDto {
   @IsString()
   @MaxLength(50)
   lastName?: string;
-
-  @ApiProperty({ example: 'https://example.com/avatar.jpg', required: false })
-  @IsOptional()
-  @IsUrl()
-  avatarUrl?: string;
 }
@@ -0,0 +1,64 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UserImportRowResultDto {
+  @ApiProperty({
+    description: 'Row number in the CSV file, not counting the header',
+    example: 1,
+  })
+  row: number;
+
+  @ApiProperty({ example: 'jane@example.com' })
+  email: string;
+
+  @ApiProperty({ enum: ['created', 'skipped', 'invalid'] })
+  status: 'created' | 'skipped' | 'invalid';
+
+  @ApiProperty({ required: false })
+  userId?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Whether the account setup email was sent',
+  })
+  invited?: boolean;
+
+  @ApiProperty({ required: false, type: [String] })
+  errors?: string[];
+}
+
+export class UserImportResultDto {
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  created: number;
+
+  @ApiProperty({ description: 'Rows for emails that already have an account' })
+  skipped: number;
+
+  @ApiProperty()
+  invalid: number;
+
+  @ApiProperty({ type: [UserImportRowResultDto] })
+  rows: UserImportRowResultDto[];
+}
+
+export class UserImportJobDto {
+  @ApiProperty()
+  jobId: string;
+
+  @ApiProperty({
+    example: 'completed',
+    description: 'Bull job state: waiting, active, completed, failed, ...',
+  })
+  status: string;
+
+  @ApiProperty({ description: 'Percentage of rows processed' })
+  progress: number;
+
+  @ApiProperty({ required: false, type: UserImportResultDto })
+  result?: UserImportResultDto;
+
+  @ApiProperty({ required: false })
+  failedReason?: string;
+}
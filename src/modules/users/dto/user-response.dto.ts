@@ -26,9 +26,28 @@ export class UserResponseDto {
   @ApiProperty()
   emailVerified: boolean;
 
+  @ApiProperty()
+  twoFactorEnabled: boolean;
+
   @ApiProperty()
   totalTokensUsed: number;
 
+  @ApiProperty({ required: false, nullable: true })
+  lastLoginAt?: Date | null;
+
+  @ApiProperty({
+    required: false,
+    nullable: true,
+    description: 'Set when an admin deactivated the account',
+  })
+  deactivatedAt?: Date | null;
+
+  @ApiProperty({ required: false, nullable: true })
+  deactivationReason?: string | null;
+
+  @ApiProperty({ required: false, nullable: true })
+  erasureScheduledAt?: Date | null;
+
   @ApiProperty()
   createdAt: Date;
 
@@ -0,0 +1,90 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { UserDataService } from '../user-data.service';
+import { UserImportJobData, UserImportService } from '../user-import.service';
+import { SuspensionService } from '../../auth/services/suspension.service';
+
+@Processor('user-data')
+export class UserDataProcessor {
+  private readonly logger = new Logger(UserDataProcessor.name);
+
+  constructor(
+    private userDataService: UserDataService,
+    private userImportService: UserImportService,
+    private suspensionService: SuspensionService,
+  ) {}
+
+  @Process('export')
+  async handleExport(job: Job<{ userId: string }>) {
+    this.logger.debug(`Processing data export job ${job.id}`);
+
+    try {
+      await this.userDataService.buildExport(job.data.userId);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      const errorStack = error instanceof Error ? error.stack : undefined;
+      this.logger.error(
+        `Failed to process data export job ${job.id}: ${errorMessage}`,
+        errorStack,
+      );
+
+      // No retries left, so the export is no longer pending
+      if (job.attemptsMade + 1 >= (job.opts.attempts ?? 1)) {
+        await this.userDataService.clearPendingExport(job.data.userId);
+      }
+      throw error;
+    }
+  }
+
+  @Process('delete-export')
+  async handleDeleteExport(job: Job<{ path: string }>) {
+    await this.userDataService.deleteExport(job.data.path);
+  }
+
+  @Process('erase')
+  async handleErase(job: Job<{ userId: string }>) {
+    this.logger.debug(`Processing erasure job ${job.id}`);
+
+    try {
+      await this.userDataService.eraseUser(job.data.userId);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      const errorStack = error instanceof Error ? error.stack : undefined;
+      this.logger.error(
+        `Failed to process erasure job ${job.id}: ${errorMessage}`,
+        errorStack,
+      );
+      throw error;
+    }
+  }
+
+  @Process('import')
+  async handleImport(job: Job<UserImportJobData>) {
+    this.logger.debug(
+      `Processing user import job ${job.id} (${job.data.rows.length} rows)`,
+    );
+
+    try {
+      return await this.userImportService.importUsers(job.data, (progress) =>
+        job.progress(progress),
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      const errorStack = error instanceof Error ? error.stack : undefined;
+      this.logger.error(
+        `Failed to process user import job ${job.id}: ${errorMessage}`,
+        errorStack,
+      );
+      throw error;
+    }
+  }
+
+  @Process('lift-suspension')
+  async handleLiftSuspension(job: Job<{ suspensionId: string }>) {
+    await this.suspensionService.liftExpired(job.data.suspensionId);
+  }
+}
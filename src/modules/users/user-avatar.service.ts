@@ -0,0 +1,94 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import sharp from 'sharp';
+import { PrismaService } from '../../database/prisma.service';
+import { AvatarImage, StorageService } from '../storage/storage.service';
+
+// Formats accepted as upload, checked on the decoded image
+const INPUT_FORMATS = ['jpeg', 'png', 'webp', 'gif'];
+
+// Refuse images that would take too much memory to decode
+const MAX_INPUT_PIXELS = 50_000_000;
+
+/**
+ * Profile pictures.
+ * Uploads are cropped to the configured square sizes and re-encoded, which
+ * also strips EXIF data such as the location of a photo.
+ */
+@Injectable()
+export class UserAvatarService {
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private storageService: StorageService,
+  ) {}
+
+  /**
+   * Replace a user's avatar and delete the previous one
+   */
+  async updateAvatar(
+    userId: string,
+    file: Express.Multer.File | undefined,
+  ): Promise<void> {
+    if (!file) {
+      throw new BadRequestException('An image file is required');
+    }
+
+    const images = await this.resize(file.buffer);
+    const files = await this.storageService.saveAvatar(userId, images);
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { avatarUrl: files[0].url },
+    });
+
+    await this.storageService.deleteAvatars(
+      userId,
+      files.map((saved) => saved.id),
+    );
+  }
+
+  private async resize(buffer: Buffer): Promise<AvatarImage[]> {
+    let metadata: sharp.Metadata;
+
+    try {
+      metadata = await sharp(buffer).metadata();
+    } catch {
+      throw new BadRequestException('The file is not a valid image');
+    }
+
+    if (!INPUT_FORMATS.includes(metadata.format)) {
+      throw new BadRequestException(
+        `Avatars must be ${INPUT_FORMATS.join(', ')} images`,
+      );
+    }
+
+    if (metadata.width * metadata.height > MAX_INPUT_PIXELS) {
+      throw new BadRequestException('The image dimensions are too large');
+    }
+
+    // Largest first
+    const sizes = [
+      ...new Set(
+        this.configService.get<number[]>('users.avatar.sizes', [512, 128]),
+      ),
+    ]
+      .filter((size) => size > 0)
+      .sort((a, b) => b - a);
+
+    return Promise.all(
+      sizes.map(async (size) => ({
+        size,
+        // Animated images keep their first frame; rotate() applies the EXIF
+        // orientation before it is stripped
+        buffer: await sharp(buffer)
+          .rotate()
+          .resize(size, size, { fit: 'cover' })
+          .webp({ quality: 85 })
+          .toBuffer(),
+        mimetype: 'image/webp',
+        extension: 'webp',
+      })),
+    );
+  }
+}
@@ -0,0 +1,330 @@
+import {
+  Injectable,
+  ConflictException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { AuthEventType } from '@prisma/client';
+import archiver from 'archiver';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PrismaService } from '../../database/prisma.service';
+import { RedisService } from '../../database/redis.service';
+import { EmailService } from '../email/email.service';
+import { StorageService } from '../storage/storage.service';
+import { AuthEventsService } from '../auth/services/auth-events.service';
+import { ClientInfo } from '../../common/decorators/client-info.decorator';
+import {
+  generateToken,
+  hashToken,
+  sanitizeFilename,
+} from '../../utils/helpers';
+import { QUEUE_NAMES } from '../../utils/constants';
+
+interface DataExport {
+  userId: string;
+  path: string;
+  createdAt: string;
+}
+
+/**
+ * Personal data export and erasure.
+ * Exports are built by a queue job into a ZIP archive that can be downloaded
+ * with an emailed link until it expires. Deleted accounts are erased by a
+ * delayed job once the grace period is over.
+ */
+@Injectable()
+export class UserDataService {
+  private readonly logger = new Logger(UserDataService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private redisService: RedisService,
+    private configService: ConfigService,
+    private emailService: EmailService,
+    private storageService: StorageService,
+    private authEventsService: AuthEventsService,
+    @InjectQueue(QUEUE_NAMES.USER_DATA) private userDataQueue: Queue,
+  ) {}
+
+  /**
+   * Queue a data export, one at a time per user
+   */
+  async requestExport(
+    userId: string,
+    clientInfo?: ClientInfo,
+  ): Promise<{ message: string }> {
+    const pendingKey = `data-export-pending:${userId}`;
+
+    if (await this.redisService.exists(pendingKey)) {
+      throw new ConflictException('A data export is already being prepared');
+    }
+
+    await this.redisService.set(pendingKey, '1', 3600);
+    await this.userDataQueue.add(
+      'export',
+      { userId },
+      { attempts: 3, backoff: 60000, removeOnComplete: true },
+    );
+
+    await this.authEventsService.record(
+      AuthEventType.DATA_EXPORT_REQUESTED,
+      { userId },
+      clientInfo,
+    );
+
+    return {
+      message:
+        'Your data export is being prepared. You will receive a download link by email.',
+    };
+  }
+
+  /**
+   * Build the export archive and email its download link
+   */
+  async buildExport(userId: string): Promise<void> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        avatarUrl: true,
+        role: true,
+        emailVerified: true,
+        twoFactorEnabled: true,
+        totalTokensUsed: true,
+        preferences: true,
+        lastLoginAt: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    });
+
+    if (!user) {
+      this.logger.warn(`User ${userId} no longer exists, skipping export`);
+      await this.clearPendingExport(userId);
+      return;
+    }
+
+    const [conversations, files, authEvents] = await Promise.all([
+      this.prisma.conversation.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'asc' },
+        include: { messages: { orderBy: { createdAt: 'asc' } } },
+      }),
+      this.prisma.file.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.authEvent.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'asc' },
+        omit: { userId: true },
+      }),
+    ]);
+
+    const archivePath = path.join(
+      this.exportDir(userId),
+      `export-${Date.now()}.zip`,
+    );
+    await fs.promises.mkdir(path.dirname(archivePath), { recursive: true });
+
+    const output = fs.createWriteStream(archivePath);
+    const archive = archiver('zip', { zlib: { level: 9 } });
+    const written = new Promise<void>((resolve, reject) => {
+      output.on('close', resolve);
+      output.on('error', reject);
+      archive.on('error', reject);
+    });
+
+    archive.pipe(output);
+    archive.append(JSON.stringify(user, null, 2), { name: 'profile.json' });
+    archive.append(JSON.stringify(conversations, null, 2), {
+      name: 'conversations.json',
+    });
+    archive.append(
+      JSON.stringify(
+        // Storage paths are internal
+        files.map(({ path: _path, ...file }) => file),
+        null,
+        2,
+      ),
+      { name: 'files.json' },
+    );
+    archive.append(JSON.stringify(authEvents, null, 2), {
+      name: 'security-events.json',
+    });
+
+    for (const file of files) {
+      if (fs.existsSync(file.path)) {
+        archive.file(file.path, {
+          name: `files/${file.id}-${sanitizeFilename(file.originalName)}`,
+        });
+      }
+    }
+
+    await archive.finalize();
+    await written;
+
+    const ttl = this.configService.get<number>('users.dataExport.ttl', 172800);
+    const token = generateToken(32);
+    const exportRecord: DataExport = {
+      userId,
+      path: archivePath,
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.redisService.set(
+      `data-export:${hashToken(token)}`,
+      JSON.stringify(exportRecord),
+      ttl,
+    );
+
+    // Remove the archive once the link has expired
+    await this.userDataQueue.add(
+      'delete-export',
+      { path: archivePath },
+      { delay: ttl * 1000, removeOnComplete: true },
+    );
+
+    await this.emailService.sendDataExportEmail(
+      user.email,
+      `${this.configService.get<string>('users.dataExport.downloadUrl')}/${token}`,
+      new Date(Date.now() + ttl * 1000),
+    );
+
+    await this.clearPendingExport(userId);
+  }
+
+  /**
+   * Let the user request a new export. Called once the export is done, or
+   * when its job has failed for the last time; retries keep it pending.
+   */
+  async clearPendingExport(userId: string): Promise<void> {
+    await this.redisService.del(`data-export-pending:${userId}`);
+  }
+
+  /**
+   * Archive behind a download token
+   */
+  async getExport(token: string): Promise<{ path: string; filename: string }> {
+    const record = await this.redisService.get(
+      `data-export:${hashToken(token)}`,
+    );
+
+    if (!record) {
+      throw new NotFoundException('Export not found or expired');
+    }
+
+    const dataExport = JSON.parse(record) as DataExport;
+
+    if (!fs.existsSync(dataExport.path)) {
+      throw new NotFoundException('Export not found or expired');
+    }
+
+    return {
+      path: dataExport.path,
+      filename: `data-export-${dataExport.createdAt.slice(0, 10)}.zip`,
+    };
+  }
+
+  /**
+   * Delete an expired export archive
+   */
+  async deleteExport(archivePath: string): Promise<void> {
+    await fs.promises.rm(archivePath, { force: true });
+  }
+
+  /**
+   * Erase the account's data after the grace period, unless it is
+   * reactivated before then
+   */
+  async scheduleErasure(
+    userId: string,
+    clientInfo?: ClientInfo,
+  ): Promise<Date> {
+    const gracePeriod = this.configService.get<number>(
+      'users.erasure.gracePeriod',
+      2592000,
+    );
+    const erasureScheduledAt = new Date(Date.now() + gracePeriod * 1000);
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { erasureScheduledAt },
+    });
+
+    await this.userDataQueue.add(
+      'erase',
+      { userId },
+      {
+        delay: gracePeriod * 1000,
+        attempts: 3,
+        backoff: 60000,
+        removeOnComplete: true,
+      },
+    );
+
+    await this.authEventsService.record(
+      AuthEventType.ACCOUNT_ERASURE_SCHEDULED,
+      { userId },
+      clientInfo,
+      { erasureScheduledAt: erasureScheduledAt.toISOString() },
+    );
+
+    return erasureScheduledAt;
+  }
+
+  /**
+   * Permanently delete a user's rows and files if their erasure is due
+   */
+  async eraseUser(userId: string): Promise<void> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { isActive: true, erasureScheduledAt: true },
+    });
+
+    // Reactivated, rescheduled or already erased
+    if (
+      !user ||
+      user.isActive ||
+      !user.erasureScheduledAt ||
+      user.erasureScheduledAt > new Date()
+    ) {
+      this.logger.debug(`Erasure of user ${userId} is not due, skipping`);
+      return;
+    }
+
+    await this.storageService.deleteUserFiles(userId);
+    await fs.promises.rm(this.exportDir(userId), {
+      recursive: true,
+      force: true,
+    });
+
+    // Conversations, tokens, events and the rest cascade
+    await this.prisma.user.delete({ where: { id: userId } });
+
+    // No personal data is kept about the erased account
+    await this.authEventsService.record(
+      AuthEventType.ACCOUNT_DELETED,
+      {},
+      undefined,
+      { userId, erasure: true },
+    );
+
+    this.logger.log(`Erased user ${userId}`);
+  }
+
+  private exportDir(userId: string): string {
+    return path.join(
+      this.configService.get<string>('storage.uploadDir', './uploads'),
+      'exports',
+      userId,
+    );
+  }
+}
@@ -0,0 +1,296 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { Prisma, Role } from '@prisma/client';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { parse, CsvError } from 'csv-parse/sync';
+import { PrismaService } from '../../database/prisma.service';
+import { AuthService } from '../auth/auth.service';
+import { QUEUE_NAMES } from '../../utils/constants';
+import { ImportUserRowDto } from './dto/import-user-row.dto';
+import {
+  UserImportJobDto,
+  UserImportResultDto,
+  UserImportRowResultDto,
+} from './dto/user-import-response.dto';
+
+type ImportRow = Record<string, string>;
+
+export interface UserImportJobData {
+  rows: ImportRow[];
+  sendInvitations: boolean;
+  actorId: string;
+}
+
+// Accepted spellings of each column, compared without case, spaces,
+// dashes or underscores
+const COLUMN_ALIASES: Record<string, keyof ImportUserRowDto> = {
+  email: 'email',
+  emailaddress: 'email',
+  firstname: 'firstName',
+  lastname: 'lastName',
+  role: 'role',
+};
+
+/**
+ * Bulk user creation from CSV files.
+ * The file is parsed when uploaded, then rows are validated and created by a
+ * queue job whose per-row results can be fetched until the job is cleaned up.
+ */
+@Injectable()
+export class UserImportService {
+  private readonly logger = new Logger(UserImportService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private authService: AuthService,
+    @InjectQueue(QUEUE_NAMES.USER_DATA) private userDataQueue: Queue,
+  ) {}
+
+  /**
+   * Parse a CSV upload and queue its rows for import
+   */
+  async queueImport(
+    file: Express.Multer.File | undefined,
+    sendInvitations: boolean,
+    actorId: string,
+  ): Promise<UserImportJobDto> {
+    if (!file) {
+      throw new BadRequestException('A CSV file is required');
+    }
+
+    const maxRows = this.configService.get<number>(
+      'users.import.maxRows',
+      1000,
+    );
+    // One row past the limit is enough to reject the file
+    const rows = this.parseCsv(file.buffer, maxRows + 1);
+
+    if (rows.length === 0) {
+      throw new BadRequestException('The CSV file has no rows');
+    }
+
+    if (rows.length > maxRows) {
+      throw new BadRequestException(
+        `The CSV file has more than ${maxRows} rows`,
+      );
+    }
+
+    const job = await this.userDataQueue.add(
+      'import',
+      { rows, sendInvitations, actorId } satisfies UserImportJobData,
+      {
+        // Keep results around for a day so they can be fetched
+        removeOnComplete: { age: 86400 },
+        removeOnFail: { age: 86400 },
+      },
+    );
+
+    return { jobId: String(job.id), status: 'waiting', progress: 0 };
+  }
+
+  /**
+   * Status and, once completed, per-row results of an import job
+   */
+  async getImportJob(jobId: string): Promise<UserImportJobDto> {
+    const job = await this.userDataQueue.getJob(jobId);
+
+    if (!job || job.name !== 'import') {
+      throw new NotFoundException('Import not found');
+    }
+
+    return {
+      jobId: String(job.id),
+      status: await job.getState(),
+      progress: job.progress() as number,
+      result: (job.returnvalue as UserImportResultDto | null) ?? undefined,
+      failedReason: job.failedReason,
+    };
+  }
+
+  /**
+   * Validate and create each row; existing accounts are skipped
+   */
+  async importUsers(
+    data: UserImportJobData,
+    onProgress?: (progress: number) => Promise<void>,
+  ): Promise<UserImportResultDto> {
+    const { rows, sendInvitations, actorId } = data;
+    const results: UserImportRowResultDto[] = [];
+    const seenEmails = new Set<string>();
+
+    const actor = await this.prisma.user.findUnique({
+      where: { id: actorId },
+      select: { email: true, firstName: true, lastName: true },
+    });
+    const invitedBy =
+      [actor?.firstName, actor?.lastName].filter(Boolean).join(' ') ||
+      actor?.email ||
+      'An administrator';
+
+    for (const [index, row] of rows.entries()) {
+      const result = await this.importRow(
+        row,
+        index + 1,
+        seenEmails,
+        sendInvitations ? invitedBy : null,
+      );
+      results.push(result);
+
+      if (onProgress && ((index + 1) % 10 === 0 || index === rows.length - 1)) {
+        await onProgress(Math.round(((index + 1) / rows.length) * 100));
+      }
+    }
+
+    const count = (status: UserImportRowResultDto['status']) =>
+      results.filter((result) => result.status === status).length;
+
+    const summary = {
+      total: results.length,
+      created: count('created'),
+      skipped: count('skipped'),
+      invalid: count('invalid'),
+      rows: results,
+    };
+
+    this.logger.log(
+      `User import by ${actorId}: ${summary.created} created, ${summary.skipped} skipped, ${summary.invalid} invalid`,
+    );
+
+    return summary;
+  }
+
+  private async importRow(
+    row: ImportRow,
+    rowNumber: number,
+    seenEmails: Set<string>,
+    invitedBy: string | null,
+  ): Promise<UserImportRowResultDto> {
+    const dto = plainToInstance(ImportUserRowDto, {
+      email: row.email?.trim() ?? '',
+      firstName: row.firstName?.trim(),
+      lastName: row.lastName?.trim(),
+      role: row.role?.trim(),
+    });
+    const email = dto.email;
+
+    const errors = await validate(dto);
+
+    if (errors.length > 0) {
+      return {
+        row: rowNumber,
+        email,
+        status: 'invalid',
+        errors: errors.flatMap((error) =>
+          Object.values(error.constraints ?? {}),
+        ),
+      };
+    }
+
+    const normalizedEmail = email.toLowerCase();
+
+    if (seenEmails.has(normalizedEmail)) {
+      return {
+        row: rowNumber,
+        email,
+        status: 'invalid',
+        errors: ['Duplicate email in file'],
+      };
+    }
+    seenEmails.add(normalizedEmail);
+
+    const existingUser = await this.prisma.user.findFirst({
+      where: { email: { equals: email, mode: 'insensitive' } },
+      select: { id: true },
+    });
+
+    if (existingUser) {
+      return {
+        row: rowNumber,
+        email,
+        status: 'skipped',
+        userId: existingUser.id,
+      };
+    }
+
+    let userId: string;
+
+    try {
+      // No password: the user signs in through the setup link, a magic
+      // link, social login or a password reset
+      const user = await this.prisma.user.create({
+        data: {
+          email,
+          firstName: dto.firstName,
+          lastName: dto.lastName,
+          role: dto.role ?? Role.USER,
+        },
+        select: { id: true },
+      });
+      userId = user.id;
+    } catch (error) {
+      // Registered between the check and the insert
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        return { row: rowNumber, email, status: 'skipped' };
+      }
+      throw error;
+    }
+
+    if (!invitedBy) {
+      return { row: rowNumber, email, status: 'created', userId };
+    }
+
+    let invited = true;
+
+    try {
+      await this.authService.sendAccountSetupEmail(userId, email, invitedBy);
+    } catch {
+      // The user can still use "Forgot password"
+      this.logger.warn(`Could not send account setup email to ${email}`);
+      invited = false;
+    }
+
+    return { row: rowNumber, email, status: 'created', userId, invited };
+  }
+
+  private parseCsv(content: Buffer, maxRecords: number): ImportRow[] {
+    let rows: ImportRow[];
+
+    try {
+      rows = parse(content, {
+        bom: true,
+        columns: (header: string[]) =>
+          header.map(
+            (column) =>
+              COLUMN_ALIASES[column.toLowerCase().replace(/[\s_-]/g, '')] ??
+              column,
+          ),
+        skip_empty_lines: true,
+        trim: true,
+        to: maxRecords,
+      }) as ImportRow[];
+    } catch (error) {
+      if (error instanceof CsvError) {
+        throw new BadRequestException(`Invalid CSV file: ${error.message}`);
+      }
+      throw error;
+    }
+
+    if (rows.length > 0 && !('email' in rows[0])) {
+      throw new BadRequestException('The CSV file needs an email column');
+    }
+
+    return rows;
+  }
+}
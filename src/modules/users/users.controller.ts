@@ -1,6 +1,8 @@
 import {
   Controller,
   Get,
+  Post,
+  Put,
   Patch,
   Delete,
   Body,
@@ -8,26 +10,72 @@ import {
   Query,
   HttpCode,
   HttpStatus,
+  BadRequestException,
+  StreamableFile,
+  UploadedFile,
 } from '@nestjs/common';
+import { Throttle } from '@nestjs/throttler';
+import { createReadStream } from 'fs';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
-  ApiQuery,
 } from '@nestjs/swagger';
 import { UsersService } from './users.service';
+import { UserDataService } from './user-data.service';
+import { UserImportService } from './user-import.service';
+import { UserAvatarService } from './user-avatar.service';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { UserResponseDto } from './dto/user-response.dto';
-import { CurrentUser } from '../../common/decorators/current-user.decorator';
-import { Roles } from '../../common/decorators/roles.decorator';
-import { Role } from '@prisma/client';
+import { ListUsersDto } from './dto/list-users.dto';
+import { UpdateUserRoleDto } from './dto/update-user-role.dto';
+import { DeactivateUserDto } from './dto/deactivate-user.dto';
+import { SuspendUserDto } from './dto/suspend-user.dto';
+import { ExportUsersDto } from './dto/export-users.dto';
+import { ImportUsersDto } from './dto/import-users.dto';
+import { UserImportJobDto } from './dto/user-import-response.dto';
+import { PreferencesService } from '../preferences/preferences.service';
+import { UpdatePreferencesDto } from '../preferences/dto/update-preferences.dto';
+import { PreferencesResponseDto } from '../preferences/dto/preferences-response.dto';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { SessionsService } from '../auth/services/sessions.service';
+import { SessionResponseDto } from '../auth/dto/session-response.dto';
+import { ImpersonationService } from '../auth/services/impersonation.service';
+import { ImpersonateDto } from '../auth/dto/impersonate.dto';
+import { AuthEventsService } from '../auth/services/auth-events.service';
+import { SuspensionService } from '../auth/services/suspension.service';
+import { SuspensionResponseDto } from '../auth/dto/suspension-response.dto';
+import { ListAuthEventsDto } from '../auth/dto/list-auth-events.dto';
+import { AuthEventListResponseDto } from '../auth/dto/auth-event-response.dto';
+import {
+  ImpersonationLogResponseDto,
+  ImpersonationResponseDto,
+} from '../auth/dto/impersonation-response.dto';
+import { DisallowImpersonation } from '../../common/decorators/disallow-impersonation.decorator';
+import {
+  CurrentUser,
+  UserPayload,
+} from '../../common/decorators/current-user.decorator';
+import { ClientInfo } from '../../common/decorators/client-info.decorator';
+import { Public } from '../../common/decorators/public.decorator';
+import { ApiFile } from '../../common/decorators/api-file.decorator';
 
 @ApiTags('Users')
 @Controller('users')
 @ApiBearerAuth()
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly userDataService: UserDataService,
+    private readonly userImportService: UserImportService,
+    private readonly userAvatarService: UserAvatarService,
+    private readonly sessionsService: SessionsService,
+    private readonly impersonationService: ImpersonationService,
+    private readonly authEventsService: AuthEventsService,
+    private readonly suspensionService: SuspensionService,
+    private readonly preferencesService: PreferencesService,
+  ) {}
 
   @Get('me')
   @ApiOperation({ summary: 'Get current user profile' })
@@ -58,38 +106,225 @@ export class UsersController {
     return this.usersService.updateUser(userId, updateUserDto);
   }
 
+  @Put('me/avatar')
+  @Throttle({ default: { limit: 10, ttl: 3600000 } })
+  @ApiFile('file', 'users.avatar.maxFileSize')
+  @ApiOperation({
+    summary:
+      'Upload a profile picture (JPEG, PNG, WebP or GIF, cropped to squares)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Avatar updated successfully',
+    type: UserResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Missing or invalid image',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 413, description: 'Image file too large' })
+  async updateAvatar(
+    @CurrentUser('id') userId: string,
+    @UploadedFile() file: Express.Multer.File | undefined,
+  ): Promise<UserResponseDto> {
+    await this.userAvatarService.updateAvatar(userId, file);
+
+    return this.usersService.getCurrentUser(userId);
+  }
+
+  @Get('me/preferences')
+  @ApiOperation({
+    summary: 'Get current user preferences, with defaults filled in',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Preferences retrieved successfully',
+    type: PreferencesResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getPreferences(
+    @CurrentUser('id') userId: string,
+  ): Promise<PreferencesResponseDto> {
+    return this.preferencesService.getPreferences(userId);
+  }
+
+  @Patch('me/preferences')
+  @ApiOperation({
+    summary: 'Update current user preferences (null resets to the default)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Preferences updated successfully',
+    type: PreferencesResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid preference value' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Model not allowed' })
+  async updatePreferences(
+    @CurrentUser() user: UserPayload,
+    @Body() updatePreferencesDto: UpdatePreferencesDto,
+  ): Promise<PreferencesResponseDto> {
+    return this.preferencesService.updatePreferences(
+      user.id,
+      user.role,
+      updatePreferencesDto,
+    );
+  }
+
   @Delete('me')
+  @DisallowImpersonation()
   @HttpCode(HttpStatus.NO_CONTENT)
-  @ApiOperation({ summary: 'Delete current user account' })
+  @ApiOperation({
+    summary:
+      'Delete current user account (erased permanently after the grace period)',
+  })
   @ApiResponse({
     status: 204,
-    description: 'User account deleted successfully',
+    description: 'User account deactivated and scheduled for erasure',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Not allowed while impersonating' })
+  async deleteCurrentUser(
+    @CurrentUser('id') userId: string,
+    @ClientInfo() clientInfo: ClientInfo,
+  ): Promise<void> {
+    return this.usersService.deleteUser(userId, clientInfo);
+  }
+
+  @Post('me/export')
+  @DisallowImpersonation()
+  @Throttle({ default: { limit: 3, ttl: 3600000 } })
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Request an export of all personal data (emailed when ready)',
+  })
+  @ApiResponse({ status: 202, description: 'Export queued' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Not allowed while impersonating' })
+  @ApiResponse({ status: 409, description: 'An export is already in progress' })
+  async requestExport(
+    @CurrentUser('id') userId: string,
+    @ClientInfo() clientInfo: ClientInfo,
+  ) {
+    return this.userDataService.requestExport(userId, clientInfo);
+  }
+
+  @Public()
+  @Get('exports/:token')
+  @ApiOperation({ summary: 'Download a personal data export' })
+  @ApiResponse({ status: 200, description: 'Zip archive' })
+  @ApiResponse({ status: 404, description: 'Export not found or expired' })
+  async downloadExport(@Param('token') token: string): Promise<StreamableFile> {
+    const { path, filename } = await this.userDataService.getExport(token);
+
+    return new StreamableFile(createReadStream(path), {
+      type: 'application/zip',
+      disposition: `attachment; filename="${filename}"`,
+    });
+  }
+
+  @Post('impersonation/stop')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Stop impersonating and revoke the impersonation token',
   })
+  @ApiResponse({ status: 204, description: 'Impersonation stopped' })
+  @ApiResponse({ status: 400, description: 'Not impersonating' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
-  async deleteCurrentUser(@CurrentUser('id') userId: string): Promise<void> {
-    return this.usersService.deleteUser(userId);
+  async stopImpersonation(@CurrentUser() user: UserPayload): Promise<void> {
+    if (!user.actor || !user.sessionId) {
+      throw new BadRequestException('Not impersonating a user');
+    }
+
+    return this.impersonationService.stop(user.actor.id, user.sessionId);
   }
 
   @Get()
-  @Roles(Role.ADMIN)
-  @ApiOperation({ summary: 'Get all users (Admin only)' })
-  @ApiQuery({ name: 'page', required: false, type: Number, example: 1 })
-  @ApiQuery({ name: 'limit', required: false, type: Number, example: 10 })
+  @RequirePermissions('users:read')
+  @ApiOperation({
+    summary: 'Search, filter and sort users (Admin only)',
+  })
   @ApiResponse({
     status: 200,
     description: 'Users retrieved successfully',
   })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 403, description: 'Forbidden - Admin only' })
-  async listUsers(
-    @Query('page') page: number = 1,
-    @Query('limit') limit: number = 10,
-  ) {
-    return this.usersService.listUsers(page, limit);
+  async listUsers(@Query() listUsersDto: ListUsersDto) {
+    return this.usersService.listUsers(listUsersDto);
+  }
+
+  @Get('export')
+  @RequirePermissions('users:read')
+  @ApiOperation({
+    summary:
+      'Export users matching the list filters as CSV or JSON lines (Admin only)',
+  })
+  @ApiResponse({ status: 200, description: 'CSV or JSON lines stream' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin only' })
+  exportUsers(@Query() exportUsersDto: ExportUsersDto): StreamableFile {
+    const format = exportUsersDto.format ?? 'csv';
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new StreamableFile(this.usersService.exportUsers(exportUsersDto), {
+      type: format === 'csv' ? 'text/csv' : 'application/x-ndjson',
+      disposition: `attachment; filename="users-${date}.${format}"`,
+    });
+  }
+
+  @Post('import')
+  @RequirePermissions('users:manage')
+  @ApiFile('file', 'users.import.maxFileSize')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary:
+      'Import users from a CSV file with email, firstName, lastName and role columns (Admin only)',
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Import queued',
+    type: UserImportJobDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Missing or malformed CSV file, or too many rows',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin only' })
+  @ApiResponse({ status: 413, description: 'CSV file too large' })
+  async importUsers(
+    @CurrentUser('id') actorId: string,
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Body() importUsersDto: ImportUsersDto,
+  ): Promise<UserImportJobDto> {
+    return this.userImportService.queueImport(
+      file,
+      importUsersDto.sendInvitations ?? false,
+      actorId,
+    );
+  }
+
+  @Get('import/:jobId')
+  @RequirePermissions('users:manage')
+  @ApiOperation({
+    summary: 'Status and per-row results of a user import (Admin only)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Import status retrieved successfully',
+    type: UserImportJobDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin only' })
+  @ApiResponse({ status: 404, description: 'Import not found' })
+  async getImport(@Param('jobId') jobId: string): Promise<UserImportJobDto> {
+    return this.userImportService.getImportJob(jobId);
   }
 
   @Get(':id')
-  @Roles(Role.ADMIN)
+  @RequirePermissions('users:read')
   @ApiOperation({ summary: 'Get user by ID (Admin only)' })
   @ApiResponse({
     status: 200,
@@ -102,4 +337,329 @@ export class UsersController {
   async getUserById(@Param('id') id: string): Promise<UserResponseDto> {
     return this.usersService.getUserById(id);
   }
+
+  @Delete(':id/2fa')
+  @RequirePermissions('users:manage')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Reset user two-factor authentication and passkeys (Admin only)',
+  })
+  @ApiResponse({ status: 204, description: 'Two-factor authentication reset' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin only' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async resetTwoFactor(
+    @CurrentUser('id') actorId: string,
+    @Param('id') id: string,
+  ): Promise<void> {
+    return this.usersService.resetTwoFactor(id, actorId);
+  }
+
+  @Get(':id/sessions')
+  @RequirePermissions('users:read')
+  @ApiOperation({ summary: 'List user active sessions (Admin only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Active sessions retrieved',
+    type: [SessionResponseDto],
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin only' })
+  async listUserSessions(
+    @Param('id') id: string,
+  ): Promise<SessionResponseDto[]> {
+    return this.sessionsService.listSessions(id);
+  }
+
+  @Get(':id/events')
+  @RequirePermissions('users:read')
+  @ApiOperation({ summary: 'List user authentication events (Admin only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Authentication events retrieved, newest first',
+    type: AuthEventListResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin only' })
+  async listUserEvents(
+    @Param('id') id: string,
+    @Query() listAuthEventsDto: ListAuthEventsDto,
+  ): Promise<AuthEventListResponseDto> {
+    return this.authEventsService.listEvents(
+      id,
+      listAuthEventsDto.page,
+      listAuthEventsDto.limit,
+      listAuthEventsDto.type,
+    );
+  }
+
+  @Post(':id/impersonate')
+  @RequirePermissions('users:impersonate')
+  @DisallowImpersonation()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Act as a user for support (Admin only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Short-lived impersonation token issued',
+    type: ImpersonationResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin only, admins cannot be impersonated',
+  })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async impersonate(
+    @CurrentUser('id') actorId: string,
+    @Param('id') id: string,
+    @Body() impersonateDto: ImpersonateDto,
+    @ClientInfo() clientInfo: ClientInfo,
+  ): Promise<ImpersonationResponseDto> {
+    return this.impersonationService.start(
+      actorId,
+      id,
+      impersonateDto.reason,
+      clientInfo,
+    );
+  }
+
+  @Get(':id/impersonations')
+  @RequirePermissions('users:read')
+  @ApiOperation({
+    summary: 'Impersonation audit log for a user or admin (Admin only)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Impersonations retrieved',
+    type: [ImpersonationLogResponseDto],
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin only' })
+  async listImpersonations(
+    @Param('id') id: string,
+  ): Promise<ImpersonationLogResponseDto[]> {
+    return this.impersonationService.listForUser(id);
+  }
+
+  @Post(':id/unlock')
+  @RequirePermissions('users:manage')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Unlock a locked-out user (Admin only)' })
+  @ApiResponse({ status: 204, description: 'User unlocked' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin only' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async unlockUser(@Param('id') id: string): Promise<void> {
+    return this.usersService.unlockUser(id);
+  }
+
+  @Patch(':id/role')
+  @RequirePermissions('users:manage')
+  @ApiOperation({ summary: "Change a user's role (Admin only)" })
+  @ApiResponse({
+    status: 200,
+    description: 'Role changed',
+    type: UserResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Cannot change your own role' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin only' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async changeRole(
+    @CurrentUser('id') actorId: string,
+    @Param('id') id: string,
+    @Body() updateUserRoleDto: UpdateUserRoleDto,
+  ): Promise<UserResponseDto> {
+    return this.usersService.changeRole(id, updateUserRoleDto.role, actorId);
+  }
+
+  @Post(':id/deactivate')
+  @RequirePermissions('users:manage')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Deactivate a user and sign them out everywhere (Admin only)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'User deactivated',
+    type: UserResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Cannot deactivate your own account',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin only' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async deactivateUser(
+    @CurrentUser('id') actorId: string,
+    @Param('id') id: string,
+    @Body() deactivateUserDto: DeactivateUserDto,
+  ): Promise<UserResponseDto> {
+    return this.usersService.deactivateUser(
+      id,
+      deactivateUserDto.reason,
+      actorId,
+    );
+  }
+
+  @Post(':id/activate')
+  @RequirePermissions('users:manage')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reactivate a deactivated user (Admin only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'User activated',
+    type: UserResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin only' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async activateUser(
+    @CurrentUser('id') actorId: string,
+    @Param('id') id: string,
+  ): Promise<UserResponseDto> {
+    return this.usersService.activateUser(id, actorId);
+  }
+
+  @Post(':id/suspend')
+  @RequirePermissions('users:manage')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary:
+      'Suspend a user until a date or until reinstated, signing them out everywhere (Admin only)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'User suspended',
+    type: SuspensionResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Cannot suspend your own account',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin only' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async suspendUser(
+    @CurrentUser('id') actorId: string,
+    @Param('id') id: string,
+    @Body() suspendUserDto: SuspendUserDto,
+  ): Promise<SuspensionResponseDto> {
+    return this.suspensionService.suspend(
+      id,
+      suspendUserDto.reason,
+      suspendUserDto.until,
+      actorId,
+    );
+  }
+
+  @Post(':id/reinstate')
+  @RequirePermissions('users:manage')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Lift a user suspension (Admin only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'User reinstated',
+    type: SuspensionResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'User is not suspended' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin only' })
+  async reinstateUser(
+    @CurrentUser('id') actorId: string,
+    @Param('id') id: string,
+  ): Promise<SuspensionResponseDto> {
+    return this.suspensionService.reinstate(id, actorId);
+  }
+
+  @Get(':id/suspensions')
+  @RequirePermissions('users:read')
+  @ApiOperation({
+    summary: 'Suspension history of a user, newest first (Admin only)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Suspensions retrieved successfully',
+    type: [SuspensionResponseDto],
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin only' })
+  async listSuspensions(
+    @Param('id') id: string,
+  ): Promise<SuspensionResponseDto[]> {
+    return this.suspensionService.listSuspensions(id);
+  }
+
+  @Post(':id/verify-email')
+  @RequirePermissions('users:manage')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Mark a user's email as verified (Admin only)" })
+  @ApiResponse({
+    status: 200,
+    description: 'Email verified',
+    type: UserResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin only' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async forceVerifyEmail(
+    @CurrentUser('id') actorId: string,
+    @Param('id') id: string,
+  ): Promise<UserResponseDto> {
+    return this.usersService.forceVerifyEmail(id, actorId);
+  }
+
+  @Post(':id/logout')
+  @RequirePermissions('users:manage')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Sign a user out of every session (Admin only)' })
+  @ApiResponse({ status: 204, description: 'All sessions revoked' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin only' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async forceLogout(
+    @CurrentUser('id') actorId: string,
+    @Param('id') id: string,
+  ): Promise<void> {
+    return this.usersService.forceLogout(id, actorId);
+  }
+
+  @Post(':id/usage/reset')
+  @RequirePermissions('users:manage')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reset AI usage counters (Admin only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Usage reset',
+    type: UserResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin only' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async resetUsage(
+    @CurrentUser('id') actorId: string,
+    @Param('id') id: string,
+  ): Promise<UserResponseDto> {
+    return this.usersService.resetUsage(id, actorId);
+  }
+
+  @Delete(':id')
+  @RequirePermissions('users:delete')
+  @DisallowImpersonation()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Permanently delete a user and their data (Admin only)',
+  })
+  @ApiResponse({ status: 204, description: 'User deleted' })
+  @ApiResponse({ status: 400, description: 'Cannot delete your own account' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin only' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async hardDeleteUser(
+    @CurrentUser('id') actorId: string,
+    @Param('id') id: string,
+  ): Promise<void> {
+    return this.usersService.hardDeleteUser(id, actorId);
+  }
 }
@@ -1,10 +1,34 @@
 import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
 import { UsersController } from './users.controller';
 import { UsersService } from './users.service';
+import { UserDataService } from './user-data.service';
+import { UserImportService } from './user-import.service';
+import { UserAvatarService } from './user-avatar.service';
+import { UserDataProcessor } from './processors/user-data.processor';
+import { AuthModule } from '../auth/auth.module';
+import { StorageModule } from '../storage/storage.module';
+import { EmailModule } from '../email/email.module';
+import { PreferencesModule } from '../preferences/preferences.module';
 
 @Module({
+  imports: [
+    BullModule.registerQueue({
+      name: 'user-data',
+    }),
+    AuthModule,
+    StorageModule,
+    EmailModule,
+    PreferencesModule,
+  ],
   controllers: [UsersController],
-  providers: [UsersService],
+  providers: [
+    UsersService,
+    UserDataService,
+    UserImportService,
+    UserAvatarService,
+    UserDataProcessor,
+  ],
   exports: [UsersService],
 })
 export class UsersModule {}
@@ -1,11 +1,73 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Readable } from 'stream';
+import { stringify, Options as CsvOptions } from 'csv-stringify/sync';
 import { PrismaService } from '../../database/prisma.service';
+import { TokenRevocationService } from '../auth/services/token-revocation.service';
+import { LoginAttemptService } from '../auth/services/login-attempt.service';
+import { AuthEventsService } from '../auth/services/auth-events.service';
+import { StorageService } from '../storage/storage.service';
+import { UserDataService } from './user-data.service';
+import { AuthEventType, Prisma, Role } from '@prisma/client';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { UserResponseDto } from './dto/user-response.dto';
+import { ListUsersDto, UserSortField } from './dto/list-users.dto';
+import { ExportUsersDto } from './dto/export-users.dto';
+import { ClientInfo } from '../../common/decorators/client-info.decorator';
+
+// Profile fields plus the account state admins need
+const ADMIN_USER_SELECT = {
+  id: true,
+  email: true,
+  firstName: true,
+  lastName: true,
+  avatarUrl: true,
+  role: true,
+  isActive: true,
+  emailVerified: true,
+  twoFactorEnabled: true,
+  totalTokensUsed: true,
+  lastLoginAt: true,
+  deactivatedAt: true,
+  deactivationReason: true,
+  erasureScheduledAt: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.UserSelect;
+
+const USER_EXPORT_COLUMNS = Object.keys(ADMIN_USER_SELECT) as Array<
+  keyof typeof ADMIN_USER_SELECT
+>;
+
+const EXPORT_BATCH_SIZE = 500;
+
+const CSV_CAST: CsvOptions['cast'] = {
+  boolean: (value) => String(value),
+  date: (value) => value.toISOString(),
+  // Keep spreadsheets from evaluating user-supplied text as formulas
+  string: (value) => (/^[=+\-@\t\r]/.test(value) ? `'${value}` : value),
+};
+
+// Users without a value sort last in either direction
+const NULLABLE_SORT_FIELDS: UserSortField[] = [
+  'lastLoginAt',
+  'firstName',
+  'lastName',
+];
 
 @Injectable()
 export class UsersService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private tokenRevocationService: TokenRevocationService,
+    private loginAttemptService: LoginAttemptService,
+    private authEventsService: AuthEventsService,
+    private storageService: StorageService,
+    private userDataService: UserDataService,
+  ) {}
 
   /**
    * Get current user profile
@@ -22,6 +84,7 @@ export class UsersService {
         role: true,
         isActive: true,
         emailVerified: true,
+        twoFactorEnabled: true,
         totalTokensUsed: true,
         createdAt: true,
         updatedAt: true,
@@ -54,6 +117,7 @@ export class UsersService {
         role: true,
         isActive: true,
         emailVerified: true,
+        twoFactorEnabled: true,
         totalTokensUsed: true,
         createdAt: true,
         updatedAt: true,
@@ -64,13 +128,18 @@ export class UsersService {
   }
 
   /**
-   * Delete user account (soft delete)
+   * Delete user account: deactivate now, erase after the grace period
    */
-  async deleteUser(userId: string): Promise<void> {
+  async deleteUser(userId: string, clientInfo?: ClientInfo): Promise<void> {
     await this.prisma.user.update({
       where: { id: userId },
       data: { isActive: false },
     });
+
+    // Sign the user out everywhere
+    await this.revokeAllSessions(userId);
+
+    await this.userDataService.scheduleErasure(userId, clientInfo);
   }
 
   /**
@@ -79,19 +148,7 @@ export class UsersService {
   async getUserById(id: string): Promise<UserResponseDto> {
     const user = await this.prisma.user.findUnique({
       where: { id },
-      select: {
-        id: true,
-        email: true,
-        firstName: true,
-        lastName: true,
-        avatarUrl: true,
-        role: true,
-        isActive: true,
-        emailVerified: true,
-        totalTokensUsed: true,
-        createdAt: true,
-        updatedAt: true,
-      },
+      select: ADMIN_USER_SELECT,
     });
 
     if (!user) {
@@ -102,31 +159,22 @@ export class UsersService {
   }
 
   /**
-   * List all users (admin only)
+   * List all users with search, filters and sorting (admin only)
    */
-  async listUsers(page: number = 1, limit: number = 10) {
+  async listUsers(query: ListUsersDto = {}) {
+    const { page = 1, limit = 10 } = query;
     const skip = (page - 1) * limit;
+    const { where, orderBy } = this.buildUserQuery(query);
 
     const [users, total] = await Promise.all([
       this.prisma.user.findMany({
+        where,
         skip,
         take: limit,
-        select: {
-          id: true,
-          email: true,
-          firstName: true,
-          lastName: true,
-          avatarUrl: true,
-          role: true,
-          isActive: true,
-          emailVerified: true,
-          totalTokensUsed: true,
-          createdAt: true,
-          updatedAt: true,
-        },
-        orderBy: { createdAt: 'desc' },
+        select: ADMIN_USER_SELECT,
+        orderBy,
       }),
-      this.prisma.user.count(),
+      this.prisma.user.count({ where }),
     ]);
 
     return {
@@ -139,4 +187,330 @@ export class UsersService {
       },
     };
   }
+
+  /**
+   * Stream every user matching the listUsers filters as CSV or JSON lines
+   * (admin only)
+   */
+  exportUsers(query: ExportUsersDto = {}): Readable {
+    const format = query.format ?? 'csv';
+    const users = this.findUsersInBatches(query);
+
+    return Readable.from(
+      (async function* () {
+        if (format === 'csv') {
+          yield stringify([USER_EXPORT_COLUMNS]);
+        }
+
+        for await (const user of users) {
+          yield format === 'csv'
+            ? stringify([USER_EXPORT_COLUMNS.map((column) => user[column])], {
+                cast: CSV_CAST,
+              })
+            : `${JSON.stringify(user)}\n`;
+        }
+      })(),
+    );
+  }
+
+  /**
+   * Change a user's role (admin only)
+   */
+  async changeRole(
+    id: string,
+    role: Role,
+    actorId: string,
+  ): Promise<UserResponseDto> {
+    this.assertNotSelf(id, actorId);
+    const user = await this.findUserOrThrow(id);
+
+    if (user.role !== role) {
+      await this.prisma.user.update({ where: { id }, data: { role } });
+
+      await this.authEventsService.record(
+        AuthEventType.ROLE_CHANGED,
+        { userId: id },
+        undefined,
+        { from: user.role, to: role, changedBy: actorId },
+      );
+    }
+
+    return this.getUserById(id);
+  }
+
+  /**
+   * Deactivate an account and sign it out everywhere (admin only)
+   */
+  async deactivateUser(
+    id: string,
+    reason: string,
+    actorId: string,
+  ): Promise<UserResponseDto> {
+    this.assertNotSelf(id, actorId);
+    await this.findUserOrThrow(id);
+
+    await this.prisma.user.update({
+      where: { id },
+      data: {
+        isActive: false,
+        deactivatedAt: new Date(),
+        deactivationReason: reason,
+      },
+    });
+
+    await this.revokeAllSessions(id);
+
+    await this.authEventsService.record(
+      AuthEventType.ACCOUNT_DEACTIVATED,
+      { userId: id },
+      undefined,
+      { reason, deactivatedBy: actorId },
+    );
+
+    return this.getUserById(id);
+  }
+
+  /**
+   * Reactivate a deactivated account (admin only)
+   */
+  async activateUser(id: string, actorId: string): Promise<UserResponseDto> {
+    const user = await this.findUserOrThrow(id);
+
+    if (!user.isActive) {
+      await this.prisma.user.update({
+        where: { id },
+        data: {
+          isActive: true,
+          deactivatedAt: null,
+          deactivationReason: null,
+          // Cancels a pending erasure
+          erasureScheduledAt: null,
+        },
+      });
+
+      await this.authEventsService.record(
+        AuthEventType.ACCOUNT_ACTIVATED,
+        { userId: id },
+        undefined,
+        { activatedBy: actorId },
+      );
+    }
+
+    return this.getUserById(id);
+  }
+
+  /**
+   * Mark the email address as verified without the emailed link (admin only)
+   */
+  async forceVerifyEmail(
+    id: string,
+    actorId: string,
+  ): Promise<UserResponseDto> {
+    const user = await this.findUserOrThrow(id);
+
+    if (!user.emailVerified) {
+      await this.prisma.user.update({
+        where: { id },
+        data: { emailVerified: true },
+      });
+
+      await this.authEventsService.record(
+        AuthEventType.EMAIL_VERIFIED_BY_ADMIN,
+        { userId: id },
+        undefined,
+        { verifiedBy: actorId },
+      );
+    }
+
+    return this.getUserById(id);
+  }
+
+  /**
+   * Sign a user out of every session (admin only)
+   */
+  async forceLogout(id: string, actorId: string): Promise<void> {
+    await this.findUserOrThrow(id);
+
+    await this.revokeAllSessions(id);
+
+    await this.authEventsService.record(
+      AuthEventType.LOGOUT,
+      { userId: id },
+      undefined,
+      { allSessions: true, forcedBy: actorId },
+    );
+  }
+
+  /**
+   * Reset the AI usage counters (admin only)
+   */
+  async resetUsage(id: string, actorId: string): Promise<UserResponseDto> {
+    const user = await this.findUserOrThrow(id);
+
+    await this.prisma.user.update({
+      where: { id },
+      data: { totalTokensUsed: 0 },
+    });
+
+    await this.authEventsService.record(
+      AuthEventType.USAGE_RESET,
+      { userId: id },
+      undefined,
+      { totalTokensUsed: user.totalTokensUsed, resetBy: actorId },
+    );
+
+    return this.getUserById(id);
+  }
+
+  /**
+   * Permanently delete a user with their files and data (admin only)
+   */
+  async hardDeleteUser(id: string, actorId: string): Promise<void> {
+    this.assertNotSelf(id, actorId);
+    await this.findUserOrThrow(id);
+
+    await this.storageService.deleteUserFiles(id);
+    await this.revokeAllSessions(id);
+    await this.prisma.user.delete({ where: { id } });
+
+    // Recorded without the user so the entry outlives the cascade, and
+    // without personal data such as the email address
+    await this.authEventsService.record(
+      AuthEventType.ACCOUNT_DELETED,
+      {},
+      undefined,
+      { userId: id, deletedBy: actorId },
+    );
+  }
+
+  /**
+   * Reset two-factor authentication (admin only)
+   */
+  async resetTwoFactor(id: string, actorId?: string): Promise<void> {
+    await this.findUserOrThrow(id);
+
+    await this.prisma.user.update({
+      where: { id },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorRecoveryCodes: [],
+        passkeyTwoFactorEnabled: false,
+      },
+    });
+
+    // Passkeys also act as a second factor
+    await this.prisma.credential.deleteMany({ where: { userId: id } });
+
+    await this.authEventsService.record(
+      AuthEventType.TWO_FACTOR_RESET,
+      { userId: id },
+      undefined,
+      { resetBy: actorId ?? null },
+    );
+  }
+
+  /**
+   * Lift a login lockout (admin only)
+   */
+  async unlockUser(id: string): Promise<void> {
+    const user = await this.findUserOrThrow(id);
+
+    await this.loginAttemptService.unlock(user.email);
+  }
+
+  private async findUserOrThrow(id: string) {
+    const user = await this.prisma.user.findUnique({ where: { id } });
+
+    if (!user) {
+      throw new NotFoundException(`User with ID ${id} not found`);
+    }
+
+    return user;
+  }
+
+  // Admins must not lock themselves out through the admin API
+  private assertNotSelf(id: string, actorId: string): void {
+    if (id === actorId) {
+      throw new BadRequestException(
+        'You cannot perform this action on your own account',
+      );
+    }
+  }
+
+  private buildUserQuery(query: ListUsersDto): {
+    where: Prisma.UserWhereInput;
+    orderBy: Prisma.UserOrderByWithRelationInput[];
+  } {
+    const {
+      search,
+      role,
+      isActive,
+      emailVerified,
+      createdFrom,
+      createdTo,
+      sortBy = 'createdAt',
+      sortOrder = 'desc',
+    } = query;
+
+    const where: Prisma.UserWhereInput = {
+      role,
+      isActive,
+      emailVerified,
+    };
+
+    if (search) {
+      where.OR = [
+        { email: { contains: search, mode: 'insensitive' } },
+        { firstName: { contains: search, mode: 'insensitive' } },
+        { lastName: { contains: search, mode: 'insensitive' } },
+      ];
+    }
+
+    if (createdFrom || createdTo) {
+      where.createdAt = { gte: createdFrom, lte: createdTo };
+    }
+
+    return {
+      where,
+      // Tie-break on id so pages stay stable
+      orderBy: [
+        {
+          [sortBy]: NULLABLE_SORT_FIELDS.includes(sortBy)
+            ? { sort: sortOrder, nulls: 'last' }
+            : sortOrder,
+        },
+        { id: 'asc' },
+      ],
+    };
+  }
+
+  private async *findUsersInBatches(query: ListUsersDto) {
+    const { where, orderBy } = this.buildUserQuery(query);
+    let cursor: string | undefined;
+
+    do {
+      const users = await this.prisma.user.findMany({
+        where,
+        orderBy,
+        select: ADMIN_USER_SELECT,
+        take: EXPORT_BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+
+      yield* users;
+
+      cursor =
+        users.length === EXPORT_BATCH_SIZE
+          ? users[users.length - 1].id
+          : undefined;
+    } while (cursor);
+  }
+
+  private async revokeAllSessions(userId: string): Promise<void> {
+    await this.prisma.refreshToken.deleteMany({
+      where: { userId },
+    });
+    await this.tokenRevocationService.revokeAllUserTokens(userId);
+  }
 }
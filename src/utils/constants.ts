@@ -32,4 +32,36 @@ export const CACHE_TTL = {
 export const QUEUE_NAMES = {
   EMAIL: 'email',
   AI_TASKS: 'ai-tasks',
+  USER_DATA: 'user-data',
 };
+
+export const API_KEY_SCOPES = [
+  'ai:chat',
+  'ai:embeddings',
+  'storage:read',
+  'storage:write',
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+// Named permissions granted to roles (see RolePermission). A name ending in
+// ":*" grants every permission below it, e.g. "ai:model:*".
+export const PERMISSIONS = [
+  'users:read',
+  'users:manage',
+  'users:delete',
+  'users:impersonate',
+  'invitations:manage',
+  'signing-keys:rotate',
+  'permissions:manage',
+  'files:read:any',
+  'files:delete:any',
+  'ai:model:*',
+] as const;
+
+// Per-model permissions (ai:model:gpt-4) are not listed individually
+export const AI_MODEL_PERMISSION_PREFIX = 'ai:model:';
+
+export type Permission =
+  | (typeof PERMISSIONS)[number]
+  | `${typeof AI_MODEL_PERMISSION_PREFIX}${string}`;
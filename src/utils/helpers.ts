@@ -9,6 +9,15 @@ export function generateToken(length: number = 32): string {
   return crypto.randomBytes(length).toString('hex');
 }
 
+/**
+ * Hash a token for storage (SHA-256)
+ * @param token Raw token
+ * @returns Hex-encoded hash
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
 /**
  * Sanitize filename for safe storage
  * @param filename Original filename
@@ -56,6 +65,38 @@ export function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+const DURATION_UNITS: Record<string, number> = {
+  ms: 0.001,
+  s: 1,
+  m: 60,
+  h: 3600,
+  d: 86400,
+  w: 604800,
+  y: 31557600,
+};
+
+/**
+ * Convert a token lifetime as accepted by jsonwebtoken to seconds
+ * @param value Seconds as a number, or a string such as '15m' or '7d'
+ * (plain numeric strings are milliseconds)
+ * @returns Duration in seconds
+ */
+export function durationToSeconds(value: string | number): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+
+  const match = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d|w|y)?$/i.exec(value.trim());
+
+  if (!match) {
+    throw new Error(`Invalid duration: ${value}`);
+  }
+
+  const unit = (match[2] ?? 'ms').toLowerCase();
+
+  return Math.ceil(parseFloat(match[1]) * DURATION_UNITS[unit]);
+}
+
 /**
  * Check if string is valid UUID
  * @param str String to check
@@ -66,3 +107,17 @@ export function isValidUUID(str: string): boolean {
     /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
   return uuidRegex.test(str);
 }
+
+/**
+ * Convert a name to a URL-safe slug
+ * @param value Name to convert
+ * @returns Lowercase slug (e.g., "acme-inc")
+ */
+export function slugify(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
@@ -1,8 +1,13 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { INestApplication } from '@nestjs/common';
 import request from 'supertest';
+import { authenticator } from 'otplib';
 import { AppModule } from '../src/app.module';
 import { PrismaService } from '../src/database/prisma.service';
+import { RedisService } from '../src/database/redis.service';
+import { EmailService } from '../src/modules/email/email.service';
+import { ConfigService } from '@nestjs/config';
+import { AuthEventType } from '@prisma/client';
 import {
   createTestApp,
   cleanupDatabase,
@@ -10,10 +15,13 @@ import {
   getHttpServer,
 } from './utils/test-utils';
 import { UserFactory } from './factories/user.factory';
+import { SoftwareAuthenticator } from './utils/software-authenticator';
 
 describe('Auth API (e2e)', () => {
   let app: INestApplication;
   let prisma: PrismaService;
+  let redis: RedisService;
+  let origin: string;
 
   beforeAll(async () => {
     const moduleFixture: TestingModule = await Test.createTestingModule({
@@ -22,6 +30,10 @@ describe('Auth API (e2e)', () => {
 
     app = await createTestApp(moduleFixture);
     prisma = moduleFixture.get<PrismaService>(PrismaService);
+    redis = moduleFixture.get<RedisService>(RedisService);
+    [origin] = moduleFixture
+      .get(ConfigService)
+      .getOrThrow<string[]>('auth.webauthn.origins');
   });
 
   afterEach(async () => {
@@ -72,6 +84,29 @@ describe('Auth API (e2e)', () => {
         .expect(400);
     });
 
+    it('should list every violated password rule', async () => {
+      const registerDto = UserFactory.createRegisterDto({
+        firstName: 'Margaret',
+        password: 'margaret',
+      });
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/register')
+        .send(registerDto)
+        .expect(400)
+        .expect((res) => {
+          expect(res.body).toHaveProperty('code', 'PASSWORD_POLICY_VIOLATION');
+          // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+          expect(res.body.details).toEqual(
+            expect.arrayContaining([
+              expect.objectContaining({ rule: 'uppercase' }),
+              expect.objectContaining({ rule: 'characterClasses' }),
+              expect.objectContaining({ rule: 'personalInfo' }),
+            ]),
+          );
+        });
+    });
+
     it('should fail with duplicate email', async () => {
       const registerDto = UserFactory.createRegisterDto();
 
@@ -110,6 +145,28 @@ describe('Auth API (e2e)', () => {
         });
     });
 
+    it('should upgrade legacy bcrypt hashes on login', async () => {
+      const password = 'Test123!';
+      const userData = await UserFactory.create({ password });
+      const user = await prisma.user.create({ data: userData });
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/login')
+        .send({ email: userData.email, password })
+        .expect(200);
+
+      const updated = await prisma.user.findUniqueOrThrow({
+        where: { id: user.id },
+      });
+      expect(updated.password).toMatch(/^\$argon2id\$/);
+
+      // The upgraded hash still accepts the same password
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/login')
+        .send({ email: userData.email, password })
+        .expect(200);
+    });
+
     it('should fail with wrong password', async () => {
       const userData = await UserFactory.create();
       await prisma.user.create({ data: userData });
@@ -160,6 +217,47 @@ describe('Auth API (e2e)', () => {
         });
     });
 
+    it('should revoke the token family when a rotated token is reused', async () => {
+      const registerDto = UserFactory.createRegisterDto();
+
+      const registerRes = await request(getHttpServer(app))
+        .post('/api/v1/auth/register')
+        .send(registerDto);
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      const { refreshToken } = registerRes.body;
+
+      const refreshRes = await request(getHttpServer(app))
+        .post('/api/v1/auth/refresh')
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+        .send({ refreshToken })
+        .expect(200);
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+      const rotatedToken = refreshRes.body.refreshToken as string;
+
+      // Replay the original token
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/refresh')
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+        .send({ refreshToken })
+        .expect(401);
+
+      // The legitimate token from the same family is revoked too
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken: rotatedToken })
+        .expect(401);
+
+      const events = await prisma.authEvent.findMany({
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        where: { userId: registerRes.body.user.id as string },
+      });
+      expect(
+        events.filter((e) => e.type === AuthEventType.REFRESH_TOKEN_REUSE),
+      ).toHaveLength(1);
+    });
+
     it('should fail with invalid refresh token', async () => {
       await request(getHttpServer(app))
         .post('/api/v1/auth/refresh')
@@ -194,6 +292,933 @@ describe('Auth API (e2e)', () => {
         .send({ refreshToken })
         .expect(401);
     });
+
+    it('should revoke the access token immediately', async () => {
+      const registerDto = UserFactory.createRegisterDto();
+
+      const registerRes = await request(getHttpServer(app))
+        .post('/api/v1/auth/register')
+        .send(registerDto);
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      const { accessToken, refreshToken } = registerRes.body;
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/logout')
+        .set('Authorization', `Bearer ${accessToken}`)
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+        .send({ refreshToken })
+        .expect(200);
+
+      await request(getHttpServer(app))
+        .get('/api/v1/users/me')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(401);
+    });
+  });
+
+  describe('/api/v1/auth/verify-email (POST)', () => {
+    it('should verify email with token from registration', async () => {
+      const registerDto = UserFactory.createRegisterDto();
+
+      const registerRes = await request(getHttpServer(app))
+        .post('/api/v1/auth/register')
+        .send(registerDto);
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+      const userId = registerRes.body.user.id as string;
+      const token = await redis.get(`email-verification-user:${userId}`);
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/verify-email')
+        .send({ token })
+        .expect(200);
+
+      const user = await prisma.user.findUnique({ where: { id: userId } });
+      expect(user?.emailVerified).toBe(true);
+    });
+
+    it('should fail with invalid token', async () => {
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/verify-email')
+        .send({ token: 'invalid-token' })
+        .expect(400);
+    });
+
+    it('should block unverified users from verified-only routes', async () => {
+      const registerDto = UserFactory.createRegisterDto();
+
+      const registerRes = await request(getHttpServer(app))
+        .post('/api/v1/auth/register')
+        .send(registerDto);
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      const { accessToken } = registerRes.body;
+
+      await request(getHttpServer(app))
+        .post('/api/v1/ai/chat')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ message: 'Hello' })
+        .expect(403);
+    });
+  });
+
+  describe('/api/v1/auth/change-password (POST)', () => {
+    it('should change the password and sign out other sessions', async () => {
+      const registerDto = UserFactory.createRegisterDto();
+
+      const registerRes = await request(getHttpServer(app))
+        .post('/api/v1/auth/register')
+        .send(registerDto);
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      const { accessToken, refreshToken: currentRefreshToken } =
+        registerRes.body;
+
+      const otherLoginRes = await request(getHttpServer(app))
+        .post('/api/v1/auth/login')
+        .send({ email: registerDto.email, password: registerDto.password });
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/change-password')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ currentPassword: 'Wrong123!', newPassword: 'NewPassword123!' })
+        .expect(400);
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/change-password')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({
+          currentPassword: registerDto.password,
+          newPassword: 'NewPassword123!',
+        })
+        .expect(200);
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/refresh')
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
+        .send({ refreshToken: otherLoginRes.body.refreshToken })
+        .expect(401);
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken: currentRefreshToken as string })
+        .expect(200);
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/login')
+        .send({ email: registerDto.email, password: 'NewPassword123!' })
+        .expect(200);
+
+      // The previous password can't be reused
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/change-password')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({
+          currentPassword: 'NewPassword123!',
+          newPassword: registerDto.password,
+        })
+        .expect(400)
+        .expect((res) => {
+          // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+          expect(res.body.details).toEqual([
+            expect.objectContaining({ rule: 'history' }),
+          ]);
+        });
+    });
+  });
+
+  describe('/api/v1/auth/change-email (POST)', () => {
+    it('should change the email once the new address is confirmed', async () => {
+      const registerDto = UserFactory.createRegisterDto();
+      const newEmail = randomEmail();
+
+      const registerRes = await request(getHttpServer(app))
+        .post('/api/v1/auth/register')
+        .send(registerDto);
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      const { accessToken } = registerRes.body;
+
+      const otherLogin = await request(getHttpServer(app))
+        .post('/api/v1/auth/login')
+        .send({ email: registerDto.email, password: registerDto.password })
+        .expect(200);
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/change-email')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ newEmail, currentPassword: registerDto.password })
+        .expect(200);
+
+      // Nothing changes until the link is followed
+      const pendingUser = await prisma.user.findUnique({
+        where: { email: registerDto.email },
+      });
+      expect(pendingUser).not.toBeNull();
+
+      const [key] = await redis.keys('email-change:*');
+      const token = key.replace('email-change:', '');
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/change-email/confirm')
+        .send({ token })
+        .expect(200);
+
+      const user = await prisma.user.findUnique({ where: { email: newEmail } });
+      expect(user?.id).toBe(pendingUser?.id);
+      expect(user?.emailVerified).toBe(true);
+
+      // Only the session that asked for the change stays signed in
+      await request(getHttpServer(app))
+        .get('/api/v1/users/me')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+      await request(getHttpServer(app))
+        .get('/api/v1/users/me')
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        .set('Authorization', `Bearer ${otherLogin.body.accessToken}`)
+        .expect(401);
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/change-email/confirm')
+        .send({ token })
+        .expect(400);
+    });
+
+    it('should reject an email that is already in use', async () => {
+      const registerDto = UserFactory.createRegisterDto();
+      const otherUser = await prisma.user.create({
+        data: await UserFactory.create(),
+      });
+
+      const registerRes = await request(getHttpServer(app))
+        .post('/api/v1/auth/register')
+        .send(registerDto);
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/change-email')
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        .set('Authorization', `Bearer ${registerRes.body.accessToken}`)
+        .send({
+          newEmail: otherUser.email,
+          currentPassword: registerDto.password,
+        })
+        .expect(409);
+    });
+  });
+
+  describe('/api/v1/auth/magic-link (POST)', () => {
+    it('should sign in with a single-use magic link', async () => {
+      const registerDto = UserFactory.createRegisterDto();
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/register')
+        .send(registerDto);
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/magic-link')
+        .send({ email: registerDto.email })
+        .expect(200);
+
+      const [key] = await redis.keys('magic-link:*');
+      const token = key.replace('magic-link:', '');
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/magic-link/verify')
+        .send({ token })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toHaveProperty('accessToken');
+          expect(res.body).toHaveProperty('refreshToken');
+        });
+
+      const user = await prisma.user.findUnique({
+        where: { email: registerDto.email },
+      });
+      expect(user?.emailVerified).toBe(true);
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/magic-link/verify')
+        .send({ token })
+        .expect(401);
+    });
+
+    it('should not reveal unknown emails', async () => {
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/magic-link')
+        .send({ email: randomEmail() })
+        .expect(200);
+    });
+  });
+
+  describe('Two-factor authentication', () => {
+    it('should require a TOTP code after password login', async () => {
+      const registerDto = UserFactory.createRegisterDto();
+
+      const registerRes = await request(getHttpServer(app))
+        .post('/api/v1/auth/register')
+        .send(registerDto);
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      const { accessToken } = registerRes.body;
+
+      // Enroll
+      const enrollRes = await request(getHttpServer(app))
+        .post('/api/v1/auth/2fa/enroll')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+      const secret = enrollRes.body.secret as string;
+
+      // Confirm
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/2fa/confirm')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ code: authenticator.generate(secret) })
+        .expect(200)
+        .expect((res) => {
+          // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+          expect(res.body.recoveryCodes).toHaveLength(10);
+        });
+
+      // Password login returns a challenge instead of tokens
+      const loginRes = await request(getHttpServer(app))
+        .post('/api/v1/auth/login')
+        .send({ email: registerDto.email, password: registerDto.password })
+        .expect(200);
+
+      expect(loginRes.body).toHaveProperty('requiresTwoFactor', true);
+      expect(loginRes.body).not.toHaveProperty('accessToken');
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+      const challengeToken = loginRes.body.challengeToken as string;
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/login/2fa')
+        .send({ challengeToken, code: '000000' })
+        .expect(401);
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/login/2fa')
+        .send({ challengeToken, code: authenticator.generate(secret) })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toHaveProperty('accessToken');
+          expect(res.body).toHaveProperty('refreshToken');
+        });
+    });
+
+    it('should lock the account after wrong codes across challenges', async () => {
+      const registerDto = UserFactory.createRegisterDto();
+
+      const registerRes = await request(getHttpServer(app))
+        .post('/api/v1/auth/register')
+        .send(registerDto);
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      const { accessToken } = registerRes.body;
+
+      const enrollRes = await request(getHttpServer(app))
+        .post('/api/v1/auth/2fa/enroll')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+      const secret = enrollRes.body.secret as string;
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/2fa/confirm')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ code: authenticator.generate(secret) })
+        .expect(200);
+
+      // A fresh challenge per guess must not reset the count
+      for (let attempt = 1; attempt <= 5; attempt++) {
+        const loginRes = await request(getHttpServer(app))
+          .post('/api/v1/auth/login')
+          .send({ email: registerDto.email, password: registerDto.password })
+          .expect(200);
+
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        const challengeToken = loginRes.body.challengeToken as string;
+
+        await request(getHttpServer(app))
+          .post('/api/v1/auth/login/2fa')
+          .send({ challengeToken, code: '000000' })
+          .expect(attempt < 5 ? 401 : 423);
+      }
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/login')
+        .send({ email: registerDto.email, password: registerDto.password })
+        .expect(423);
+    });
+  });
+
+  describe('Passkeys (WebAuthn)', () => {
+    const registerPasskey = async (
+      authenticator: SoftwareAuthenticator,
+      useAsSecondFactor = false,
+    ) => {
+      const registerDto = UserFactory.createRegisterDto();
+
+      const registerRes = await request(getHttpServer(app))
+        .post('/api/v1/auth/register')
+        .send(registerDto);
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      const { accessToken } = registerRes.body;
+
+      const optionsRes = await request(getHttpServer(app))
+        .post('/api/v1/auth/webauthn/register/options')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      const credentialRes = await request(getHttpServer(app))
+        .post('/api/v1/auth/webauthn/register')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({
+          // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
+          response: authenticator.createCredential(optionsRes.body),
+          name: 'Test passkey',
+          useAsSecondFactor,
+        })
+        .expect(201);
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+      const recoveryCodes = credentialRes.body.recoveryCodes as
+        | string[]
+        | undefined;
+
+      return { ...registerDto, recoveryCodes };
+    };
+
+    it('should sign in without a password', async () => {
+      const authenticator = new SoftwareAuthenticator(origin);
+      const registerDto = await registerPasskey(authenticator);
+
+      const optionsRes = await request(getHttpServer(app))
+        .post('/api/v1/auth/webauthn/login/options')
+        .send({ email: registerDto.email })
+        .expect(200);
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
+      const response = authenticator.getAssertion(optionsRes.body);
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/webauthn/login')
+        .send({ response })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toHaveProperty('accessToken');
+          expect(res.body).toHaveProperty('refreshToken');
+        });
+
+      // Challenges are single-use
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/webauthn/login')
+        .send({ response })
+        .expect(401);
+    });
+
+    it('should only ask for a passkey as second factor after opting in', async () => {
+      const authenticator = new SoftwareAuthenticator(origin);
+      const registerDto = await registerPasskey(authenticator);
+
+      expect(registerDto.recoveryCodes).toBeUndefined();
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/login')
+        .send({ email: registerDto.email, password: registerDto.password })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toHaveProperty('accessToken');
+        });
+    });
+
+    it('should accept a recovery code instead of the passkey', async () => {
+      const authenticator = new SoftwareAuthenticator(origin);
+      const registerDto = await registerPasskey(authenticator, true);
+
+      expect(registerDto.recoveryCodes).toHaveLength(10);
+
+      const loginRes = await request(getHttpServer(app))
+        .post('/api/v1/auth/login')
+        .send({ email: registerDto.email, password: registerDto.password })
+        .expect(200);
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+      const challengeToken = loginRes.body.challengeToken as string;
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/login/2fa')
+        .send({ challengeToken, code: registerDto.recoveryCodes![0] })
+        .expect(200);
+    });
+
+    it('should accept a passkey as the second factor', async () => {
+      // Security keys without user verification only count as a second factor
+      const authenticator = new SoftwareAuthenticator(origin, false);
+      const registerDto = await registerPasskey(authenticator, true);
+
+      const loginRes = await request(getHttpServer(app))
+        .post('/api/v1/auth/login')
+        .send({ email: registerDto.email, password: registerDto.password })
+        .expect(200);
+
+      expect(loginRes.body).toHaveProperty('requiresTwoFactor', true);
+      expect(loginRes.body).toHaveProperty('methods', [
+        'webauthn',
+        'recovery_code',
+      ]);
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+      const challengeToken = loginRes.body.challengeToken as string;
+
+      // Second-factor challenges can't complete a passwordless login
+      const secondFactorOptions = await request(getHttpServer(app))
+        .post('/api/v1/auth/webauthn/login/2fa/options')
+        .send({ challengeToken })
+        .expect(200);
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/webauthn/login')
+        .send({
+          // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
+          response: authenticator.getAssertion(secondFactorOptions.body),
+        })
+        .expect(401);
+
+      const optionsRes = await request(getHttpServer(app))
+        .post('/api/v1/auth/webauthn/login/2fa/options')
+        .send({ challengeToken })
+        .expect(200);
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/webauthn/login/2fa')
+        .send({
+          challengeToken,
+          // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
+          response: authenticator.getAssertion(optionsRes.body),
+        })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toHaveProperty('accessToken');
+          expect(res.body).toHaveProperty('refreshToken');
+        });
+    });
+  });
+
+  describe('API keys', () => {
+    it('should only allow API keys on endpoints with matching scopes', async () => {
+      const registerRes = await request(getHttpServer(app))
+        .post('/api/v1/auth/register')
+        .send(UserFactory.createRegisterDto());
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      const { accessToken } = registerRes.body;
+
+      const createRes = await request(getHttpServer(app))
+        .post('/api/v1/auth/api-keys')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'test key', scopes: ['storage:read'] })
+        .expect(201);
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      const { id, key } = createRes.body;
+
+      expect(key).toMatch(/^sk_[0-9a-f]{8}_[0-9a-f]+$/);
+
+      // No scope declared on the route
+      await request(getHttpServer(app))
+        .get('/api/v1/users/me')
+        .set('X-API-Key', key as string)
+        .expect(403);
+
+      // Scope declared but not held by the key
+      await request(getHttpServer(app))
+        .post('/api/v1/ai/embeddings')
+        .set('X-API-Key', key as string)
+        .send({ text: 'hello' })
+        .expect(403);
+
+      await request(getHttpServer(app))
+        .delete(`/api/v1/auth/api-keys/${id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(204);
+
+      await request(getHttpServer(app))
+        .get('/api/v1/storage/non-existent-file')
+        .set('X-API-Key', key as string)
+        .expect(401);
+    });
+  });
+
+  describe('Invitations', () => {
+    // Run with REGISTRATION_MODE=domain for example.com addresses
+    async function inDomainMode(run: () => Promise<void>): Promise<void> {
+      const config = app.get(ConfigService);
+      const get = config.get.bind(config) as (
+        key: string,
+        defaultValue?: unknown,
+      ) => unknown;
+      const spy = jest.spyOn(config, 'get').mockImplementation(((
+        key: string,
+        defaultValue?: unknown,
+      ) => {
+        if (key === 'auth.registration.mode') return 'domain';
+        if (key === 'auth.registration.allowedDomains') return ['example.com'];
+        return get(key, defaultValue);
+      }) as typeof config.get);
+
+      try {
+        await run();
+      } finally {
+        spy.mockRestore();
+      }
+    }
+
+    it('should make domain sign-ups verify their email before logging in', async () => {
+      await inDomainMode(async () => {
+        const registerDto = UserFactory.createRegisterDto();
+
+        await request(getHttpServer(app))
+          .post('/api/v1/auth/register')
+          .send({ ...registerDto, email: 'someone@elsewhere.test' })
+          .expect(403);
+
+        await request(getHttpServer(app))
+          .post('/api/v1/auth/register')
+          .send(registerDto)
+          .expect(201)
+          .expect((res) => {
+            expect(res.body).toHaveProperty('requiresEmailVerification', true);
+            expect(res.body).not.toHaveProperty('accessToken');
+          });
+
+        const loginDto = {
+          email: registerDto.email,
+          password: registerDto.password,
+        };
+
+        await request(getHttpServer(app))
+          .post('/api/v1/auth/login')
+          .send(loginDto)
+          .expect(403);
+
+        const user = await prisma.user.findUniqueOrThrow({
+          where: { email: registerDto.email },
+        });
+        const token = await redis.get(`email-verification-user:${user.id}`);
+
+        await request(getHttpServer(app))
+          .post('/api/v1/auth/verify-email')
+          .send({ token })
+          .expect(200);
+
+        await request(getHttpServer(app))
+          .post('/api/v1/auth/login')
+          .send(loginDto)
+          .expect(200);
+      });
+    });
+
+    it('should only let users change to an address the mode admits', async () => {
+      await inDomainMode(async () => {
+        const userData = await UserFactory.create({ emailVerified: true });
+        await prisma.user.create({ data: userData });
+
+        const loginRes = await request(getHttpServer(app))
+          .post('/api/v1/auth/login')
+          .send(UserFactory.createLoginDto(userData.email))
+          .expect(200);
+
+        await request(getHttpServer(app))
+          .post('/api/v1/auth/change-email')
+          // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+          .set('Authorization', `Bearer ${loginRes.body.accessToken}`)
+          .send({
+            newEmail: 'someone@elsewhere.test',
+            currentPassword: UserFactory.createLoginDto(userData.email)
+              .password,
+          })
+          .expect(403);
+      });
+    });
+
+    it('should register invited users with the assigned role', async () => {
+      const admin = await prisma.user.create({
+        data: await UserFactory.createAdmin(),
+      });
+
+      const loginRes = await request(getHttpServer(app))
+        .post('/api/v1/auth/login')
+        .send(UserFactory.createLoginDto(admin.email))
+        .expect(200);
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+      const adminToken = loginRes.body.accessToken as string;
+
+      // The token is only sent by email
+      const sendInvitation = jest
+        .spyOn(app.get(EmailService), 'sendInvitationEmail')
+        .mockResolvedValue();
+
+      const registerDto = UserFactory.createRegisterDto();
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/invitations')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ email: registerDto.email, role: 'PREMIUM' })
+        .expect(201)
+        .expect((res) => {
+          expect(res.body).toHaveProperty('status', 'pending');
+          expect(res.body).not.toHaveProperty('token');
+        });
+
+      const [[, invitationToken]] = sendInvitation.mock.calls;
+      sendInvitation.mockRestore();
+
+      // Invitations are bound to their email address
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/register')
+        .send({ ...UserFactory.createRegisterDto(), invitationToken })
+        .expect(400);
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/register')
+        .send({ ...registerDto, invitationToken })
+        .expect(201)
+        .expect((res) => {
+          // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+          expect(res.body.user).toHaveProperty('role', 'PREMIUM');
+        });
+
+      const user = await prisma.user.findUnique({
+        where: { email: registerDto.email },
+      });
+      expect(user?.emailVerified).toBe(true);
+
+      await request(getHttpServer(app))
+        .get('/api/v1/auth/invitations?status=accepted')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toHaveLength(1);
+          // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+          expect(res.body[0].acceptedById).toBe(user?.id);
+        });
+    });
+
+    it('should only let admins invite', async () => {
+      const registerRes = await request(getHttpServer(app))
+        .post('/api/v1/auth/register')
+        .send(UserFactory.createRegisterDto());
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/invitations')
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        .set('Authorization', `Bearer ${registerRes.body.accessToken}`)
+        .send({ email: randomEmail() })
+        .expect(403);
+    });
+  });
+
+  describe('Impersonation', () => {
+    it('should let admins act as a user with restrictions', async () => {
+      const admin = await prisma.user.create({
+        data: await UserFactory.createAdmin(),
+      });
+      const target = await prisma.user.create({
+        data: await UserFactory.create(),
+      });
+
+      const loginRes = await request(getHttpServer(app))
+        .post('/api/v1/auth/login')
+        .send(UserFactory.createLoginDto(admin.email))
+        .expect(200);
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+      const adminToken = loginRes.body.accessToken as string;
+
+      const impersonateRes = await request(getHttpServer(app))
+        .post(`/api/v1/users/${target.id}/impersonate`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ reason: 'Reproducing support ticket' })
+        .expect(200);
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      const { accessToken } = impersonateRes.body;
+      expect(impersonateRes.body).not.toHaveProperty('refreshToken');
+
+      await request(getHttpServer(app))
+        .get('/api/v1/users/me')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200)
+        .expect((res) => {
+          // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+          expect(res.body.id).toBe(target.id);
+        });
+
+      // Sensitive actions are blocked
+      await request(getHttpServer(app))
+        .delete('/api/v1/users/me')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/api-keys')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'test key', scopes: ['storage:read'] })
+        .expect(403);
+
+      await request(getHttpServer(app))
+        .post('/api/v1/users/impersonation/stop')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(204);
+
+      await request(getHttpServer(app))
+        .get('/api/v1/users/me')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(401);
+
+      await request(getHttpServer(app))
+        .get(`/api/v1/users/${target.id}/impersonations`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toHaveLength(1);
+          // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+          expect(res.body[0].actorId).toBe(admin.id);
+          // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+          expect(res.body[0].endedAt).not.toBeNull();
+        });
+    });
+
+    it('should not allow impersonating users with the same role', async () => {
+      const admin = await prisma.user.create({
+        data: await UserFactory.createAdmin(),
+      });
+      const otherAdmin = await prisma.user.create({
+        data: await UserFactory.createAdmin(),
+      });
+
+      const loginRes = await request(getHttpServer(app))
+        .post('/api/v1/auth/login')
+        .send(UserFactory.createLoginDto(admin.email))
+        .expect(200);
+
+      await request(getHttpServer(app))
+        .post(`/api/v1/users/${otherAdmin.id}/impersonate`)
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        .set('Authorization', `Bearer ${loginRes.body.accessToken}`)
+        .send({ reason: 'Reproducing support ticket' })
+        .expect(403);
+    });
+  });
+
+  describe('Authentication events', () => {
+    it('should log sign-ins and alert on a new device', async () => {
+      const user = await prisma.user.create({
+        data: await UserFactory.create(),
+      });
+      const sendNewSignInEmail = jest
+        .spyOn(app.get(EmailService), 'sendNewSignInEmail')
+        .mockResolvedValue();
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/login')
+        .send({ email: user.email, password: 'wrong-password' })
+        .expect(401);
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/login')
+        .set('User-Agent', 'Laptop')
+        .send(UserFactory.createLoginDto(user.email))
+        .expect(200);
+
+      // Same device again, then an unseen one
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/login')
+        .set('User-Agent', 'Laptop')
+        .send(UserFactory.createLoginDto(user.email))
+        .expect(200);
+      expect(sendNewSignInEmail).not.toHaveBeenCalled();
+
+      const loginRes = await request(getHttpServer(app))
+        .post('/api/v1/auth/login')
+        .set('User-Agent', 'Phone')
+        .send(UserFactory.createLoginDto(user.email))
+        .expect(200);
+      expect(sendNewSignInEmail).toHaveBeenCalledWith(
+        user.email,
+        expect.objectContaining({ userAgent: 'Phone' }),
+      );
+
+      await request(getHttpServer(app))
+        .get('/api/v1/auth/events')
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        .set('Authorization', `Bearer ${loginRes.body.accessToken}`)
+        .query({ type: 'LOGIN_FAILURE' })
+        .expect(200)
+        .expect((res) => {
+          // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+          expect(res.body.meta.total).toBe(1);
+          // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+          expect(res.body.data[0].metadata).toEqual({
+            reason: 'invalid_credentials',
+          });
+        });
+
+      sendNewSignInEmail.mockRestore();
+    });
+
+    it('should let admins view a user log', async () => {
+      const admin = await prisma.user.create({
+        data: await UserFactory.createAdmin(),
+      });
+      const user = await prisma.user.create({
+        data: await UserFactory.create(),
+      });
+
+      await request(getHttpServer(app))
+        .post('/api/v1/auth/login')
+        .send(UserFactory.createLoginDto(user.email))
+        .expect(200);
+
+      const loginRes = await request(getHttpServer(app))
+        .post('/api/v1/auth/login')
+        .send(UserFactory.createLoginDto(admin.email))
+        .expect(200);
+
+      await request(getHttpServer(app))
+        .get(`/api/v1/users/${user.id}/events`)
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        .set('Authorization', `Bearer ${loginRes.body.accessToken}`)
+        .expect(200)
+        .expect((res) => {
+          // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+          expect(res.body.data).toHaveLength(1);
+          // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+          expect(res.body.data[0]).toMatchObject({
+            type: 'LOGIN_SUCCESS',
+            metadata: { method: 'password' },
+          });
+        });
+    });
+  });
+
+  describe('/.well-known/jwks.json (GET)', () => {
+    it('should publish the token verification keys', async () => {
+      await request(getHttpServer(app))
+        .get('/.well-known/jwks.json')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toHaveProperty('keys');
+        });
+    });
   });
 
   describe('Protected routes', () => {
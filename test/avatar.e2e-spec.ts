@@ -0,0 +1,162 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import request from 'supertest';
+import sharp from 'sharp';
+import { AppModule } from '../src/app.module';
+import { PrismaService } from '../src/database/prisma.service';
+import {
+  createTestApp,
+  cleanupDatabase,
+  getHttpServer,
+} from './utils/test-utils';
+import { UserFactory } from './factories/user.factory';
+
+describe('User avatar (e2e)', () => {
+  let app: INestApplication;
+  let prisma: PrismaService;
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = await createTestApp(moduleFixture);
+    prisma = moduleFixture.get<PrismaService>(PrismaService);
+  });
+
+  afterEach(async () => {
+    await cleanupDatabase(prisma);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  async function login(
+    emailVerified = false,
+  ): Promise<{ id: string; accessToken: string }> {
+    const userData = await UserFactory.create({ emailVerified });
+    const user = await prisma.user.create({ data: userData });
+
+    const res = await request(getHttpServer(app))
+      .post('/api/v1/auth/login')
+      .send(UserFactory.createLoginDto(userData.email))
+      .expect(200);
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
+    const accessToken: string = res.body.accessToken;
+
+    return { id: user.id, accessToken };
+  }
+
+  function createImage(width: number, height: number): Promise<Buffer> {
+    return sharp({
+      create: { width, height, channels: 3, background: '#3366ff' },
+    })
+      .png()
+      .toBuffer();
+  }
+
+  it('should crop uploads to squares and replace the previous avatar', async () => {
+    const { id, accessToken } = await login();
+
+    const res = await request(getHttpServer(app))
+      .put('/api/v1/users/me/avatar')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .attach('file', await createImage(800, 600), 'photo.png')
+      .expect(200);
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
+    const avatarUrl: string = res.body.avatarUrl;
+    expect(avatarUrl).toMatch(/^\/api\/v1\/storage\/avatars\//);
+
+    // Public, so it can be shown to other users
+    const image = await request(getHttpServer(app))
+      .get(avatarUrl)
+      .buffer(true)
+      .expect(200)
+      .expect('Content-Type', 'image/webp');
+
+    const metadata = await sharp(image.body as Buffer).metadata();
+    expect(metadata.width).toBe(512);
+    expect(metadata.height).toBe(512);
+
+    await request(getHttpServer(app))
+      .put('/api/v1/users/me/avatar')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .attach('file', await createImage(300, 300), 'photo.png')
+      .expect(200);
+
+    // One file per size, the previous ones deleted
+    const files = await prisma.file.findMany({
+      where: { userId: id, category: 'avatar' },
+    });
+    expect(files).toHaveLength(2);
+
+    await request(getHttpServer(app)).get(avatarUrl).expect(404);
+  });
+
+  it('should only serve and replace files created as avatars', async () => {
+    const { id, accessToken } = await login(true);
+
+    const upload = await request(getHttpServer(app))
+      .post('/api/v1/storage/upload')
+      .query({ category: 'avatar' })
+      .set('Authorization', `Bearer ${accessToken}`)
+      .attach('file', await createImage(100, 100), 'photo.png')
+      .expect(201);
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
+    const uploadId: string = upload.body.id;
+
+    await request(getHttpServer(app))
+      .get(`/api/v1/storage/avatars/${uploadId}`)
+      .expect(404);
+
+    await request(getHttpServer(app))
+      .put('/api/v1/users/me/avatar')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .attach('file', await createImage(300, 300), 'photo.png')
+      .expect(200);
+
+    // The upload is not one of the previous avatars
+    expect(
+      await prisma.file.findUnique({ where: { id: uploadId } }),
+    ).not.toBeNull();
+    expect(
+      await prisma.file.count({ where: { userId: id, category: 'avatar' } }),
+    ).toBe(3);
+  });
+
+  it('should not accept avatar URLs in profile updates', async () => {
+    const { accessToken } = await login();
+
+    await request(getHttpServer(app))
+      .patch('/api/v1/users/me')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ avatarUrl: 'https://example.com/avatar.jpg' })
+      .expect(400);
+  });
+
+  it('should reject missing and invalid images', async () => {
+    const { accessToken } = await login();
+
+    await request(getHttpServer(app))
+      .put('/api/v1/users/me/avatar')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(400);
+
+    await request(getHttpServer(app))
+      .put('/api/v1/users/me/avatar')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .attach('file', Buffer.from('not an image'), 'photo.png')
+      .expect(400);
+
+    // Rejected by the upload limit before the whole file is read
+    await request(getHttpServer(app))
+      .put('/api/v1/users/me/avatar')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .attach('file', Buffer.alloc(5242881), 'photo.png')
+      .expect(413);
+  });
+});
@@ -47,7 +47,8 @@ export class UserFactory {
   static createRegisterDto(overrides: Partial<UserFactoryOptions> = {}) {
     return {
       email: overrides.email || randomEmail(),
-      password: overrides.password || 'Test123!',
+      // Must not contain the name or email (password policy)
+      password: overrides.password || 'Secure123!',
       firstName: overrides.firstName || 'Test',
       lastName: overrides.lastName || 'User',
     };
@@ -0,0 +1,253 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import request from 'supertest';
+import { AppModule } from '../src/app.module';
+import { PrismaService } from '../src/database/prisma.service';
+import {
+  createTestApp,
+  cleanupDatabase,
+  randomEmail,
+  getHttpServer,
+} from './utils/test-utils';
+import { MockOidcIssuer, MockOidcUser } from './utils/mock-oidc-issuer';
+import { UserFactory } from './factories/user.factory';
+
+describe('OAuth API (e2e)', () => {
+  let app: INestApplication;
+  let prisma: PrismaService;
+  const issuer = new MockOidcIssuer();
+
+  beforeAll(async () => {
+    await issuer.start();
+
+    // Config is read when the module is compiled
+    process.env.GOOGLE_CLIENT_ID = issuer.clientId;
+    process.env.GOOGLE_CLIENT_SECRET = issuer.clientSecret;
+    process.env.GOOGLE_OIDC_ISSUER = issuer.url;
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = await createTestApp(moduleFixture);
+    prisma = moduleFixture.get<PrismaService>(PrismaService);
+  });
+
+  afterEach(async () => {
+    await cleanupDatabase(prisma);
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await issuer.stop();
+  });
+
+  const signInWithGoogle = async (
+    user: MockOidcUser,
+    expectedStatus: number,
+  ) => {
+    const authorizeRes = await request(getHttpServer(app))
+      .get('/api/v1/auth/oauth/google')
+      .expect(302);
+
+    const { code, state } = issuer.authorize(
+      authorizeRes.headers.location,
+      user,
+    );
+
+    return request(getHttpServer(app))
+      .get('/api/v1/auth/oauth/google/callback')
+      .query({ code, state })
+      .expect(expectedStatus);
+  };
+
+  it('should list enabled providers', async () => {
+    await request(getHttpServer(app))
+      .get('/api/v1/auth/oauth/providers')
+      .expect(200)
+      .expect((res) => {
+        expect(res.body).toEqual({ providers: ['google'] });
+      });
+  });
+
+  it('should create a verified user on first sign-in', async () => {
+    const email = randomEmail();
+
+    const res = await signInWithGoogle(
+      {
+        sub: 'google-user-1',
+        email,
+        email_verified: true,
+        given_name: 'Jane',
+      },
+      200,
+    );
+
+    expect(res.body).toHaveProperty('accessToken');
+    expect(res.body).toHaveProperty('refreshToken');
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+    expect(res.body.user.email).toBe(email);
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      include: { accounts: true },
+    });
+    expect(user?.emailVerified).toBe(true);
+    expect(user?.password).toBeNull();
+    expect(user?.accounts).toHaveLength(1);
+  });
+
+  it('should sign in the same user on later sign-ins', async () => {
+    const profile = {
+      sub: 'google-user-2',
+      email: randomEmail(),
+      email_verified: true,
+    };
+
+    const first = await signInWithGoogle(profile, 200);
+    const second = await signInWithGoogle(profile, 200);
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+    expect(second.body.user.id).toBe(first.body.user.id);
+  });
+
+  it('should link to an existing user with the same verified email', async () => {
+    const existing = await prisma.user.create({
+      data: await UserFactory.create({ emailVerified: true }),
+    });
+
+    const res = await signInWithGoogle(
+      {
+        sub: 'google-user-3',
+        email: existing.email,
+        email_verified: true,
+      },
+      200,
+    );
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+    expect(res.body.user.id).toBe(existing.id);
+  });
+
+  it('should not link to an existing user with an unverified email', async () => {
+    const existing = await prisma.user.create({
+      data: await UserFactory.create({ emailVerified: false }),
+    });
+
+    await signInWithGoogle(
+      {
+        sub: 'google-user-4',
+        email: existing.email,
+        email_verified: true,
+      },
+      409,
+    );
+  });
+
+  it('should reject profiles without a verified email', async () => {
+    await signInWithGoogle(
+      {
+        sub: 'google-user-5',
+        email: randomEmail(),
+        email_verified: false,
+      },
+      401,
+    );
+  });
+
+  it('should reject a reused state', async () => {
+    const authorizeRes = await request(getHttpServer(app))
+      .get('/api/v1/auth/oauth/google')
+      .expect(302);
+
+    const user = {
+      sub: 'google-user-6',
+      email: randomEmail(),
+      email_verified: true,
+    };
+    const first = issuer.authorize(authorizeRes.headers.location, user);
+    const second = issuer.authorize(authorizeRes.headers.location, user);
+
+    await request(getHttpServer(app))
+      .get('/api/v1/auth/oauth/google/callback')
+      .query(first)
+      .expect(200);
+
+    await request(getHttpServer(app))
+      .get('/api/v1/auth/oauth/google/callback')
+      .query(second)
+      .expect(401);
+  });
+
+  it('should only link for the signed-in user who started it', async () => {
+    const login = async () => {
+      const userData = await UserFactory.create({ emailVerified: true });
+      const user = await prisma.user.create({ data: userData });
+
+      const res = await request(getHttpServer(app))
+        .post('/api/v1/auth/login')
+        .send(UserFactory.createLoginDto(userData.email))
+        .expect(200);
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
+      const accessToken: string = res.body.accessToken;
+
+      return { id: user.id, accessToken };
+    };
+    const startLink = async (accessToken: string) => {
+      const res = await request(getHttpServer(app))
+        .post('/api/v1/auth/oauth/google/link')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
+      const url: string = res.body.url;
+
+      return url;
+    };
+
+    const owner = await login();
+    const victim = await login();
+    const profile = {
+      sub: 'google-user-7',
+      email: randomEmail(),
+      email_verified: true,
+    };
+
+    // The public callback doesn't finish links
+    await request(getHttpServer(app))
+      .get('/api/v1/auth/oauth/google/callback')
+      .query(issuer.authorize(await startLink(owner.accessToken), profile))
+      .expect(401);
+
+    // Nor can another user finish someone else's link
+    await request(getHttpServer(app))
+      .post('/api/v1/auth/oauth/google/link/callback')
+      .set('Authorization', `Bearer ${victim.accessToken}`)
+      .send(issuer.authorize(await startLink(owner.accessToken), profile))
+      .expect(401);
+
+    await request(getHttpServer(app))
+      .post('/api/v1/auth/oauth/google/link/callback')
+      .set('Authorization', `Bearer ${owner.accessToken}`)
+      .send(issuer.authorize(await startLink(owner.accessToken), profile))
+      .expect(200)
+      .expect((res) => {
+        expect(res.body).toEqual([
+          expect.objectContaining({ provider: 'google' }),
+        ]);
+      });
+
+    const accounts = await prisma.account.findMany({
+      where: { providerAccountId: 'google-user-7' },
+    });
+    expect(accounts).toHaveLength(1);
+    expect(accounts[0].userId).toBe(owner.id);
+  });
+
+  it('should return 404 for providers that are not enabled', async () => {
+    await request(getHttpServer(app))
+      .get('/api/v1/auth/oauth/unknown')
+      .expect(404);
+  });
+});
@@ -0,0 +1,187 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import request from 'supertest';
+import { AppModule } from '../src/app.module';
+import { PrismaService } from '../src/database/prisma.service';
+import { EmailService } from '../src/modules/email/email.service';
+import {
+  createTestApp,
+  cleanupDatabase,
+  getHttpServer,
+} from './utils/test-utils';
+import { UserFactory } from './factories/user.factory';
+
+describe('Organizations API (e2e)', () => {
+  let app: INestApplication;
+  let prisma: PrismaService;
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = await createTestApp(moduleFixture);
+    prisma = moduleFixture.get<PrismaService>(PrismaService);
+  });
+
+  afterEach(async () => {
+    await cleanupDatabase(prisma);
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  async function login(): Promise<{ email: string; accessToken: string }> {
+    const userData = await UserFactory.create();
+    await prisma.user.create({ data: userData });
+
+    const res = await request(getHttpServer(app))
+      .post('/api/v1/auth/login')
+      .send(UserFactory.createLoginDto(userData.email))
+      .expect(200);
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
+    const accessToken: string = res.body.accessToken;
+
+    return { email: userData.email, accessToken };
+  }
+
+  async function switchTo(
+    accessToken: string,
+    organizationId: string | null,
+  ): Promise<string> {
+    const res = await request(getHttpServer(app))
+      .post('/api/v1/organizations/switch')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ organizationId })
+      .expect(200);
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
+    const switchedToken: string = res.body.accessToken;
+
+    return switchedToken;
+  }
+
+  it('should create an organization with the caller as owner', async () => {
+    const owner = await login();
+
+    await request(getHttpServer(app))
+      .post('/api/v1/organizations')
+      .set('Authorization', `Bearer ${owner.accessToken}`)
+      .send({ name: 'Acme Corp' })
+      .expect(201)
+      .expect((res) => {
+        expect(res.body).toHaveProperty('slug', 'acme-corp');
+        expect(res.body).toHaveProperty('role', 'OWNER');
+      });
+  });
+
+  it('should share conversations with invited members', async () => {
+    const sendInvitation = jest
+      .spyOn(app.get(EmailService), 'sendOrganizationInvitationEmail')
+      .mockResolvedValue();
+    const owner = await login();
+    const member = await login();
+
+    const orgRes = await request(getHttpServer(app))
+      .post('/api/v1/organizations')
+      .set('Authorization', `Bearer ${owner.accessToken}`)
+      .send({ name: 'Acme Corp' })
+      .expect(201);
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
+    const organizationId: string = orgRes.body.id;
+
+    await request(getHttpServer(app))
+      .post(`/api/v1/organizations/${organizationId}/invitations`)
+      .set('Authorization', `Bearer ${owner.accessToken}`)
+      .send({ email: member.email })
+      .expect(201);
+
+    const [, token] = sendInvitation.mock.calls[0];
+
+    await request(getHttpServer(app))
+      .post('/api/v1/organizations/invitations/accept')
+      .set('Authorization', `Bearer ${member.accessToken}`)
+      .send({ token })
+      .expect(200)
+      .expect((res) => {
+        expect(res.body).toHaveProperty('role', 'MEMBER');
+      });
+
+    const ownerToken = await switchTo(owner.accessToken, organizationId);
+    const memberToken = await switchTo(member.accessToken, organizationId);
+
+    const conversationRes = await request(getHttpServer(app))
+      .post('/api/v1/ai/conversations')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ title: 'Team notes' })
+      .expect(201);
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
+    const conversationId: string = conversationRes.body.id;
+
+    await request(getHttpServer(app))
+      .get(`/api/v1/ai/conversations/${conversationId}`)
+      .set('Authorization', `Bearer ${memberToken}`)
+      .expect(200);
+
+    // Members cannot delete what others created
+    await request(getHttpServer(app))
+      .delete(`/api/v1/ai/conversations/${conversationId}`)
+      .set('Authorization', `Bearer ${memberToken}`)
+      .expect(403);
+
+    // Shared conversations are not part of the personal space
+    const personalToken = await switchTo(memberToken, null);
+
+    await request(getHttpServer(app))
+      .get(`/api/v1/ai/conversations/${conversationId}`)
+      .set('Authorization', `Bearer ${personalToken}`)
+      .expect(404);
+  });
+
+  it('should reject non-members', async () => {
+    const owner = await login();
+    const outsider = await login();
+
+    const orgRes = await request(getHttpServer(app))
+      .post('/api/v1/organizations')
+      .set('Authorization', `Bearer ${owner.accessToken}`)
+      .send({ name: 'Acme Corp' })
+      .expect(201);
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
+    const organizationId: string = orgRes.body.id;
+
+    await request(getHttpServer(app))
+      .get(`/api/v1/organizations/${organizationId}/members`)
+      .set('Authorization', `Bearer ${outsider.accessToken}`)
+      .expect(403);
+
+    await request(getHttpServer(app))
+      .post('/api/v1/organizations/switch')
+      .set('Authorization', `Bearer ${outsider.accessToken}`)
+      .send({ organizationId })
+      .expect(404);
+  });
+
+  it('should not remove the last owner', async () => {
+    const owner = await login();
+
+    const orgRes = await request(getHttpServer(app))
+      .post('/api/v1/organizations')
+      .set('Authorization', `Bearer ${owner.accessToken}`)
+      .send({ name: 'Acme Corp' })
+      .expect(201);
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
+    const organizationId: string = orgRes.body.id;
+    const { id: ownerId } = await prisma.user.findUniqueOrThrow({
+      where: { email: owner.email },
+    });
+
+    await request(getHttpServer(app))
+      .delete(`/api/v1/organizations/${organizationId}/members/${ownerId}`)
+      .set('Authorization', `Bearer ${owner.accessToken}`)
+      .expect(400);
+  });
+});
@@ -0,0 +1,136 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import request from 'supertest';
+import { Role, RolePermission } from '@prisma/client';
+import { AppModule } from '../src/app.module';
+import { PrismaService } from '../src/database/prisma.service';
+import { RedisService } from '../src/database/redis.service';
+import {
+  createTestApp,
+  cleanupDatabase,
+  randomEmail,
+  getHttpServer,
+} from './utils/test-utils';
+import { UserFactory } from './factories/user.factory';
+
+describe('Permissions API (e2e)', () => {
+  let app: INestApplication;
+  let prisma: PrismaService;
+  let redis: RedisService;
+  let defaultPermissions: RolePermission[];
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = await createTestApp(moduleFixture);
+    prisma = moduleFixture.get<PrismaService>(PrismaService);
+    redis = moduleFixture.get<RedisService>(RedisService);
+    defaultPermissions = await prisma.rolePermission.findMany();
+  });
+
+  afterEach(async () => {
+    await cleanupDatabase(prisma);
+    // Restore the default mappings
+    await prisma.rolePermission.deleteMany();
+    await prisma.rolePermission.createMany({ data: defaultPermissions });
+    await Promise.all(
+      Object.values(Role).map((role) => redis.del(`role-permissions:${role}`)),
+    );
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  async function login(role: Role): Promise<string> {
+    const userData = await UserFactory.create({ role });
+    await prisma.user.create({ data: userData });
+
+    const res = await request(getHttpServer(app))
+      .post('/api/v1/auth/login')
+      .send(UserFactory.createLoginDto(userData.email))
+      .expect(200);
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
+    const accessToken: string = res.body.accessToken;
+
+    return accessToken;
+  }
+
+  it('should apply granted permissions immediately', async () => {
+    const adminToken = await login(Role.ADMIN);
+    const userToken = await login(Role.USER);
+
+    await request(getHttpServer(app))
+      .get('/api/v1/users')
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(403);
+
+    await request(getHttpServer(app))
+      .post('/api/v1/permissions/roles/USER')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ permission: 'users:read' })
+      .expect(200)
+      .expect((res) => {
+        expect(res.body).toEqual({ role: 'USER', permissions: ['users:read'] });
+      });
+
+    await request(getHttpServer(app))
+      .get('/api/v1/users')
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(200);
+  });
+
+  it('should limit invitations to roles the inviter can grant', async () => {
+    const adminToken = await login(Role.ADMIN);
+    const userToken = await login(Role.USER);
+
+    await request(getHttpServer(app))
+      .post('/api/v1/permissions/roles/USER')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ permission: 'invitations:manage' })
+      .expect(200);
+
+    await request(getHttpServer(app))
+      .post('/api/v1/auth/invitations')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({ email: randomEmail(), role: Role.ADMIN })
+      .expect(403);
+
+    await request(getHttpServer(app))
+      .post('/api/v1/auth/invitations')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({ email: randomEmail(), role: Role.USER })
+      .expect(201);
+  });
+
+  it('should reject unknown permissions', async () => {
+    const adminToken = await login(Role.ADMIN);
+
+    await request(getHttpServer(app))
+      .put('/api/v1/permissions/roles/PREMIUM')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ permissions: ['ai:model:gpt-4', 'users:fly'] })
+      .expect(400);
+  });
+
+  it('should keep permissions:manage on ADMIN', async () => {
+    const adminToken = await login(Role.ADMIN);
+
+    await request(getHttpServer(app))
+      .delete('/api/v1/permissions/roles/ADMIN/permissions:manage')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(400);
+  });
+
+  it('should not let users edit permissions', async () => {
+    const userToken = await login(Role.USER);
+
+    await request(getHttpServer(app))
+      .get('/api/v1/permissions/roles')
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(403);
+  });
+});
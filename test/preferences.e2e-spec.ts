@@ -0,0 +1,114 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import request from 'supertest';
+import { AppModule } from '../src/app.module';
+import { PrismaService } from '../src/database/prisma.service';
+import {
+  createTestApp,
+  cleanupDatabase,
+  getHttpServer,
+} from './utils/test-utils';
+import { UserFactory } from './factories/user.factory';
+
+describe('User preferences (e2e)', () => {
+  let app: INestApplication;
+  let prisma: PrismaService;
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = await createTestApp(moduleFixture);
+    prisma = moduleFixture.get<PrismaService>(PrismaService);
+  });
+
+  afterEach(async () => {
+    await cleanupDatabase(prisma);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  async function login(): Promise<string> {
+    const userData = await UserFactory.create();
+    await prisma.user.create({ data: userData });
+
+    const res = await request(getHttpServer(app))
+      .post('/api/v1/auth/login')
+      .send(UserFactory.createLoginDto(userData.email))
+      .expect(200);
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
+    const accessToken: string = res.body.accessToken;
+
+    return accessToken;
+  }
+
+  it('should return defaults until settings change', async () => {
+    const accessToken = await login();
+
+    await request(getHttpServer(app))
+      .get('/api/v1/users/me/preferences')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200)
+      .expect((res) => {
+        expect(res.body).toMatchObject({
+          version: 1,
+          timezone: 'UTC',
+          notifications: { newSignIn: true },
+        });
+      });
+
+    await request(getHttpServer(app))
+      .patch('/api/v1/users/me/preferences')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({
+        ai: { temperature: 0.2 },
+        timezone: 'Europe/Berlin',
+        notifications: { newSignIn: false },
+      })
+      .expect(200)
+      .expect((res) => {
+        expect(res.body).toMatchObject({
+          ai: { temperature: 0.2 },
+          timezone: 'Europe/Berlin',
+          notifications: { newSignIn: false, productUpdates: false },
+        });
+      });
+
+    // null resets a single setting
+    await request(getHttpServer(app))
+      .patch('/api/v1/users/me/preferences')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ timezone: null })
+      .expect(200)
+      .expect((res) => {
+        expect(res.body).toHaveProperty('timezone', 'UTC');
+        expect(res.body).toHaveProperty('ai.temperature', 0.2);
+      });
+  });
+
+  it('should validate values and model permissions', async () => {
+    const accessToken = await login();
+
+    await request(getHttpServer(app))
+      .patch('/api/v1/users/me/preferences')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ timezone: 'Mars/Olympus', ai: { temperature: 5 } })
+      .expect(400);
+
+    await request(getHttpServer(app))
+      .patch('/api/v1/users/me/preferences')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ theme: 'dark' })
+      .expect(400);
+
+    await request(getHttpServer(app))
+      .patch('/api/v1/users/me/preferences')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ ai: { model: 'not-granted-model' } })
+      .expect(403);
+  });
+});
@@ -0,0 +1,107 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import request from 'supertest';
+import { AuthEventType } from '@prisma/client';
+import { AppModule } from '../src/app.module';
+import { PrismaService } from '../src/database/prisma.service';
+import { UserDataService } from '../src/modules/users/user-data.service';
+import {
+  createTestApp,
+  cleanupDatabase,
+  getHttpServer,
+} from './utils/test-utils';
+import { UserFactory } from './factories/user.factory';
+
+describe('User data export and erasure (e2e)', () => {
+  let app: INestApplication;
+  let prisma: PrismaService;
+  let userDataService: UserDataService;
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = await createTestApp(moduleFixture);
+    prisma = moduleFixture.get<PrismaService>(PrismaService);
+    userDataService = moduleFixture.get<UserDataService>(UserDataService);
+  });
+
+  afterEach(async () => {
+    await cleanupDatabase(prisma);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  async function login(): Promise<{ id: string; accessToken: string }> {
+    const userData = await UserFactory.create();
+    const user = await prisma.user.create({ data: userData });
+
+    const res = await request(getHttpServer(app))
+      .post('/api/v1/auth/login')
+      .send(UserFactory.createLoginDto(userData.email))
+      .expect(200);
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
+    const accessToken: string = res.body.accessToken;
+
+    return { id: user.id, accessToken };
+  }
+
+  it('should queue one export at a time', async () => {
+    const { id, accessToken } = await login();
+
+    await request(getHttpServer(app))
+      .post('/api/v1/users/me/export')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(202);
+
+    await request(getHttpServer(app))
+      .post('/api/v1/users/me/export')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(409);
+
+    const events = await prisma.authEvent.findMany({
+      where: { userId: id, type: AuthEventType.DATA_EXPORT_REQUESTED },
+    });
+    expect(events).toHaveLength(1);
+  });
+
+  it('should reject unknown export tokens', async () => {
+    await request(getHttpServer(app))
+      .get('/api/v1/users/exports/unknown-token')
+      .expect(404);
+  });
+
+  it('should schedule erasure on delete and erase once due', async () => {
+    const { id, accessToken } = await login();
+
+    await request(getHttpServer(app))
+      .delete('/api/v1/users/me')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(204);
+
+    const deleted = await prisma.user.findUniqueOrThrow({ where: { id } });
+    expect(deleted.isActive).toBe(false);
+    expect(deleted.erasureScheduledAt!.getTime()).toBeGreaterThan(Date.now());
+
+    // Not due yet
+    await userDataService.eraseUser(id);
+    expect(await prisma.user.findUnique({ where: { id } })).not.toBeNull();
+
+    await prisma.user.update({
+      where: { id },
+      data: { erasureScheduledAt: new Date(Date.now() - 1000) },
+    });
+    await userDataService.eraseUser(id);
+
+    expect(await prisma.user.findUnique({ where: { id } })).toBeNull();
+    const events = await prisma.authEvent.findMany({
+      where: { type: AuthEventType.ACCOUNT_DELETED },
+    });
+    expect(events).toHaveLength(1);
+    expect(events[0].metadata).toMatchObject({ userId: id, erasure: true });
+  });
+});
@@ -0,0 +1,369 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import request from 'supertest';
+import { AuthEventType, Role } from '@prisma/client';
+import { AppModule } from '../src/app.module';
+import { PrismaService } from '../src/database/prisma.service';
+import {
+  createTestApp,
+  cleanupDatabase,
+  getHttpServer,
+} from './utils/test-utils';
+import { UserFactory } from './factories/user.factory';
+import { UserImportService } from '../src/modules/users/user-import.service';
+
+describe('Users admin API (e2e)', () => {
+  let app: INestApplication;
+  let prisma: PrismaService;
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = await createTestApp(moduleFixture);
+    prisma = moduleFixture.get<PrismaService>(PrismaService);
+  });
+
+  afterEach(async () => {
+    await cleanupDatabase(prisma);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  async function loginAdmin(): Promise<{ id: string; accessToken: string }> {
+    const adminData = await UserFactory.createAdmin();
+    const admin = await prisma.user.create({ data: adminData });
+
+    const res = await request(getHttpServer(app))
+      .post('/api/v1/auth/login')
+      .send(UserFactory.createLoginDto(adminData.email))
+      .expect(200);
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
+    const accessToken: string = res.body.accessToken;
+
+    return { id: admin.id, accessToken };
+  }
+
+  it('should search, filter and sort users', async () => {
+    const { accessToken } = await loginAdmin();
+    await prisma.user.createMany({
+      data: [
+        await UserFactory.create({ firstName: 'Jane', emailVerified: true }),
+        await UserFactory.create({ firstName: 'Janet', role: Role.PREMIUM }),
+        await UserFactory.create({ firstName: 'Bob' }),
+      ],
+    });
+
+    await request(getHttpServer(app))
+      .get('/api/v1/users')
+      .query({ search: 'jan', sortBy: 'firstName', sortOrder: 'asc' })
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200)
+      .expect((res) => {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        expect(res.body.meta.total).toBe(2);
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        expect(res.body.data[0].firstName).toBe('Jane');
+      });
+
+    await request(getHttpServer(app))
+      .get('/api/v1/users')
+      .query({ search: 'jan', emailVerified: 'false' })
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200)
+      .expect((res) => {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        expect(res.body.data).toHaveLength(1);
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        expect(res.body.data[0].role).toBe(Role.PREMIUM);
+      });
+  });
+
+  it('should deactivate with a reason and sign the user out', async () => {
+    const { accessToken } = await loginAdmin();
+    const userData = await UserFactory.create();
+    const user = await prisma.user.create({ data: userData });
+
+    const loginRes = await request(getHttpServer(app))
+      .post('/api/v1/auth/login')
+      .send(UserFactory.createLoginDto(userData.email))
+      .expect(200);
+
+    await request(getHttpServer(app))
+      .post(`/api/v1/users/${user.id}/deactivate`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ reason: 'Chargeback' })
+      .expect(200)
+      .expect((res) => {
+        expect(res.body).toHaveProperty('isActive', false);
+        expect(res.body).toHaveProperty('deactivationReason', 'Chargeback');
+      });
+
+    await request(getHttpServer(app))
+      .get('/api/v1/users/me')
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+      .set('Authorization', `Bearer ${loginRes.body.accessToken}`)
+      .expect(401);
+
+    await request(getHttpServer(app))
+      .post(`/api/v1/users/${user.id}/activate`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200)
+      .expect((res) => {
+        expect(res.body).toHaveProperty('isActive', true);
+        expect(res.body).toHaveProperty('deactivationReason', null);
+      });
+  });
+
+  it('should suspend until a date and reinstate', async () => {
+    const { accessToken } = await loginAdmin();
+    const userData = await UserFactory.create();
+    const user = await prisma.user.create({ data: userData });
+    const until = new Date(Date.now() + 3600 * 1000);
+
+    await request(getHttpServer(app))
+      .post(`/api/v1/users/${user.id}/suspend`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ reason: 'Spam', until: until.toISOString() })
+      .expect(200)
+      .expect((res) => {
+        expect(res.body).toHaveProperty('reason', 'Spam');
+        expect(res.body).toHaveProperty('liftedAt', null);
+      });
+
+    await request(getHttpServer(app))
+      .post('/api/v1/auth/login')
+      .send(UserFactory.createLoginDto(userData.email))
+      .expect(403)
+      .expect((res) => {
+        expect(res.body).toHaveProperty('code', 'ACCOUNT_SUSPENDED');
+        expect(res.body).toHaveProperty('suspendedUntil', until.toISOString());
+      });
+
+    await request(getHttpServer(app))
+      .post(`/api/v1/users/${user.id}/reinstate`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200);
+
+    await request(getHttpServer(app))
+      .post(`/api/v1/users/${user.id}/reinstate`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(400);
+
+    await request(getHttpServer(app))
+      .post('/api/v1/auth/login')
+      .send(UserFactory.createLoginDto(userData.email))
+      .expect(200);
+
+    await request(getHttpServer(app))
+      .get(`/api/v1/users/${user.id}/suspensions`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200)
+      .expect((res) => {
+        expect(res.body).toHaveLength(1);
+      });
+
+    expect(
+      await prisma.authEvent.count({
+        where: {
+          userId: user.id,
+          type: {
+            in: [
+              AuthEventType.ACCOUNT_SUSPENDED,
+              AuthEventType.ACCOUNT_REINSTATED,
+            ],
+          },
+        },
+      }),
+    ).toBe(2);
+  });
+
+  it('should stop applying a suspension once it ends', async () => {
+    const { accessToken } = await loginAdmin();
+    const userData = await UserFactory.create();
+    const user = await prisma.user.create({ data: userData });
+
+    await request(getHttpServer(app))
+      .post(`/api/v1/users/${user.id}/suspend`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ reason: 'Cooling off' })
+      .expect(200);
+
+    await prisma.suspension.updateMany({
+      where: { userId: user.id },
+      data: { endsAt: new Date(Date.now() - 1000) },
+    });
+
+    await request(getHttpServer(app))
+      .post('/api/v1/auth/login')
+      .send(UserFactory.createLoginDto(userData.email))
+      .expect(200);
+  });
+
+  it('should change roles but not your own', async () => {
+    const admin = await loginAdmin();
+    const user = await prisma.user.create({ data: await UserFactory.create() });
+
+    await request(getHttpServer(app))
+      .patch(`/api/v1/users/${user.id}/role`)
+      .set('Authorization', `Bearer ${admin.accessToken}`)
+      .send({ role: Role.PREMIUM })
+      .expect(200)
+      .expect((res) => {
+        expect(res.body).toHaveProperty('role', Role.PREMIUM);
+      });
+
+    await request(getHttpServer(app))
+      .patch(`/api/v1/users/${admin.id}/role`)
+      .set('Authorization', `Bearer ${admin.accessToken}`)
+      .send({ role: Role.USER })
+      .expect(400);
+  });
+
+  it('should hard-delete a user and keep an audit event', async () => {
+    const { accessToken } = await loginAdmin();
+    const user = await prisma.user.create({ data: await UserFactory.create() });
+
+    await request(getHttpServer(app))
+      .delete(`/api/v1/users/${user.id}`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(204);
+
+    expect(await prisma.user.findUnique({ where: { id: user.id } })).toBeNull();
+    const events = await prisma.authEvent.findMany({
+      where: { type: AuthEventType.ACCOUNT_DELETED },
+    });
+    expect(events).toHaveLength(1);
+    expect(events[0].email).toBeNull();
+    expect(events[0].metadata).toMatchObject({ userId: user.id });
+  });
+
+  it('should export filtered users as CSV and JSON lines', async () => {
+    const { accessToken } = await loginAdmin();
+    await prisma.user.create({
+      data: await UserFactory.create({ firstName: '=cmd', lastName: 'Doe' }),
+    });
+
+    const csvRes = await request(getHttpServer(app))
+      .get('/api/v1/users/export')
+      .query({ search: 'doe' })
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200)
+      .expect('Content-Type', /text\/csv/);
+
+    const lines = csvRes.text.trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatch(/^id,email,firstName/);
+    // Formula-like values are escaped for spreadsheets
+    expect(lines[1]).toContain("'=cmd");
+
+    const jsonlRes = await request(getHttpServer(app))
+      .get('/api/v1/users/export')
+      .query({ format: 'jsonl' })
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200)
+      .buffer(true)
+      .parse((res, callback) => {
+        let data = '';
+        res.on('data', (chunk: Buffer) => (data += chunk.toString()));
+        res.on('end', () => callback(null, data));
+      });
+
+    const records = (jsonlRes.body as string)
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line) as { email: string });
+    expect(records).toHaveLength(2);
+  });
+
+  it('should import users from CSV with per-row results', async () => {
+    const admin = await loginAdmin();
+    const existing = await prisma.user.create({
+      data: await UserFactory.create(),
+    });
+    const csv = [
+      'Email,First Name,Last Name,Role',
+      'new@example.com,New,User,premium',
+      `${existing.email},Existing,User,`,
+      'not-an-email,Bad,Row,',
+      'NEW@example.com,Duplicate,Row,',
+    ].join('\n');
+
+    await request(getHttpServer(app))
+      .post('/api/v1/users/import')
+      .set('Authorization', `Bearer ${admin.accessToken}`)
+      .attach('file', Buffer.from(csv), 'users.csv')
+      .expect(202)
+      .expect((res) => {
+        expect(res.body).toHaveProperty('jobId');
+      });
+
+    await request(getHttpServer(app))
+      .post('/api/v1/users/import')
+      .set('Authorization', `Bearer ${admin.accessToken}`)
+      .attach('file', Buffer.from('name\nJane'), 'users.csv')
+      .expect(400);
+
+    const tooManyRows = [
+      'email',
+      ...Array.from({ length: 1001 }, (_, i) => `user${i}@example.com`),
+    ].join('\n');
+    await request(getHttpServer(app))
+      .post('/api/v1/users/import')
+      .set('Authorization', `Bearer ${admin.accessToken}`)
+      .attach('file', Buffer.from(tooManyRows), 'users.csv')
+      .expect(400);
+
+    await request(getHttpServer(app))
+      .post('/api/v1/users/import')
+      .set('Authorization', `Bearer ${admin.accessToken}`)
+      .attach('file', Buffer.alloc(1048577, 'a'), 'users.csv')
+      .expect(413);
+
+    // Run the rows through the importer directly rather than waiting on
+    // the queue
+    const result = await app.get(UserImportService).importUsers({
+      rows: [
+        { email: 'direct@example.com', role: 'premium' },
+        { email: existing.email },
+        { email: 'not-an-email' },
+      ],
+      sendInvitations: false,
+      actorId: admin.id,
+    });
+
+    expect(result).toMatchObject({
+      total: 3,
+      created: 1,
+      skipped: 1,
+      invalid: 1,
+    });
+    expect(result.rows[2].errors).toContain('Invalid email address');
+
+    const created = await prisma.user.findUniqueOrThrow({
+      where: { email: 'direct@example.com' },
+    });
+    expect(created.role).toBe(Role.PREMIUM);
+    expect(created.password).toBeNull();
+  });
+
+  it('should reject non-admins', async () => {
+    const userData = await UserFactory.create();
+    const user = await prisma.user.create({ data: userData });
+
+    const loginRes = await request(getHttpServer(app))
+      .post('/api/v1/auth/login')
+      .send(UserFactory.createLoginDto(userData.email))
+      .expect(200);
+
+    await request(getHttpServer(app))
+      .post(`/api/v1/users/${user.id}/verify-email`)
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+      .set('Authorization', `Bearer ${loginRes.body.accessToken}`)
+      .expect(403);
+  });
+});
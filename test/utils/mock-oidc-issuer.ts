@@ -0,0 +1,141 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { createHash, randomBytes } from 'crypto';
+
+export interface MockOidcUser {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  given_name?: string;
+  family_name?: string;
+}
+
+interface PendingCode {
+  user: MockOidcUser;
+  codeChallenge: string;
+  redirectUri: string;
+}
+
+/**
+ * Minimal OpenID Connect issuer for e2e tests: discovery, token and
+ * userinfo endpoints with PKCE checks. Instead of rendering a login page,
+ * tests call authorize() with the user that should "sign in".
+ */
+export class MockOidcIssuer {
+  readonly clientId = 'test-client-id';
+  readonly clientSecret = 'test-client-secret';
+
+  private server?: Server;
+  private codes = new Map<string, PendingCode>();
+  private accessTokens = new Map<string, MockOidcUser>();
+
+  get url(): string {
+    const { port } = this.server!.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async start(): Promise<void> {
+    this.server = createServer((req, res) => {
+      void this.handle(req).then(([status, body]) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      });
+    });
+
+    await new Promise<void>((resolve) =>
+      this.server!.listen(0, '127.0.0.1', resolve),
+    );
+  }
+
+  async stop(): Promise<void> {
+    await new Promise((resolve) => this.server?.close(resolve));
+  }
+
+  /**
+   * Simulate the user approving the authorization request.
+   * Returns the query parameters the provider would send to the callback.
+   */
+  authorize(
+    authorizationUrl: string,
+    user: MockOidcUser,
+  ): { code: string; state: string } {
+    const params = new URL(authorizationUrl).searchParams;
+
+    if (params.get('client_id') !== this.clientId) {
+      throw new Error('Unknown client_id');
+    }
+
+    const code = randomBytes(16).toString('hex');
+    this.codes.set(code, {
+      user,
+      codeChallenge: params.get('code_challenge')!,
+      redirectUri: params.get('redirect_uri')!,
+    });
+
+    return { code, state: params.get('state')! };
+  }
+
+  private async handle(req: IncomingMessage): Promise<[number, unknown]> {
+    const path = new URL(req.url!, this.url).pathname;
+
+    if (path === '/.well-known/openid-configuration') {
+      return [
+        200,
+        {
+          issuer: this.url,
+          authorization_endpoint: `${this.url}/authorize`,
+          token_endpoint: `${this.url}/token`,
+          userinfo_endpoint: `${this.url}/userinfo`,
+        },
+      ];
+    }
+
+    if (path === '/token' && req.method === 'POST') {
+      const body = new URLSearchParams(await this.readBody(req));
+      const pending = this.codes.get(body.get('code') ?? '');
+      this.codes.delete(body.get('code') ?? '');
+
+      const verifierHash = createHash('sha256')
+        .update(body.get('code_verifier') ?? '')
+        .digest('base64url');
+
+      if (
+        !pending ||
+        body.get('client_id') !== this.clientId ||
+        body.get('client_secret') !== this.clientSecret ||
+        body.get('redirect_uri') !== pending.redirectUri ||
+        verifierHash !== pending.codeChallenge
+      ) {
+        return [400, { error: 'invalid_grant' }];
+      }
+
+      const accessToken = randomBytes(16).toString('hex');
+      this.accessTokens.set(accessToken, pending.user);
+
+      return [
+        200,
+        { access_token: accessToken, token_type: 'Bearer', expires_in: 3600 },
+      ];
+    }
+
+    if (path === '/userinfo') {
+      const accessToken = (req.headers.authorization ?? '').replace(
+        'Bearer ',
+        '',
+      );
+      const user = this.accessTokens.get(accessToken);
+
+      return user ? [200, user] : [401, { error: 'invalid_token' }];
+    }
+
+    return [404, { error: 'not_found' }];
+  }
+
+  private async readBody(req: IncomingMessage): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString();
+  }
+}
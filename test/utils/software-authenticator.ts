@@ -0,0 +1,182 @@
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'crypto';
+import type { KeyObject } from 'crypto';
+import type {
+  AuthenticationResponseJSON,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+
+// Authenticator data flags
+const USER_PRESENT = 0x01;
+const USER_VERIFIED = 0x04;
+const ATTESTED_CREDENTIAL_DATA = 0x40;
+
+/**
+ * Minimal CBOR encoder covering what attestation objects and COSE keys use
+ */
+function encodeCbor(value: unknown): Buffer {
+  const head = (majorType: number, length: number): Buffer => {
+    if (length < 24) {
+      return Buffer.from([(majorType << 5) | length]);
+    }
+    if (length < 256) {
+      return Buffer.from([(majorType << 5) | 24, length]);
+    }
+    const buffer = Buffer.alloc(3);
+    buffer[0] = (majorType << 5) | 25;
+    buffer.writeUInt16BE(length, 1);
+    return buffer;
+  };
+
+  if (typeof value === 'number') {
+    return value >= 0 ? head(0, value) : head(1, -1 - value);
+  }
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([head(3, bytes.length), bytes]);
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([head(2, value.length), value]);
+  }
+  if (value instanceof Map) {
+    const entries = [...(value as Map<unknown, unknown>).entries()];
+    return Buffer.concat([
+      head(5, entries.length),
+      ...entries.flatMap(([key, entry]) => [
+        encodeCbor(key),
+        encodeCbor(entry),
+      ]),
+    ]);
+  }
+  throw new Error('Unsupported CBOR value');
+}
+
+/**
+ * Software authenticator for e2e tests: creates an ES256 passkey and signs
+ * assertions the way a browser and platform authenticator would
+ */
+export class SoftwareAuthenticator {
+  readonly credentialId = randomBytes(16);
+  private readonly privateKey: KeyObject;
+  private readonly publicKey: KeyObject;
+  private counter = 0;
+
+  constructor(
+    private readonly origin = 'http://localhost:5173',
+    private readonly userVerified = true,
+  ) {
+    ({ privateKey: this.privateKey, publicKey: this.publicKey } =
+      generateKeyPairSync('ec', { namedCurve: 'P-256' }));
+  }
+
+  /**
+   * Answer navigator.credentials.create()
+   */
+  createCredential(
+    options: PublicKeyCredentialCreationOptionsJSON,
+  ): RegistrationResponseJSON {
+    const clientDataJSON = this.clientData(
+      'webauthn.create',
+      options.challenge,
+    );
+
+    const jwk = this.publicKey.export({ format: 'jwk' });
+    const cosePublicKey = encodeCbor(
+      new Map<number, number | Buffer>([
+        [1, 2], // kty: EC2
+        [3, -7], // alg: ES256
+        [-1, 1], // crv: P-256
+        [-2, Buffer.from(jwk.x!, 'base64url')],
+        [-3, Buffer.from(jwk.y!, 'base64url')],
+      ]),
+    );
+
+    const credentialIdLength = Buffer.alloc(2);
+    credentialIdLength.writeUInt16BE(this.credentialId.length);
+
+    const authenticatorData = Buffer.concat([
+      this.authenticatorDataHeader(options.rp.id!, ATTESTED_CREDENTIAL_DATA),
+      Buffer.alloc(16), // AAGUID
+      credentialIdLength,
+      this.credentialId,
+      cosePublicKey,
+    ]);
+
+    const attestationObject = encodeCbor(
+      new Map<string, unknown>([
+        ['fmt', 'none'],
+        ['attStmt', new Map()],
+        ['authData', authenticatorData],
+      ]),
+    );
+
+    return {
+      id: this.credentialId.toString('base64url'),
+      rawId: this.credentialId.toString('base64url'),
+      type: 'public-key',
+      response: {
+        clientDataJSON: clientDataJSON.toString('base64url'),
+        attestationObject: attestationObject.toString('base64url'),
+        transports: ['internal'],
+      },
+      clientExtensionResults: {},
+    };
+  }
+
+  /**
+   * Answer navigator.credentials.get()
+   */
+  getAssertion(
+    options: PublicKeyCredentialRequestOptionsJSON,
+  ): AuthenticationResponseJSON {
+    const clientDataJSON = this.clientData('webauthn.get', options.challenge);
+    const authenticatorData = this.authenticatorDataHeader(options.rpId!);
+
+    const signature = sign(
+      'sha256',
+      Buffer.concat([
+        authenticatorData,
+        createHash('sha256').update(clientDataJSON).digest(),
+      ]),
+      this.privateKey,
+    );
+
+    return {
+      id: this.credentialId.toString('base64url'),
+      rawId: this.credentialId.toString('base64url'),
+      type: 'public-key',
+      response: {
+        clientDataJSON: clientDataJSON.toString('base64url'),
+        authenticatorData: authenticatorData.toString('base64url'),
+        signature: signature.toString('base64url'),
+      },
+      clientExtensionResults: {},
+    };
+  }
+
+  private clientData(type: string, challenge: string): Buffer {
+    return Buffer.from(
+      JSON.stringify({
+        type,
+        challenge,
+        origin: this.origin,
+        crossOrigin: false,
+      }),
+    );
+  }
+
+  private authenticatorDataHeader(rpId: string, extraFlags = 0): Buffer {
+    const flags =
+      USER_PRESENT | (this.userVerified ? USER_VERIFIED : 0) | extraFlags;
+
+    const signCount = Buffer.alloc(4);
+    signCount.writeUInt32BE(++this.counter);
+
+    return Buffer.concat([
+      createHash('sha256').update(rpId).digest(),
+      Buffer.from([flags]),
+      signCount,
+    ]);
+  }
+}
@@ -40,7 +40,10 @@ export async function cleanupDatabase(prisma: PrismaService) {
 
   const tables = tablenames
     .map(({ tablename }) => tablename)
-    .filter((name) => name !== '_prisma_migrations')
+    // Role permissions are reference data inserted by a migration
+    .filter(
+      (name) => !['_prisma_migrations', 'role_permissions'].includes(name),
+    )
     .map((name) => `"public"."${name}"`)
     .join(', ');
 